@@ -0,0 +1,187 @@
+import type { AsyncCallback, AsyncItemError, AsyncOptions } from './types'
+
+type Items<T> = Iterable<T> | AsyncIterable<T>
+
+type Outcome<T, U> =
+  | { index: number, item: T, ok: true, value: U }
+  | { index: number, item: T, ok: false, error: AsyncItemError<T> }
+
+/** Produced by `mapConcurrently()` for every item whose callback succeeded. */
+export interface AsyncResult<T, U> {
+  item: T
+  index: number
+  value: U
+}
+
+export class AsyncTimeoutError extends Error {
+  readonly index: number
+  readonly timeout: number
+
+  constructor(index: number, timeout: number) {
+    super(`Item ${index} timed out after ${timeout}ms`)
+    this.name = 'AsyncTimeoutError'
+    this.index = index
+    this.timeout = timeout
+  }
+}
+
+/**
+ * Runs `callback` over `items` with at most `concurrency` calls in flight,
+ * pulling the next item only when a slot frees up. Results come in item order,
+ * or in completion order when `ordered` is false.
+ *
+ * Each attempt gets its own signal, aborted on timeout, on `signal` abort and
+ * when the consumer stops early; an attempt that ignores it is abandoned. An
+ * aborted `signal` always rejects with its reason, whatever `onError` says.
+ */
+export async function* mapConcurrently<T, U>(
+  items: Items<T>,
+  callback: AsyncCallback<T, U>,
+  options: AsyncOptions<T> = {},
+): AsyncGenerator<AsyncResult<T, U>, void, undefined> {
+  const { concurrency = Infinity, ordered = true, onError = 'throw', signal } = options
+  if (!(concurrency >= 1))
+    throw new Error('Concurrency must be greater than 0')
+  signal?.throwIfAborted()
+
+  const controller = new AbortController()
+  const forwardAbort = () => controller.abort(signal?.reason)
+  signal?.addEventListener('abort', forwardAbort, { once: true })
+  const attempt = createAttemptRunner(options, controller.signal)
+
+  const iterator = Symbol.asyncIterator in items
+    ? (items as AsyncIterable<T>)[Symbol.asyncIterator]()
+    : (items as Iterable<T>)[Symbol.iterator]()
+  // Settled attempts queue up here and wake the loop, so each one is handled once
+  const settled: Outcome<T, U>[] = []
+  let head = 0
+  let wake: (() => void) | undefined
+  const finished = new Map<number, Outcome<T, U>>()
+  let exhausted = false
+  let pending = 0
+  let started = 0
+  let nextToYield = 0
+
+  try {
+    while (true) {
+      while (!exhausted && pending < concurrency) {
+        const next = await iterator.next()
+        if (next.done) {
+          exhausted = true
+          break
+        }
+        const index = started++
+        const item = next.value
+        pending++
+        attempt(signal => callback(item, index, signal), index).then((result) => {
+          settled.push(result.ok
+            ? { index, item, ok: true, value: result.value }
+            : { index, item, ok: false, error: { item, index, error: result.error, attempts: result.attempts } })
+          wake?.()
+          wake = undefined
+        })
+      }
+      if (pending === 0)
+        return
+
+      if (head === settled.length) {
+        await new Promise<void>((resolve) => {
+          wake = resolve
+        })
+      }
+      const outcome = settled[head++]
+      if (head === settled.length) {
+        settled.length = 0
+        head = 0
+      }
+      pending--
+      signal?.throwIfAborted()
+
+      if (!outcome.ok) {
+        if (onError === 'throw')
+          throw outcome.error.error
+        if (onError !== 'skip')
+          onError(outcome.error)
+      }
+
+      if (!ordered) {
+        if (outcome.ok)
+          yield { item: outcome.item, index: outcome.index, value: outcome.value }
+        continue
+      }
+
+      // Hold results that finished early until everything before them is done
+      finished.set(outcome.index, outcome)
+      while (finished.has(nextToYield)) {
+        const ready = finished.get(nextToYield)!
+        finished.delete(nextToYield++)
+        if (ready.ok)
+          yield { item: ready.item, index: ready.index, value: ready.value }
+      }
+    }
+  }
+  finally {
+    signal?.removeEventListener('abort', forwardAbort)
+    controller.abort()
+    if (!exhausted)
+      await iterator.return?.()
+  }
+}
+
+/**
+ * Builds a function that runs one item's task with the `retry` and `timeout`
+ * options, giving up early once `parent` is aborted. It resolves with the
+ * last error instead of rejecting.
+ */
+export function createAttemptRunner<T>(
+  options: AsyncOptions<T>,
+  parent: AbortSignal,
+): <U>(task: (_signal: AbortSignal) => Promise<U>, index: number) => Promise<{ ok: true, value: U } | { ok: false, error: unknown, attempts: number }> {
+  const { retry, timeout } = options
+  const attempts = Math.max(1, retry?.attempts ?? 1)
+
+  return async (task, index) => {
+    for (let attempt = 1; ; attempt++) {
+      const controller = new AbortController()
+      const abort = () => controller.abort(parent.reason)
+      parent.addEventListener('abort', abort, { once: true })
+      const timer = timeout === undefined
+        ? undefined
+        : setTimeout(() => controller.abort(new AsyncTimeoutError(index, timeout)), timeout)
+
+      try {
+        parent.throwIfAborted()
+        return { ok: true, value: await Promise.race([task(controller.signal), rejectOnAbort(controller.signal)]) }
+      }
+      catch (error) {
+        if (parent.aborted || attempt >= attempts)
+          return { ok: false, error, attempts: attempt }
+      }
+      finally {
+        clearTimeout(timer)
+        parent.removeEventListener('abort', abort)
+      }
+
+      const backoff = typeof retry?.backoff === 'function' ? retry.backoff(attempt) : retry?.backoff ?? 0
+      if (backoff > 0)
+        await delay(backoff, parent)
+    }
+  }
+}
+
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+  return new Promise((_resolve, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true })
+  })
+}
+
+/** Waits `ms` milliseconds, or less if `signal` aborts first. */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
@@ -0,0 +1,151 @@
+import type { BenchmarkData, BenchmarkMeasurement, BenchmarkOptions, BenchmarkReport, CollectionOperations, ComplexityClass } from './types'
+import process from 'node:process'
+import { collect } from './collect'
+
+const defaultSizes = [1e3, 1e4, 1e5]
+
+/** The growth classes `fitComplexity()` chooses from, with the function each stands for. */
+const growthClasses: Array<[ComplexityClass, (_n: number) => number]> = [
+  ['O(1)', () => 1],
+  ['O(log n)', n => Math.log2(n)],
+  ['O(n)', n => n],
+  ['O(n log n)', n => n * Math.log2(n)],
+  ['O(n²)', n => n ** 2],
+  ['O(n³)', n => n ** 3],
+]
+
+/**
+ * Runs `pipeline` on inputs of every size in `options.sizes`, `warmup` times
+ * unmeasured and then `runs` times measured, and fits a growth class to the
+ * median timings. Inputs come from `options.generator`, or else repeat the
+ * items of `source` up to the size. Only the pipeline is timed; building its
+ * input is not.
+ */
+export async function runBenchmark<T>(
+  source: readonly T[],
+  pipeline: (collection: CollectionOperations<T>) => unknown,
+  options: BenchmarkOptions<T> = {},
+): Promise<BenchmarkReport> {
+  const { sizes = defaultSizes, runs = 10, warmup = 2 } = options
+  if (runs < 1)
+    throw new RangeError('benchmark() needs at least one measured run')
+  const generator = options.generator ?? repeatItems(source)
+
+  const measurements: BenchmarkMeasurement[] = []
+  for (const size of sizes) {
+    const input = Array.from(generator(size))
+    for (let i = 0; i < warmup; i++)
+      await pipeline(collect(input))
+
+    const durations: number[] = []
+    const heapDeltas: number[] = []
+    for (let i = 0; i < runs; i++) {
+      const collection = collect(input)
+      const heapBefore = process.memoryUsage().heapUsed
+      const start = performance.now()
+      await pipeline(collection)
+      durations.push(performance.now() - start)
+      heapDeltas.push(Math.max(0, process.memoryUsage().heapUsed - heapBefore))
+    }
+
+    durations.sort((a, b) => a - b)
+    measurements.push({
+      size,
+      runs,
+      medianMs: median(durations),
+      p95Ms: percentile(durations, 95),
+      minMs: durations[0],
+      maxMs: durations[durations.length - 1],
+      heapBytes: median(heapDeltas.sort((a, b) => a - b)),
+    })
+  }
+
+  const { complexity, exponent } = fitComplexity(measurements.map(({ size, medianMs }) => [size, medianMs]))
+  return createReport({ measurements, complexity, exponent })
+}
+
+/**
+ * Picks the growth class that explains `points` of `[size, time]` best. Each
+ * class is scaled to the points by least squares on relative error, so small
+ * and large sizes weigh alike. `exponent` is the slope of time against size
+ * on a log-log scale: about 1 for linear work and 2 for quadratic work. Both
+ * are undefined with fewer than two distinct sizes.
+ */
+export function fitComplexity(points: ReadonlyArray<readonly [number, number]>): { complexity: ComplexityClass | undefined, exponent: number | undefined } {
+  const usable = points.filter(([size, time]) => size > 1 && time > 0)
+  if (new Set(usable.map(([size]) => size)).size < 2)
+    return { complexity: undefined, exponent: undefined }
+
+  let best: ComplexityClass | undefined
+  let bestError = Infinity
+  for (const [name, growth] of growthClasses) {
+    const ratios = usable.map(([size, time]) => growth(size) / time)
+    const scale = ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.reduce((sum, ratio) => sum + ratio ** 2, 0)
+    const error = ratios.reduce((sum, ratio) => sum + (1 - scale * ratio) ** 2, 0)
+    if (error < bestError) {
+      best = name
+      bestError = error
+    }
+  }
+
+  const logs = usable.map(([size, time]) => [Math.log(size), Math.log(time)])
+  const meanX = logs.reduce((sum, [x]) => sum + x, 0) / logs.length
+  const meanY = logs.reduce((sum, [, y]) => sum + y, 0) / logs.length
+  const covariance = logs.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0)
+  const variance = logs.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0)
+
+  return { complexity: best, exponent: covariance / variance }
+}
+
+function createReport(data: BenchmarkData): BenchmarkReport {
+  return {
+    ...data,
+    toJSON: () => ({ measurements: data.measurements, complexity: data.complexity, exponent: data.exponent }),
+    compare: baseline => compareReports(data, baseline),
+  }
+}
+
+/** Renders a Markdown table of the medians and 95th percentiles of `current` next to those of `baseline`. */
+function compareReports(current: BenchmarkData, baseline: BenchmarkData): string {
+  const previous = new Map(baseline.measurements.map(measurement => [measurement.size, measurement]))
+  const lines = [
+    '| Size | Median | Baseline | Change | p95 | Baseline p95 | Change |',
+    '| ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+  ]
+  for (const measurement of current.measurements) {
+    const before = previous.get(measurement.size)
+    lines.push(`| ${measurement.size} | ${formatMs(measurement.medianMs)} | ${before ? formatMs(before.medianMs) : '–'} | ${change(before?.medianMs, measurement.medianMs)} | ${formatMs(measurement.p95Ms)} | ${before ? formatMs(before.p95Ms) : '–'} | ${change(before?.p95Ms, measurement.p95Ms)} |`)
+  }
+  lines.push('', `Complexity: ${current.complexity ?? 'unknown'} (baseline ${baseline.complexity ?? 'unknown'})`)
+  return lines.join('\n')
+}
+
+function repeatItems<T>(items: readonly T[]): (size: number) => T[] {
+  return (size) => {
+    if (items.length === 0)
+      throw new Error('benchmark() needs a generator or a collection with items to scale')
+    return Array.from({ length: size }, (_, i) => items[i % items.length])
+  }
+}
+
+/** The median of sorted values. */
+function median(sorted: readonly number[]): number {
+  const middle = sorted.length >> 1
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/** The nearest-rank percentile of sorted values. */
+function percentile(sorted: readonly number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]
+}
+
+function change(before: number | undefined, after: number): string {
+  if (before === undefined || before === 0)
+    return '–'
+  const percent = ((after - before) / before) * 100
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`
+}
+
+function formatMs(ms: number): string {
+  return `${ms.toFixed(ms >= 100 ? 0 : 3)} ms`
+}
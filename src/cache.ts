@@ -0,0 +1,312 @@
+import type { CacheEntry, CacheOptions, CacheStore, CachedCollectionOperations, CollectionOperations } from './types'
+import { createHash, randomUUID } from 'node:crypto'
+import { mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, utimesSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { carryOver, collect } from './collect'
+import { isCollection } from './utils'
+
+const defaultTtl = 60000
+
+/** Methods whose results must not be reused: they are random, wrap the collection, or return richer objects than a plain collection. */
+const uncachedMethods = new Set(['random', 'shuffle', 'kmeans', 'instrument', 'optimize', 'cache', 'lazy', 'trace'])
+
+/** Methods seen returning something other than a collection, which are never looked up in a store. */
+const scalarMethods = new Set<string>()
+
+/** Methods that change the items in place, so the entries built from them are dropped. */
+const mutatingMethods = new Set(['pop', 'shift'])
+
+const inFlight = new WeakMap<CacheStore, Map<string, Promise<unknown[]>>>()
+
+/**
+ * Creates a store that keeps entries in memory. Reading an entry marks it as
+ * recently used, and once there are more than `maxEntries` entries the least
+ * recently used one is dropped.
+ */
+export function createMemoryStore(options: { maxEntries?: number } = {}): CacheStore {
+  const { maxEntries = Infinity } = options
+  const entries = new Map<string, CacheEntry<unknown>>()
+
+  return {
+    get(key) {
+      const entry = entries.get(key)
+      if (entry) {
+        entries.delete(key)
+        entries.set(key, entry)
+      }
+      return entry
+    },
+
+    set(key, entry) {
+      entries.delete(key)
+      entries.set(key, entry)
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries)
+          break
+        entries.delete(oldest)
+      }
+    },
+
+    delete(key) {
+      return entries.delete(key)
+    },
+
+    clear(prefix) {
+      for (const key of [...entries.keys()]) {
+        if (prefix === undefined || matchesPrefix(key, prefix))
+          entries.delete(key)
+      }
+    },
+  }
+}
+
+/**
+ * Creates a store that keeps each entry in a JSON file in `directory`, so
+ * entries survive restarts and can be shared between processes. Values go
+ * through `JSON.stringify()`, which turns dates into strings. Reading an entry
+ * touches its file, and the files used least recently are removed once there
+ * are more than `maxEntries`.
+ */
+export function createFileStore(directory: string, options: { maxEntries?: number } = {}): CacheStore {
+  const { maxEntries = Infinity } = options
+  const fileFor = (key: string) => join(directory, `${hash(key)}.json`)
+
+  function readFile(file: string): { key: string, entry: CacheEntry<unknown> } | undefined {
+    try {
+      return JSON.parse(readFileSync(file, 'utf8'))
+    }
+    catch {
+      return undefined
+    }
+  }
+
+  function listFiles(): string[] {
+    try {
+      return readdirSync(directory).filter(name => name.endsWith('.json')).map(name => join(directory, name))
+    }
+    catch {
+      return []
+    }
+  }
+
+  return {
+    get(key) {
+      const file = fileFor(key)
+      const stored = readFile(file)
+      if (stored?.key !== key)
+        return undefined
+      const now = new Date()
+      utimesSync(file, now, now)
+      return stored.entry
+    },
+
+    set(key, entry) {
+      mkdirSync(directory, { recursive: true })
+      const file = fileFor(key)
+      // Write to a temporary file first so readers never see half an entry
+      const temporary = `${file}.${randomUUID()}.tmp`
+      writeFileSync(temporary, JSON.stringify({ key, entry }))
+      renameSync(temporary, file)
+
+      const files = listFiles()
+      if (files.length <= maxEntries)
+        return
+      const byAge = files.map(path => ({ path, used: statSync(path).mtimeMs })).sort((a, b) => a.used - b.used)
+      for (const { path } of byAge.slice(0, files.length - maxEntries))
+        rmSync(path, { force: true })
+    },
+
+    delete(key) {
+      const file = fileFor(key)
+      if (readFile(file)?.key !== key)
+        return false
+      rmSync(file, { force: true })
+      return true
+    },
+
+    clear(prefix) {
+      for (const file of listFiles()) {
+        const stored = readFile(file)
+        if (prefix === undefined || (stored && matchesPrefix(stored.key, prefix)))
+          rmSync(file, { force: true })
+      }
+    },
+  }
+}
+
+/** The store `cache()` uses when none is given: in memory, holding the 100 most recently used entries. */
+export const defaultCacheStore: CacheStore = createMemoryStore({ maxEntries: 100 })
+
+/**
+ * Wraps a collection so that every method returning a new collection is
+ * answered from `store` while the entry is fresh. Each result is cached under
+ * the fingerprint of the call that made it, appended to this collection's, and
+ * is itself cached, so whole chains are reused. A fingerprint given as a
+ * function is worked out on the first call that needs it.
+ */
+export function createCachedCollection<T>(collection: CollectionOperations<T>, fingerprint: string | (() => string), options: CacheOptions = {}): CachedCollectionOperations<T> {
+  const { ttl = defaultTtl, store = defaultCacheStore } = options
+  let resolved = typeof fingerprint === 'string' ? fingerprint : undefined
+  const fingerprintNow = () => {
+    if (resolved === undefined)
+      resolved = (fingerprint as () => string)()
+    return resolved
+  }
+  const invalidate = () => store.clear(fingerprintNow())
+  const keyOf = (property: string, args: unknown[]) => `${fingerprintNow()}.${property}(${hash(serialize(args))})`
+
+  const cached: CachedCollectionOperations<T> = new Proxy(collection as CachedCollectionOperations<T>, {
+    get(target, property, receiver) {
+      if (property === 'invalidate')
+        return invalidate
+      if (property === 'fingerprint')
+        return fingerprintNow()
+
+      const value = Reflect.get(target, property, receiver)
+      if (typeof value !== 'function' || typeof property !== 'string' || uncachedMethods.has(property))
+        return value
+      if (mutatingMethods.has(property)) {
+        return (...args: unknown[]) => {
+          invalidate()
+          return value.apply(target, args)
+        }
+      }
+
+      return (...args: unknown[]) => {
+        // Methods that returned something else before, such as `count()`, never reach the store
+        const key = scalarMethods.has(property) ? undefined : keyOf(property, args)
+        if (key !== undefined) {
+          const entry = store.get(key)
+          if (entry && entry.expiry > Date.now())
+            return createCachedCollection(carryOver(target, collect([...entry.data] as T[])), key, options)
+          if (entry)
+            store.delete(key)
+        }
+
+        const result = value.apply(target, args)
+        if (result === target)
+          return cached
+        if (!isCollection(result)) {
+          scalarMethods.add(property)
+          return result
+        }
+        scalarMethods.delete(property)
+        const resultKey = key ?? keyOf(property, args)
+        store.set(resultKey, { data: [...result.items], expiry: Date.now() + ttl })
+        return createCachedCollection(result, resultKey, options)
+      }
+    },
+  })
+
+  return cached
+}
+
+/**
+ * Reads `key` from the store, or computes and stores it. Concurrent reads of
+ * a key that is being computed share one computation.
+ */
+export async function readThrough<T>(key: string, compute: () => Promise<T[]>, options: CacheOptions = {}): Promise<T[]> {
+  const { ttl = defaultTtl, store = defaultCacheStore } = options
+  const entry = store.get(key)
+  if (entry && entry.expiry > Date.now())
+    return entry.data as T[]
+
+  let computing = inFlight.get(store)
+  if (!computing) {
+    computing = new Map()
+    inFlight.set(store, computing)
+  }
+  let pending = computing.get(key) as Promise<T[]> | undefined
+  if (!pending) {
+    pending = compute().then((data) => {
+      store.set(key, { data, expiry: Date.now() + ttl })
+      return data
+    })
+    computing.set(key, pending)
+    pending.then(() => computing.delete(key), () => computing.delete(key))
+  }
+  return pending
+}
+
+/** Fingerprints a value: equal plain data gives equal fingerprints, anything else is told apart by identity. */
+export function fingerprintOf(value: unknown): string {
+  if (!Array.isArray(value))
+    return hash(serialize(value))
+
+  // Hash item by item, giving the same digest as the whole array's serialization without building it
+  const digest = createHash('sha1').update('[')
+  const seen = new Set<object>([value])
+  value.forEach((item, i) => {
+    digest.update(i === 0 ? serialize(item, seen) : `,${serialize(item, seen)}`)
+  })
+  return digest.update(']').digest('hex').slice(0, 20)
+}
+
+/** Distinguishes this process's identities, so a shared file store never mixes them up with another process's. */
+const processId = randomUUID().slice(0, 8)
+const identities = new WeakMap<object, number>()
+let nextIdentity = 0
+
+function identityOf(value: object): string {
+  let id = identities.get(value)
+  if (id === undefined) {
+    id = nextIdentity++
+    identities.set(value, id)
+  }
+  return `#${processId}:${id}`
+}
+
+function matchesPrefix(key: string, prefix: string): boolean {
+  return key === prefix || key.startsWith(`${prefix}.`)
+}
+
+function hash(text: string): string {
+  return createHash('sha1').update(text).digest('hex').slice(0, 20)
+}
+
+function serialize(value: unknown, seen: Set<object> = new Set()): string {
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value)
+    case 'number':
+    case 'boolean':
+    case 'undefined':
+      return String(value)
+    case 'bigint':
+      return `${value}n`
+    case 'symbol':
+      return value.toString()
+    case 'function':
+      return identityOf(value)
+  }
+  if (value === null)
+    return 'null'
+
+  const object = value as object
+  if (seen.has(object))
+    return identityOf(object)
+  seen.add(object)
+  try {
+    if (Array.isArray(object))
+      return `[${object.map(item => serialize(item, seen)).join(',')}]`
+    if (object instanceof Date)
+      return `Date(${object.getTime()})`
+    if (object instanceof Map)
+      return `Map[${Array.from(object, ([key, item]) => `${serialize(key, seen)}=>${serialize(item, seen)}`).join(',')}]`
+    if (object instanceof Set)
+      return `Set[${Array.from(object, item => serialize(item, seen)).join(',')}]`
+    if (ArrayBuffer.isView(object) && !(object instanceof DataView))
+      return `${object.constructor.name}[${Array.from(object as unknown as ArrayLike<number>).join(',')}]`
+    if (isCollection(object))
+      return `Collection${serialize(object.items, seen)}`
+
+    const prototype = Object.getPrototypeOf(object)
+    if (prototype !== Object.prototype && prototype !== null)
+      return identityOf(object)
+    const keys = Object.keys(object).sort()
+    return `{${keys.map(key => `${JSON.stringify(key)}:${serialize((object as Record<string, unknown>)[key], seen)}`).join(',')}}`
+  }
+  finally {
+    seen.delete(object)
+  }
+}
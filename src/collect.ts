@@ -1,7 +1,30 @@
-import type { AnomalyDetectionOptions, Assign, AsyncCallback, ClusterResult, Collection, CollectionMetrics, CollectionOperations, CompareFunction, ConditionalCallback, HavingOperator, InstanceOf, KeySelector, KMeansOptions, KMeansResult, LazyCollectionOperations, LeftAssign, MovingAverageOptions, Overlap, PaginationResult, PluckedCluster, PluckedData, RecordMerge, RegressionResult, RemoveProperties, SelectProperties, SerializationOptions, SetProperty, StandardDeviationResult, TimeSeriesOptions, TimeSeriesPoint, ValidationResult, ValidationRule, ValidationSchema, WithNonNullableProperty, WithNullishProperty, WithoutPropertyValue, WithPropertyValue } from './types'
+import type { Database } from 'bun:sqlite'
+import type { EqualityMap } from './equality'
+import type { AnomalyDetectionOptions, Assign, AsyncCallback, AsyncOptions, BenchmarkOptions, CachedCollectionOperations, CacheOptions, ClusterResult, Collection, CollectionConfig, CollectionMacros, CollectionMetrics, CollectionOperations, CompareFunction, ConditionalCallback, CSVParseOptions, CSVWriteOptions, DotPath, DumpDiffOptions, DumpOptions, EqualityOptions, EqualityStrategy, HavingOperator, InstanceOf, JoinKey, JSONPatchOperation, KeySelector, KMeansOptions, KMeansResult, LazyCollectionOperations, MovingAverageOptions, NDJSONParseOptions, Overlap, PaginationResult, ParallelWorkerOptions, PlaygroundOptions, PlaygroundResult, PluckedCluster, PluckedData, ReconcileOptions, ReconcilePlan, RecordMerge, RegressionResult, RemoveProperties, SelectProperties, SerializationOptions, SetProperty, SortKey, SortOptions, SQLExportOptions, SQLiteWriteOptions, StandardDeviationResult, TimeSeriesOptions, TimeSeriesPoint, TopKOptions, TraceFormat, ValidationResult, ValidationRule, ValidationSchema, VersionedCollectionOperations, VersionedOptions, WindowFunction, WindowOptions, WithNonNullableProperty, WithNullishProperty, WithoutPropertyValue, WithPropertyValue, XMLParseOptions, XMLWriteOptions } from './types'
 import process from 'node:process'
+import { createAttemptRunner, mapConcurrently } from './async'
+import { runBenchmark } from './benchmark'
+import { createCachedCollection, fingerprintOf } from './cache'
+import { formatCSV, parseCSV, reportRowErrors } from './csv'
+import { renderDiff, renderDump, resolveDumpOptions } from './dump'
+import { createEqualityMap, equalityTest } from './equality'
+import { groupItems } from './grouped'
 import { createLazyOperations } from './lazy'
+import { macroPrototype } from './macros'
+import { formatNDJSON, parseNDJSON, reportLineErrors } from './ndjson'
+import { runInWorkers } from './parallel'
+import { applyJSONPatch, reconcileItems } from './patch'
+import { omitPaths, pickPaths, valueAt } from './path'
+import { runPlayground } from './playground'
+import { executeQuery } from './query'
+import { createTopK, sortItems, toSortKeys } from './sort'
+import { formatSQL } from './sql'
+import { writeSQLite } from './sqlite'
+import { createTracedCollection, renderTrace } from './trace'
 import { calculateFuzzyScore, getNextTimestamp, isSameDay, validateCoordinates } from './utils'
+import { createVersionedCollection } from './version'
+import { applyWindow } from './window'
+import { formatXML, parseXML } from './xml'
 
 /**
  * Creates a new collection with optimized performance
@@ -20,13 +43,8 @@ export function collect<T>(items: readonly T[] | Iterable<T>): CollectionOperati
  * @internal
  */
 function createCollectionOperations<T>(collection: Collection<T>): CollectionOperations<T> {
-  // const versionStore: VersionStore<T> = {
-  //   currentVersion: 0,
-  //   snapshots: new Map(),
-  //   changes: [],
-  // }
-
-  const ops: CollectionOperations<T> = {
+  // Macros come from the prototype, so the literal only has the built-in members
+  const builtIns: Omit<CollectionOperations<T>, keyof CollectionMacros<T>> & ThisType<CollectionOperations<T>> = {
     get items() { return collection.items },
     set items(_: T[]) { /* no-op: items is read-only */ },
     get length() { return collection.items.length },
@@ -35,7 +53,7 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return [...collection.items]
     },
 
-    average(key?: keyof T) {
+    average(key?: keyof T | DotPath<T>) {
       return this.avg(key)
     },
 
@@ -51,14 +69,22 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return collect([result]) as unknown as CollectionOperations<Record<Extract<T, string | number>, U | undefined>>
     },
 
-    contains(keyOrItem: T | keyof T | undefined, value?: any): boolean {
-      if (arguments.length === 1) {
+    contains: function (keyOrItem: T | keyof T | undefined, value?: any, options?: EqualityOptions<unknown>): boolean {
+      // An object can't be a key, so a second argument after one is always options
+      if (arguments.length === 1 || (arguments.length === 2 && typeof keyOrItem === 'object' && keyOrItem !== null)) {
         if (keyOrItem === undefined)
           return false
-        return collection.items.includes(keyOrItem as T)
+        const same = equalityTest<T>(arguments.length === 2 ? value?.equality : undefined)
+        return collection.items.some(item => same(item, keyOrItem as T))
       }
-      return collection.items.some(item => item[keyOrItem as keyof T] === value)
-    },
+      const same = equalityTest<unknown>(options?.equality)
+      if ((options?.equality ?? 'reference') === 'reference') {
+        const lookup = indexLookup(ops, keyOrItem as keyof T)
+        if (lookup)
+          return lookup.has(value)
+      }
+      return collection.items.some(item => same(item[keyOrItem as keyof T], value))
+    } as CollectionOperations<T>['contains'],
 
     containsOneItem() {
       return collection.length === 1
@@ -100,11 +126,12 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return counts
     },
 
-    diffAssoc(other: readonly T[] | CollectionOperations<T>): CollectionOperations<T> {
+    diffAssoc(other: readonly T[] | CollectionOperations<T>, options: EqualityOptions<T> = {}): CollectionOperations<T> {
       const otherItems = Array.isArray(other) ? other : (other as CollectionOperations<T>).items
+      const same = equalityTest(options.equality ?? 'deep')
       return collect(
         collection.items.filter((item, index) =>
-          otherItems[index] === undefined || JSON.stringify(item) !== JSON.stringify(otherItems[index]),
+          otherItems[index] === undefined || !same(item, otherItems[index]),
         ),
       )
     },
@@ -129,6 +156,15 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       )
     },
 
+    reconcile(other: readonly T[] | CollectionOperations<T>, options: ReconcileOptions<T>): ReconcilePlan<T> {
+      const otherItems = Array.isArray(other) ? other : (other as CollectionOperations<T>).items
+      return reconcileItems(collection.items, otherItems, options)
+    },
+
+    applyPatch(patch: readonly JSONPatchOperation[]): CollectionOperations<T> {
+      return collect(applyJSONPatch(collection.items, patch))
+    },
+
     doesntContain(keyOrItem: keyof T | T, value?: any): boolean {
       if (arguments.length === 1) {
         return !collection.items.includes(keyOrItem as T)
@@ -138,8 +174,10 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       )
     },
 
-    duplicates<K extends keyof T>(key?: K) {
-      const counts = new Map<any, number>()
+    duplicates: function (keyOrOptions?: keyof T | EqualityOptions<unknown>, options: EqualityOptions<unknown> = {}) {
+      const key = typeof keyOrOptions === 'object' ? undefined : keyOrOptions
+      const { equality } = typeof keyOrOptions === 'object' ? keyOrOptions : options
+      const counts = createEqualityMap<unknown, number>(equality)
       const items = collection.items
       items.forEach((item) => {
         const value = key ? item[key] : item
@@ -151,7 +189,7 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
           return counts.get(value)! > 1
         }),
       )
-    },
+    } as CollectionOperations<T>['duplicates'],
 
     each(callback: (item: T) => void): CollectionOperations<T> {
       collection.items.forEach(callback)
@@ -165,15 +203,11 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return this
     },
 
-    except<K extends keyof T>(...keys: K[]): CollectionOperations<RemoveProperties<T, K>> {
+    except: function <K extends keyof T>(...keys: K[]): CollectionOperations<RemoveProperties<T, K>> {
       return collect(
-        collection.items.map((item) => {
-          const result = { ...item }
-          keys.forEach(key => delete result[key])
-          return result
-        }),
+        collection.items.map(item => omitPaths({ ...item }, keys)),
       ) as unknown as CollectionOperations<RemoveProperties<T, K>>
-    },
+    } as CollectionOperations<T>['except'],
 
     firstOrFail() {
       if (collection.length === 0)
@@ -181,9 +215,14 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return collection.items[0]
     },
 
-    firstWhere<K extends keyof T, V extends T[K]>(key: K, value: V): WithPropertyValue<T, K, V> | undefined {
-      return collection.items.find(item => item[key] === value) as WithPropertyValue<T, K, V> | undefined
-    },
+    firstWhere: function <K extends keyof T, V extends T[K]>(key: K, value: V): WithPropertyValue<T, K, V> | undefined {
+      const lookup = indexLookup(ops, key)
+      if (lookup) {
+        const positions = lookup.get(value)
+        return (positions ? collection.items[positions[0]] : undefined) as WithPropertyValue<T, K, V> | undefined
+      }
+      return collection.items.find(item => valueAt(item, key) === value) as WithPropertyValue<T, K, V> | undefined
+    } as CollectionOperations<T>['firstWhere'],
 
     flatten(depth = Infinity) {
       const flat = (arr: any[], d: number): any[] => {
@@ -246,11 +285,17 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return collection.items.some(item => key in (item as Record<string, unknown>))
     },
 
-    keyBy<K extends keyof T>(key: K) {
+    keyBy: function <K extends keyof T>(key: K): Map<T[K], T> {
+      const lookup = indexLookup(ops, key)
+      if (lookup) {
+        return new Map(
+          Array.from(lookup, ([value, positions]) => [value as T[K], collection.items[positions[positions.length - 1]]]),
+        )
+      }
       return new Map(
-        collection.items.map(item => [item[key], item]),
+        collection.items.map(item => [valueAt(item, key), item]),
       )
-    },
+    } as CollectionOperations<T>['keyBy'],
 
     macro<Args extends any[]>(
       name: string,
@@ -351,19 +396,9 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return collect(merged) as CollectionOperations<RecordMerge<T, U>>
     },
 
-    only<K extends PropertyKey>(...keys: K[]): CollectionOperations<SelectProperties<T, K>> {
-      return this.map((item: T) => {
-        const result: Partial<T> = {}
-        keys.forEach((key) => {
-          // Type guard to ensure item is an object before using 'in'
-          if (item && typeof item === 'object' && key in item) {
-            const typedKey = key as unknown as keyof T
-            result[typedKey] = item[typedKey]
-          }
-        })
-        return result as unknown as SelectProperties<T, K>
-      })
-    },
+    only: function <K extends PropertyKey>(this: CollectionOperations<T>, ...keys: K[]): CollectionOperations<SelectProperties<T, K>> {
+      return this.map(item => pickPaths(item, keys) as SelectProperties<T, K>)
+    } as CollectionOperations<T>['only'],
 
     pad<U = T>(size: number, value: U): CollectionOperations<T | U> {
       const result: Array<T | U> = collection.items.map(item => item as T | U)
@@ -377,6 +412,7 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
     },
 
     pop() {
+      invalidateIndex(ops)
       return collection.items.pop()
     },
 
@@ -439,10 +475,11 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
     },
 
     reverse() {
-      return collect([...collection.items].reverse())
+      return carryOver(ops, collect([...collection.items].reverse()))
     },
 
     shift(): T | undefined {
+      invalidateIndex(ops)
       return collection.items.shift()
     },
 
@@ -474,11 +511,11 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
     },
 
     slice(start: number, length?: number) {
-      return collect(
+      return carryOver(ops, collect(
         length === undefined
           ? collection.items.slice(start)
           : collection.items.slice(start, start + length),
-      )
+      ))
     },
 
     sole() {
@@ -641,7 +678,7 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
     },
 
     filter: function (predicate: (item: T, index: number) => boolean): CollectionOperations<T> {
-      return collect(collection.items.filter(predicate))
+      return carryOver(ops, collect(collection.items.filter(predicate)))
     } as CollectionOperations<T>['filter'],
 
     reduce<U>(callback: (accumulator: U, current: T, index: number) => U, initialValue: U): U {
@@ -679,19 +716,19 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
     },
 
     take(count: number): CollectionOperations<T> {
-      return collect(collection.items.slice(0, count))
+      return carryOver(ops, collect(collection.items.slice(0, count)))
     },
 
     skip(count: number): CollectionOperations<T> {
-      return collect(collection.items.slice(count))
+      return carryOver(ops, collect(collection.items.slice(count)))
     },
 
-    sum(key?: keyof T): number {
+    sum(key?: keyof T | DotPath<T>): number {
       if (collection.length === 0)
         return 0
 
       return collection.items.reduce((sum, item) => {
-        const value = key ? Number(item[key]) : Number(item)
+        const value = key ? Number(valueAt(item, key)) : Number(item)
         return sum + (Number.isNaN(value) ? 0 : value)
       }, 0)
     },
@@ -827,7 +864,7 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return this.avg(key)
     },
 
-    avg(key?: keyof T): number {
+    avg(key?: keyof T | DotPath<T>): number {
       return collection.length ? this.sum(key) / collection.length : 0
     },
 
@@ -867,23 +904,23 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return mode
     },
 
-    min(key?: keyof T): T | undefined {
+    min(key?: keyof T | DotPath<T>): T | undefined {
       if (collection.length === 0)
         return undefined
 
       return collection.items.reduce((min, item) => {
-        const value = key ? item[key] : item
-        return value < (key ? min[key] : min) ? item : min
+        const value = key ? valueAt(item, key) : item
+        return value < (key ? valueAt(min, key) : min) ? item : min
       })
     },
 
-    max(key?: keyof T): T | undefined {
+    max(key?: keyof T | DotPath<T>): T | undefined {
       if (collection.length === 0)
         return undefined
 
       return collection.items.reduce((max, item) => {
-        const value = key ? item[key] : item
-        return value > (key ? max[key] : max) ? item : max
+        const value = key ? valueAt(item, key) : item
+        return value > (key ? valueAt(max, key) : max) ? item : max
       })
     },
 
@@ -898,25 +935,16 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return collect(chunks)
     },
 
-    groupBy<K extends keyof T>(keyOrCallback: K | KeySelector<T>): Map<any, CollectionOperations<T>> {
-      const groups = new Map<any, T[]>()
-
-      for (const item of collection.items) {
-        const key = typeof keyOrCallback === 'function'
-          ? keyOrCallback(item)
-          : item[keyOrCallback]
-
-        if (!groups.has(key))
-          groups.set(key, [])
-        groups.get(key)!.push(item)
+    groupBy: function (keyOrCallback: keyof T | DotPath<T> | readonly (keyof T)[] | KeySelector<T>) {
+      if (typeof keyOrCallback === 'function')
+        return groupItems(collection.items, keyOrCallback)
+      if (Array.isArray(keyOrCallback)) {
+        const keys: Array<keyof T> = [...keyOrCallback]
+        return groupItems(collection.items, item => keys.map(key => valueAt(item, key)), { keyFields: keys, multiLevel: true })
       }
-
-      return new Map(
-        Array.from(groups.entries()).map(
-          ([key, items]) => [key, collect(items)],
-        ),
-      )
-    },
+      const key = keyOrCallback as keyof T | DotPath<T>
+      return groupItems(collection.items, item => valueAt(item, key), { keyFields: [key] })
+    } as CollectionOperations<T>['groupBy'],
 
     partition: function (predicate: (item: T) => boolean): [CollectionOperations<T>, CollectionOperations<T>] {
       const pass: T[] = []
@@ -934,49 +962,64 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return [collect(pass), collect(fail)]
     } as CollectionOperations<T>['partition'],
 
-    where<K extends keyof T, V extends T[K]>(key: K, value: V): CollectionOperations<WithPropertyValue<T, K, V>> {
-      return collect(collection.items.filter(item => item[key] === value)) as CollectionOperations<WithPropertyValue<T, K, V>>
-    },
+    where: function <K extends keyof T, V extends T[K]>(key: K, value: V): CollectionOperations<WithPropertyValue<T, K, V>> {
+      const lookup = indexLookup(ops, key)
+      if (lookup) {
+        const positions = lookup.get(value) ?? []
+        return carryOver(ops, collect(positions.map(position => collection.items[position])), positions) as CollectionOperations<WithPropertyValue<T, K, V>>
+      }
+      return carryOver(ops, collect(collection.items.filter(item => valueAt(item, key) === value))) as CollectionOperations<WithPropertyValue<T, K, V>>
+    } as CollectionOperations<T>['where'],
 
-    whereIn<K extends keyof T, V extends T[K]>(key: K, values: readonly V[]): CollectionOperations<WithPropertyValue<T, K, V>> {
+    whereIn: function <K extends keyof T, V extends T[K]>(key: K, values: readonly V[]): CollectionOperations<WithPropertyValue<T, K, V>> {
       const valueSet = new Set<T[K]>(values)
-      return collect(collection.items.filter(item => valueSet.has(item[key]))) as CollectionOperations<WithPropertyValue<T, K, V>>
-    },
-
-    whereNotIn<K extends keyof T, V extends T[K]>(key: K, values: readonly V[]): CollectionOperations<WithoutPropertyValue<T, K, V>> {
+      const lookup = indexLookup(ops, key)
+      if (lookup) {
+        // Merge the matching buckets back into collection order
+        const positions = Array.from(valueSet).flatMap(value => lookup.get(value) ?? [])
+        if (valueSet.size > 1)
+          positions.sort((a, b) => a - b)
+        return carryOver(ops, collect(positions.map(position => collection.items[position])), positions) as CollectionOperations<WithPropertyValue<T, K, V>>
+      }
+      return carryOver(ops, collect(collection.items.filter(item => valueSet.has(valueAt(item, key))))) as CollectionOperations<WithPropertyValue<T, K, V>>
+    } as CollectionOperations<T>['whereIn'],
+
+    whereNotIn: function <K extends keyof T, V extends T[K]>(key: K, values: readonly V[]): CollectionOperations<WithoutPropertyValue<T, K, V>> {
       const valueSet = new Set<T[K]>(values)
-      return collect(collection.items.filter(item => !valueSet.has(item[key]))) as CollectionOperations<WithoutPropertyValue<T, K, V>>
-    },
+      return carryOver(ops, collect(collection.items.filter(item => !valueSet.has(valueAt(item, key))))) as CollectionOperations<WithoutPropertyValue<T, K, V>>
+    } as CollectionOperations<T>['whereNotIn'],
 
-    whereBetween<K extends keyof T>(key: K, min: T[K], max: T[K]): CollectionOperations<T> {
-      return collect(collection.items.filter((item) => {
-        const value = item[key]
+    whereBetween: function <K extends keyof T>(key: K, min: T[K], max: T[K]): CollectionOperations<T> {
+      return carryOver(ops, collect(collection.items.filter((item) => {
+        const value = valueAt(item, key)
         return value >= min && value <= max
-      }))
-    },
+      })))
+    } as CollectionOperations<T>['whereBetween'],
 
-    whereNotBetween<K extends keyof T>(key: K, min: T[K], max: T[K]): CollectionOperations<T> {
-      return collect(collection.items.filter((item) => {
-        const value = item[key]
+    whereNotBetween: function <K extends keyof T>(key: K, min: T[K], max: T[K]): CollectionOperations<T> {
+      return carryOver(ops, collect(collection.items.filter((item) => {
+        const value = valueAt(item, key)
         return value < min || value > max
-      }))
-    },
+      })))
+    } as CollectionOperations<T>['whereNotBetween'],
 
-    unique<K extends keyof T>(key?: K): CollectionOperations<T> {
-      if (!key)
+    unique: function (keyOrOptions?: keyof T | EqualityOptions<unknown>, options: EqualityOptions<unknown> = {}): CollectionOperations<T> {
+      const key = typeof keyOrOptions === 'object' ? undefined : keyOrOptions
+      const { equality } = typeof keyOrOptions === 'object' ? keyOrOptions : options
+      if (!key && (equality ?? 'reference') === 'reference')
         return collect([...new Set(collection.items)])
 
-      const seen = new Set<T[K]>()
+      const seen = createEqualityMap<unknown, true>(equality)
       return collect(
         collection.items.filter((item) => {
-          const value = item[key]
+          const value = key ? item[key] : item
           if (seen.has(value))
             return false
-          seen.add(value)
+          seen.set(value, true)
           return true
         }),
       )
-    },
+    } as CollectionOperations<T>['unique'],
 
     when: function <U = T>(
       this: CollectionOperations<T>,
@@ -1026,61 +1069,36 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
         })
 
         // Combine in desired order: nulls, undefineds, sorted values
-        return collect([...nulls, ...undefineds, ...values])
+        return carryOver(ops, collect([...nulls, ...undefineds, ...values]))
       }
-      return collect([...collection.items].sort(compareFunction))
+      return carryOver(ops, collect([...collection.items].sort(compareFunction)))
     },
 
-    sortBy<K extends keyof T>(key: K, direction: 'asc' | 'desc' = 'asc'): CollectionOperations<T> {
-      const sorted = [...collection.items]
+    sortBy: function (by: keyof T | DotPath<T> | readonly SortKey<T>[], directionOrOptions?: 'asc' | 'desc' | SortOptions, sortOptions?: SortOptions): CollectionOperations<T> {
+      const direction = typeof directionOrOptions === 'string' ? directionOrOptions : 'asc'
+      const options = typeof directionOrOptions === 'object' ? directionOrOptions : sortOptions
+      const { locale } = configOf(ops)
+      return carryOver(ops, collect(sortItems(collection.items, toSortKeys<T>(by, direction), { locale, ...options })))
+    } as CollectionOperations<T>['sortBy'],
 
-      if (sorted.length === 0) {
-        return collect(sorted)
-      }
-
-      // Check if any item has a defined value for the key
-      const hasDefinedValues = sorted.some(item =>
-        item?.[key] !== undefined && item[key] !== null,
-      )
-
-      // Return original order if no item has a defined value for the key
-      if (!hasDefinedValues) {
-        return collect(sorted)
-      }
-
-      return collect(sorted.sort((a, b) => {
-        const aVal = a?.[key]
-        const bVal = b?.[key]
-
-        // Handles undefined/null values
-        if (aVal === undefined || aVal === null) {
-          return direction === 'asc' ? -1 : 1
-        }
-        if (bVal === undefined || bVal === null) {
-          return direction === 'asc' ? 1 : -1
-        }
-
-        // Sort numbers numerically
-        if (typeof aVal === 'number' && typeof bVal === 'number') {
-          return direction === 'asc' ? aVal - bVal : bVal - aVal
-        }
-
-        // Sort everything else as strings
-        const comparison = String(aVal).localeCompare(String(bVal))
-        return direction === 'asc' ? comparison : -comparison
-      }))
+    sortByDesc(key: keyof T | DotPath<T>, options?: SortOptions): CollectionOperations<T> {
+      return this.sortBy(key, 'desc', options)
     },
 
-    sortByDesc<K extends keyof T>(key: K): CollectionOperations<T> {
-      return this.sortBy(key, 'desc')
+    topK(n: number, by?: keyof T | DotPath<T> | ((_item: T) => unknown) | readonly SortKey<T>[], options: TopKOptions = {}): CollectionOperations<T> {
+      const { direction = 'desc', ...sortOptions } = options
+      const { locale } = configOf(ops)
+      const top = createTopK(n, toSortKeys<T>(by, direction), { locale, ...sortOptions })
+      collection.items.forEach(top.offer)
+      return carryOver(ops, collect(top.result()))
     },
 
-    pluck<K extends keyof T>(key: K): CollectionOperations<T[K]> {
-      return collect(collection.items.map(item => item[key]))
-    },
+    pluck: function <K extends keyof T>(key: K): CollectionOperations<T[K]> {
+      return collect(collection.items.map(item => valueAt(item, key)))
+    } as CollectionOperations<T>['pluck'],
 
     values(): CollectionOperations<T> {
-      return collect([...collection.items])
+      return carryOver(ops, collect([...collection.items]))
     },
 
     keys<K extends keyof T>(key: K): CollectionOperations<T[K]> {
@@ -1092,145 +1110,15 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
     //   return collect(collection.items.filter(item => !otherSet.has(item)))
     // },
 
-    // get currentVersion(): number {
-    //   return versionStore.currentVersion
-    // },
-
-    // async snapshot(): Promise<number> {
-    //   const version = versionStore.currentVersion + 1
-    //   versionStore.snapshots.set(version, {
-    //     items: [...collection.items],
-    //     timestamp: new Date(),
-    //   })
-    //   versionStore.currentVersion = version
-    //   return version
-    // },
-
-    // hasVersion(version: number): boolean {
-    //   return versionStore.snapshots.has(version)
-    // },
-
-    // getVersion(version: number): CollectionOperations<T> | null {
-    //   const snapshot = versionStore.snapshots.get(version)
-    //   if (!snapshot)
-    //     return null
-    //   return collect(snapshot.items)
-    // },
-
-    // diff(version1: number, version2: number): CollectionOperations<VersionInfo<T>> {
-    //   // Ensure both versions exist
-    //   const snapshot1 = versionStore.snapshots.get(version1)
-    //   const snapshot2 = versionStore.snapshots.get(version2)
-
-    //   if (!snapshot1 || !snapshot2) {
-    //     throw new Error('One or both versions do not exist')
-    //   }
-
-    //   const changes: Array<{
-    //     type: 'add' | 'update' | 'delete'
-    //     item: T
-    //     previousItem?: T
-    //   }> = []
-
-    //   // Create maps for easier lookup
-    //   const items1 = new Map(snapshot1.items.map(item => [getItemKey(item), item]))
-    //   const items2 = new Map(snapshot2.items.map(item => [getItemKey(item), item]))
-
-    //   // Find deletions (in items1 but not in items2)
-    //   for (const [key, item] of items1) {
-    //     if (!items2.has(key)) {
-    //       changes.push({ type: 'delete', item })
-    //     }
-    //   }
-
-    //   // Find additions and updates
-    //   for (const [key, item] of items2) {
-    //     if (!items1.has(key)) {
-    //       changes.push({ type: 'add', item })
-    //     }
-    //     else {
-    //       const oldItem = items1.get(key)!
-    //       if (!deepEqual(oldItem, item)) {
-    //         changes.push({
-    //           type: 'update',
-    //           item,
-    //           previousItem: oldItem,
-    //         })
-    //       }
-    //     }
-    //   }
-
-    //   return collect([{
-    //     version: version2,
-    //     timestamp: new Date(),
-    //     changes,
-    //   }])
-    // },
-
-    // diffSummary(version1: number, version2: number) {
-    //   const diff = this.diff(version1, version2)
-    //   const changes = diff.first()?.changes || []
-
-    //   const result = {
-    //     added: 0,
-    //     removed: 0,
-    //     updated: 0,
-    //     changes: [] as Array<{
-    //       type: 'add' | 'update' | 'delete'
-    //       field?: keyof T
-    //       oldValue?: any
-    //       newValue?: any
-    //     }>,
-    //   }
-
-    //   for (const change of changes) {
-    //     switch (change.type) {
-    //       case 'add':
-    //         result.added++
-    //         result.changes.push({ type: 'add' })
-    //         break
-
-    //       case 'delete':
-    //         result.removed++
-    //         result.changes.push({ type: 'delete' })
-    //         break
-
-    //       case 'update': {
-    //         result.updated++
-
-    //         // Compare fields to generate detailed changes
-    //         if (change.previousItem && change.item) {
-    //           const oldItem = change.previousItem
-    //           const newItem = change.item
-
-    //           for (const key of Object.keys(newItem) as Array<keyof T>) {
-    //             if (!deepEqual(oldItem[key], newItem[key])) {
-    //               result.changes.push({
-    //                 type: 'update',
-    //                 field: key,
-    //                 oldValue: oldItem[key],
-    //                 newValue: newItem[key],
-    //               })
-    //             }
-    //           }
-    //         }
-    //         break
-    //       }
-    //     }
-    //   }
-
-    //   return result
-    // },
-
-    intersect<U>(other: readonly U[] | CollectionOperations<U>): CollectionOperations<Overlap<T, U>> {
+    intersect<U>(other: readonly U[] | CollectionOperations<U>, options: EqualityOptions<T | U> = {}): CollectionOperations<Overlap<T, U>> {
       const otherItems = Array.isArray(other) ? other : (other as CollectionOperations<U>).items
-      const otherSet = new Set<unknown>(otherItems)
+      const otherSet = toEqualitySet<T | U>(otherItems, options.equality)
       return collect(collection.items.filter(item => otherSet.has(item))) as CollectionOperations<Overlap<T, U>>
     },
 
-    union<U>(other: readonly U[] | CollectionOperations<U>): CollectionOperations<T | U> {
+    union<U>(other: readonly U[] | CollectionOperations<U>, options: EqualityOptions<T | U> = {}): CollectionOperations<T | U> {
       const otherArray = Array.isArray(other) ? other : (other as CollectionOperations<U>).items
-      return collect([...new Set([...collection.items, ...otherArray])])
+      return collect<T | U>([...collection.items, ...otherArray]).unique(options)
     },
 
     tap(callback: (collection: CollectionOperations<T>) => void): CollectionOperations<T> {
@@ -1325,71 +1213,83 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return freq
     },
 
-    whereNull<K extends keyof T>(key: K): CollectionOperations<WithNullishProperty<T, K>> {
-      return collect(collection.items.filter(item => item[key] == null)) as CollectionOperations<WithNullishProperty<T, K>>
-    },
+    whereNull: function <K extends keyof T>(key: K): CollectionOperations<WithNullishProperty<T, K>> {
+      return carryOver(ops, collect(collection.items.filter(item => valueAt(item, key) == null))) as CollectionOperations<WithNullishProperty<T, K>>
+    } as CollectionOperations<T>['whereNull'],
 
-    whereNotNull<K extends keyof T>(key: K): CollectionOperations<WithNonNullableProperty<T, K>> {
-      return collect(collection.items.filter(item => item[key] != null)) as CollectionOperations<WithNonNullableProperty<T, K>>
-    },
+    whereNotNull: function <K extends keyof T>(key: K): CollectionOperations<WithNonNullableProperty<T, K>> {
+      return carryOver(ops, collect(collection.items.filter(item => valueAt(item, key) != null))) as CollectionOperations<WithNonNullableProperty<T, K>>
+    } as CollectionOperations<T>['whereNotNull'],
 
-    whereLike<K extends keyof T>(key: K, pattern: string): CollectionOperations<T> {
+    whereLike(key: keyof T | DotPath<T>, pattern: string): CollectionOperations<T> {
       // Escape regex special chars except %, then replace % with .*
       const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, (ch) => {
         return ch === '%' ? ch : `\\${ch}`
       })
       const regex = new RegExp(`^${escaped.replace(/%/g, '.*')}$`, 'i')
-      return collect(collection.items.filter(item => regex.test(String(item[key]))))
+      return carryOver(ops, collect(collection.items.filter(item => regex.test(String(valueAt(item, key))))))
     },
 
-    whereRegex<K extends keyof T>(key: K, regex: RegExp): CollectionOperations<T> {
-      return collect(collection.items.filter(item => regex.test(String(item[key]))))
+    whereRegex(key: keyof T | DotPath<T>, regex: RegExp): CollectionOperations<T> {
+      return carryOver(ops, collect(collection.items.filter(item => regex.test(String(valueAt(item, key))))))
     },
 
     whereInstanceOf<U>(constructor: abstract new (...args: never[]) => U): CollectionOperations<InstanceOf<T, U>> {
       return collect(collection.items.filter(item => item instanceof constructor)) as CollectionOperations<InstanceOf<T, U>>
     },
 
-    async mapAsync<U>(callback: AsyncCallback<T, U>): Promise<CollectionOperations<Awaited<U>>> {
-      const results = await Promise.all(
-        collection.items.map((item, index) => callback(item, index)),
-      )
+    async mapAsync<U>(callback: AsyncCallback<T, U>, options?: AsyncOptions<T>): Promise<CollectionOperations<Awaited<U>>> {
+      const results: Array<Awaited<U>> = []
+      for await (const { value } of mapConcurrently(collection.items, callback, options))
+        results.push(value as Awaited<U>)
       return collect(results)
     },
 
-    async filterAsync(callback: AsyncCallback<T, boolean>): Promise<CollectionOperations<T>> {
-      const results = await Promise.all(
-        collection.items.map(async (item, index) => ({
-          item,
-          keep: await callback(item, index),
-        })),
-      )
-      return collect(results.filter(({ keep }) => keep).map(({ item }) => item))
+    async filterAsync(callback: AsyncCallback<T, boolean>, options?: AsyncOptions<T>): Promise<CollectionOperations<T>> {
+      const results: T[] = []
+      for await (const { item, value } of mapConcurrently(collection.items, callback, options)) {
+        if (value)
+          results.push(item)
+      }
+      return collect(results)
     },
 
     async reduceAsync<U>(
-      callback: (acc: U, item: T) => Promise<U>,
+      callback: (acc: U, item: T, signal: AbortSignal) => Promise<U>,
       initialValue: U,
+      options: AsyncOptions<T> = {},
     ): Promise<U> {
+      const { onError = 'throw', signal = new AbortController().signal } = options
+      const attempt = createAttemptRunner(options, signal)
       let result = initialValue
-      for (const item of collection.items) {
-        result = await callback(result, item)
+      for (const [index, item] of collection.items.entries()) {
+        const outcome = await attempt(attemptSignal => callback(result, item, attemptSignal), index)
+        signal.throwIfAborted()
+        if (outcome.ok)
+          result = outcome.value
+        else if (onError === 'throw')
+          throw outcome.error
+        else if (onError !== 'skip')
+          onError({ item, index, error: outcome.error, attempts: outcome.attempts })
       }
       return result
     },
 
-    async everyAsync(callback: AsyncCallback<T, boolean>): Promise<boolean> {
-      const results = await Promise.all(
-        collection.items.map((item, index) => callback(item, index)),
-      )
-      return results.every(result => result)
+    async everyAsync(callback: AsyncCallback<T, boolean>, options?: AsyncOptions<T>): Promise<boolean> {
+      // Leaving the loop early aborts the callbacks still in flight
+      for await (const { value } of mapConcurrently(collection.items, callback, { ordered: false, ...options })) {
+        if (!value)
+          return false
+      }
+      return true
     },
 
-    async someAsync(callback: AsyncCallback<T, boolean>): Promise<boolean> {
-      const results = await Promise.all(
-        collection.items.map((item, index) => callback(item, index)),
-      )
-      return results.some(result => result)
+    async someAsync(callback: AsyncCallback<T, boolean>, options?: AsyncOptions<T>): Promise<boolean> {
+      for await (const { value } of mapConcurrently(collection.items, callback, { ordered: false, ...options })) {
+        if (value)
+          return true
+      }
+      return false
     },
 
     paginate(perPage: number, page: number = 1): PaginationResult<T> {
@@ -1431,27 +1331,18 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       }
     },
 
-    symmetricDiff<U = T>(other: readonly U[] | CollectionOperations<U>): CollectionOperations<T | U> {
+    symmetricDiff<U = T>(other: readonly U[] | CollectionOperations<U>, options: EqualityOptions<T | U> = {}): CollectionOperations<T | U> {
       const otherItems = Array.isArray(other) ? other : (other as CollectionOperations<U>).items
-      const otherSet = new Set(otherItems)
-      const thisSet = new Set(collection.items)
-      const result = new Set<T | U>()
+      const otherSet = toEqualitySet<T | U>(otherItems, options.equality)
+      const thisSet = toEqualitySet<T | U>(collection.items, options.equality)
 
-      // Add items that are in this collection but not in other
-      collection.items.forEach((item) => {
-        if (!otherSet.has(item as unknown as U)) {
-          result.add(item)
-        }
-      })
-
-      // Add items that are in other but not in this collection
-      otherItems.forEach((item) => {
-        if (!thisSet.has(item as unknown as T)) {
-          result.add(item)
-        }
-      })
+      // Items that are in this collection but not in other, then items that are in other but not in this collection
+      const result = [
+        ...collection.items.filter(item => !otherSet.has(item)),
+        ...otherItems.filter(item => !thisSet.has(item)),
+      ]
 
-      return collect([...result])
+      return collect(result).unique(options)
     },
 
     cartesianProduct<U>(other: readonly U[] | CollectionOperations<U>): CollectionOperations<[T, U]> {
@@ -1467,22 +1358,8 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return collect(result)
     },
 
-    groupByMultiple<K extends keyof T>(...keys: K[]): Map<string, CollectionOperations<T>> {
-      const groups = new Map<string, T[]>()
-
-      for (const item of collection.items) {
-        const groupKey = keys.map(key => String(item[key])).join('::')
-        if (!groups.has(groupKey)) {
-          groups.set(groupKey, [])
-        }
-        groups.get(groupKey)!.push(item)
-      }
-
-      return new Map(
-        Array.from(groups.entries()).map(
-          ([key, items]) => [key, collect(items)],
-        ),
-      )
+    groupByMultiple<K extends keyof T>(...keys: K[]) {
+      return groupItems(collection.items, item => keys.map(key => String(item[key])).join('::'), { keyFields: keys })
     },
 
     describe<K extends keyof T>(key?: K): Map<string, number> {
@@ -1508,26 +1385,31 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return stats
     },
 
-    debug(): CollectionOperations<T> {
+    debug(options?: DumpOptions): CollectionOperations<T> {
+      const heapUsed = process.memoryUsage().heapUsed / 1024 / 1024
       // eslint-disable-next-line no-console
-      console.log({
-        items: collection.items,
-        length: collection.length,
-        memory: process.memoryUsage(),
-      })
+      console.log(`${renderDump(collection.items, resolveDumpOptions(configOf(ops).dump, options))}\nHeap used: ${heapUsed.toFixed(1)} MB`)
       return this
     },
 
-    dump(): void {
+    dump(options?: DumpOptions): void {
       // eslint-disable-next-line no-console
-      console.log(collection.items)
+      console.log(renderDump(collection.items, resolveDumpOptions(configOf(ops).dump, options)))
     },
 
-    dd(): never {
-      this.dump()
+    dd(options?: DumpOptions): never {
+      this.dump(options)
       process.exit(1)
     },
 
+    dumpDiff(other: CollectionOperations<T> | T[], options: DumpDiffOptions<T> = {}): void {
+      const { key } = options
+      const keyOf = key === undefined ? undefined : (item: unknown) => valueAt(item as T, key)
+      const after = Array.isArray(other) ? other : other.all()
+      // eslint-disable-next-line no-console
+      console.log(renderDiff(collection.items, after, keyOf, resolveDumpOptions(configOf(ops).dump, options)))
+    },
+
     timeSeries({ dateField, valueField, interval = 'day', fillGaps = true }: TimeSeriesOptions): CollectionOperations<TimeSeriesPoint> {
       // Safely convert values to dates and numbers with proper type checking
       const points: TimeSeriesPoint[] = collection.items.map((item) => {
@@ -2020,10 +1902,14 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       }
     },
 
-    async parallel<U>(
-      callback: (chunk: CollectionOperations<T>) => Promise<U>,
-      options: { chunks?: number, maxConcurrency?: number } = {},
+    parallel: async function <U>(
+      this: CollectionOperations<T>,
+      callback: ((_chunk: CollectionOperations<T>) => Promise<U>) | string | URL,
+      options: ParallelWorkerOptions = {},
     ): Promise<CollectionOperations<U>> {
+      if (typeof callback !== 'function')
+        return collect(await runInWorkers(collection.items, callback, options) as U[])
+
       const { chunks = 4, maxConcurrency = chunks } = options
 
       // Calculate chunk size and create batches
@@ -2086,48 +1972,30 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       await Promise.all(queue)
 
       return collect(results)
-    },
+    } as CollectionOperations<T>['parallel'],
 
     index<K extends keyof T>(keys: K[]): CollectionOperations<T> {
-      const indexes = new Map<K, Map<T[K], T[]>>()
+      attachIndex(ops, keys)
 
-      for (const key of keys) {
-        const index = new Map<T[K], T[]>()
-        for (const item of collection.items) {
-          const value = item[key]
-          if (!index.has(value)) {
-            index.set(value, [])
-          }
-          index.get(value)!.push(item)
-        }
-        indexes.set(key, index)
-      }
+      // Build the lookups now rather than on the first `where()`
+      for (const key of keys)
+        indexLookup(ops, key)
 
-      // Attach indexes to collection for future use
-      ;(this as any).__indexes = indexes
       return this
     },
 
-    explain(): string {
-      const pipeline: string[] = []
-      // eslint-disable-next-line ts/no-this-alias
-      let currentOp = this
-
-      while ((currentOp as any).__previous) {
-        pipeline.unshift((currentOp as any).__operation)
-        currentOp = (currentOp as any).__previous
-      }
+    explain(format?: TraceFormat): string {
+      return renderTrace(collection.length, [], format)
+    },
 
-      return pipeline
-        .map((op, i) => `${i + 1}. ${op}`)
-        .join('\n')
+    trace(): CollectionOperations<T> {
+      return createTracedCollection(this, { sourceCount: collection.length, steps: [] })
     },
 
-    async benchmark(): Promise<{
-      timing: Record<string, number>
-      memory: Record<string, number>
-      complexity: Record<string, string>
-    }> {
+    benchmark: async function (this: CollectionOperations<T>, pipeline?: (collection: CollectionOperations<T>) => unknown, options?: BenchmarkOptions<T>) {
+      if (pipeline)
+        return runBenchmark(collection.items, pipeline, options)
+
       const timings: Record<string, number> = {}
       const memory: Record<string, number> = {}
       const complexity: Record<string, string> = {}
@@ -2163,7 +2031,7 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       }
 
       return { timing: timings, memory, complexity }
-    },
+    } as CollectionOperations<T>['benchmark'],
 
     // metadata() {
     //   const schema: Record<string, string> = {}
@@ -2239,15 +2107,8 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
     // },
 
     lazy(): LazyCollectionOperations<T> {
-      // Create a generator function for the current collection
-      async function* collectionGenerator(items: T[]): AsyncGenerator<T, void, unknown> {
-        for (const item of items) {
-          yield item
-        }
-      }
-
-      // Initialize lazy operations with the current collection's items
-      return createLazyOperations(collectionGenerator(collection.items))
+      // Each pass reads the items as they are when it starts, and is fingerprinted by them
+      return createLazyOperations(() => collection.items, () => `lazy:${fingerprintOf(collection.items)}`)
     },
 
     mapToGroups<K extends keyof T | string | number, V>(callback: (item: T) => [K, V]): Map<K, CollectionOperations<V>> {
@@ -2454,6 +2315,10 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
       return collect(results)
     },
 
+    window(options: WindowOptions<T>, columns: Record<string, WindowFunction<T>>) {
+      return collect(applyWindow(ops, options, columns)) as CollectionOperations<any>
+    },
+
     unfold<U>(fn: (seed: U) => [T, U] | null, initial: U): CollectionOperations<T> {
       const results: T[] = []
       let seed = initial
@@ -2607,14 +2472,12 @@ function createCollectionOperations<T>(collection: Collection<T>): CollectionOpe
     },
 
     // Serialization methods
-    toSQL(table: string): string {
-      if (collection.length === 0)
-        return ''
-      const columns = Object.keys(collection.items[0] as object)
-      const values = collection.items.map(item =>
-        `(${columns.map(col => JSON.stringify(item[col as keyof T])).join(', ')})`,
-      ).join(',\n')
-      return `INSERT INTO ${table} (${columns.join(', ')})\nVALUES\n${values};`
+    toSQL(table: string, options: SQLExportOptions<T> = {}): string {
+      return formatSQL(collection.items, table, options)
+    },
+
+    toSQLite(db: Database, table: string, options: SQLiteWriteOptions<T> = {}): number {
+      return writeSQLite(db, collection.items, table, options)
     },
 
     toGraphQL(typename: string): string {
@@ -2655,15 +2518,8 @@ ${collection.items.map(item =>
     },
 
     // Developer experience methods
-    playground(): void {
-      // This would normally open an interactive playground
-      // Since we can't actually open one, we'll log the data
-      // eslint-disable-next-line no-console
-      console.log('Collection Playground:', {
-        items: collection.items,
-        length: collection.length,
-        operations: Object.keys(this),
-      })
+    playground(options?: PlaygroundOptions): Promise<PlaygroundResult> {
+      return runPlayground(this, options)
     },
 
     // Advanced mathematical operations
@@ -2847,17 +2703,8 @@ ${collection.items.map(item =>
     },
 
     // Configuration method
-    configure(options: {
-      precision?: number
-      timezone?: string
-      locale?: string
-      errorHandling?: 'strict' | 'loose'
-    }): void {
-      // Store configuration on the collection instance for use by other methods
-      ;(this as any).__config = {
-        ...(this as any).__config,
-        ...options,
-      }
+    configure(options: CollectionConfig): void {
+      attachConfig(ops, { ...configOf(ops), ...options })
     },
 
     trend(options: TimeSeriesOptions) {
@@ -2949,85 +2796,8 @@ ${collection.items.map(item =>
       })
     },
 
-    // This is a basic implementation, updates may come in the future
-    query(sql: string, params: unknown[] = []): CollectionOperations<T> {
-      const lowerSQL = sql.toLowerCase()
-      // eslint-disable-next-line ts/no-this-alias
-      let result = this
-
-      if (lowerSQL.includes('where')) {
-        const whereClause = sql.split('where')[1].trim()
-
-        result = this.filter((item) => {
-          let paramIndex = 0
-
-          // Replace both named parameters ${name} and positional parameters ?
-          const parsedClause = whereClause
-            // Handle ${property} style parameters
-            .replace(/\$\{(\w+)\}/g, (_, key) => {
-              return JSON.stringify(item[key as keyof T])
-            })
-            // Handle ? style parameters
-            .replace(/\?/g, () => {
-              const param = params[paramIndex]
-              paramIndex++
-              return JSON.stringify(param)
-            })
-
-          // Resolve item.property references to their actual values
-          function resolveValue(expr: string): any {
-            const trimmed = expr.trim()
-            // Handle item.property access
-            const itemMatch = trimmed.match(/^item\.(\w+)$/)
-            if (itemMatch) {
-              return item[itemMatch[1] as keyof T]
-            }
-            // Handle literals
-            if (trimmed === 'true') return true
-            if (trimmed === 'false') return false
-            if (trimmed === 'null') return null
-            if (trimmed === 'undefined') return undefined
-            if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed)
-            if ((trimmed.startsWith('"') && trimmed.endsWith('"')) || (trimmed.startsWith('\'') && trimmed.endsWith('\'')))
-              return trimmed.slice(1, -1)
-            return trimmed
-          }
-
-          function evaluateComparison(clause: string): boolean {
-            const match = clause.match(/^(.+?)\s*(===|!==|==|!=|>=|<=|>|<)\s*(.+)$/)
-            if (!match)
-              return false
-
-            const left = resolveValue(match[1])
-            const op = match[2]
-            const right = resolveValue(match[3])
-
-            switch (op) {
-              case '===':
-              case '==': return left === right
-              case '!==':
-              case '!=': return left !== right
-              case '>': return left > right
-              case '<': return left < right
-              case '>=': return left >= right
-              case '<=': return left <= right
-              default: return false
-            }
-          }
-
-          // Handle && and || connectors
-          if (parsedClause.includes('&&')) {
-            return parsedClause.split('&&').every(part => evaluateComparison(part.trim()))
-          }
-          if (parsedClause.includes('||')) {
-            return parsedClause.split('||').some(part => evaluateComparison(part.trim()))
-          }
-
-          return evaluateComparison(parsedClause)
-        })
-      }
-
-      return result
+    query<U = T>(sql: string, params: readonly unknown[] = []): CollectionOperations<U> {
+      return collect(executeQuery(collection.items, sql, params) as U[])
     },
 
     having<K extends keyof T>(key: K, op: HavingOperator, value: T[K]): CollectionOperations<T> {
@@ -3058,21 +2828,30 @@ ${collection.items.map(item =>
       return collect(result)
     },
 
-    leftJoin<U, K extends keyof T, O extends keyof U>(
-      other: CollectionOperations<U>,
-      key: K,
-      otherKey: O,
-    ): CollectionOperations<LeftAssign<T, U>> {
-      // Build a lookup map for O(n+m) instead of O(n×m)
-      const otherMap = new Map<unknown, U>()
-      for (const otherItem of other.items) {
-        otherMap.set(otherItem[otherKey], otherItem)
-      }
+    innerJoin: function (other: CollectionOperations<unknown>, key: JoinKey<T>, otherKey: JoinKey<unknown>, merge?: (left: any, right: any) => unknown) {
+      return collect(joinItems(ops, other, key, otherKey, 'inner', merge))
+    } as CollectionOperations<T>['innerJoin'],
 
-      return this.map((item) => {
-        const match = otherMap.get(item[key])
-        return { ...item, ...(match || {}) }
-      }) as unknown as CollectionOperations<LeftAssign<T, U>>
+    leftJoin: function (other: CollectionOperations<unknown>, key: JoinKey<T>, otherKey: JoinKey<unknown>, merge?: (left: any, right: any) => unknown) {
+      return collect(joinItems(ops, other, key, otherKey, 'left', merge))
+    } as CollectionOperations<T>['leftJoin'],
+
+    rightJoin: function (other: CollectionOperations<unknown>, key: JoinKey<T>, otherKey: JoinKey<unknown>, merge?: (left: any, right: any) => unknown) {
+      return collect(joinItems(ops, other, key, otherKey, 'right', merge))
+    } as CollectionOperations<T>['rightJoin'],
+
+    fullOuterJoin: function (other: CollectionOperations<unknown>, key: JoinKey<T>, otherKey: JoinKey<unknown>, merge?: (left: any, right: any) => unknown) {
+      return collect(joinItems(ops, other, key, otherKey, 'full', merge))
+    } as CollectionOperations<T>['fullOuterJoin'],
+
+    semiJoin<U>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>): CollectionOperations<T> {
+      const matches = createJoinMatcher(other, otherKey, key)
+      return carryOver(ops, collect(collection.items.filter(item => matches(item).length > 0)))
+    },
+
+    antiJoin<U>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>): CollectionOperations<T> {
+      const matches = createJoinMatcher(other, otherKey, key)
+      return carryOver(ops, collect(collection.items.filter(item => matches(item).length === 0)))
     },
 
     batch(size: number): AsyncGenerator<CollectionOperations<T>, void, unknown> {
@@ -3094,117 +2873,48 @@ ${collection.items.map(item =>
       return JSON.stringify(items, null, pretty ? 2 : undefined)
     },
 
-    toCSV(options: SerializationOptions = {}): string {
-      const { exclude = [], include } = options
-      const items = this.toArray()
-      if (items.length === 0)
-        return ''
-
-      const keys = include || Object.keys(items[0] as object)
-      const headers = keys.filter(k => !exclude.includes(k))
-      const rows = items.map(item =>
-        headers.map(key =>
-          JSON.stringify((item as any)[key])).join(','),
-      )
-
-      return [headers.join(','), ...rows].join('\n')
+    toNDJSON(options: SerializationOptions = {}): string {
+      return formatNDJSON(this.toArray(), options)
     },
 
-    toXML(options: SerializationOptions = {}): string {
-      const { exclude = [], include } = options
-      const items = this.toArray()
-      const rootTag = 'items'
-      const itemTag = 'item'
-
-      function escapeXml(str: string): string {
-        return str
-          .replace(/&/g, '&amp;')
-          .replace(/</g, '&lt;')
-          .replace(/>/g, '&gt;')
-          .replace(/"/g, '&quot;')
-          .replace(/'/g, '&apos;')
-      }
-
-      const itemsXml = items.map((item) => {
-        const keys = include || Object.keys(item as object)
-        const fields = keys
-          .filter(k => !exclude.includes(k))
-          .map(key => `  <${key}>${escapeXml(String((item as any)[key]))}</${key}>`)
-          .join('\n')
-        return `<${itemTag}>\n${fields}\n</${itemTag}>`
-      }).join('\n')
+    toCSV(options: CSVWriteOptions = {}): string {
+      return formatCSV(this.toArray(), options)
+    },
 
-      return `<?xml version="1.0" encoding="UTF-8"?>\n<${rootTag}>\n${itemsXml}\n</${rootTag}>`
+    toXML(options: XMLWriteOptions = {}): string {
+      return formatXML(this.toArray(), options)
     },
 
-    parse(data: string, format: 'json' | 'csv' | 'xml'): CollectionOperations<T> {
+    parse: function (data: string, format: 'json' | 'ndjson' | 'csv' | 'xml', options?: NDJSONParseOptions | CSVParseOptions | XMLParseOptions): CollectionOperations<T> {
       switch (format) {
         case 'json':
           return collect(JSON.parse(data))
+        case 'ndjson': {
+          const { items, errors } = parseNDJSON<T>(data)
+          reportLineErrors(errors, (options as NDJSONParseOptions | undefined)?.onError)
+          return collect(items)
+        }
         case 'csv': {
-          const lines = data.trim().split('\n')
-          const headers = lines[0].split(',')
-
-          function parseCSVValue(val: string | undefined): any {
-            if (val === undefined) return undefined
-            const trimmed = val.trim()
-            // Handle JSON-stringified values (quoted strings, numbers, booleans, null)
-            if ((trimmed.startsWith('"') && trimmed.endsWith('"')) || trimmed === 'true' || trimmed === 'false' || trimmed === 'null' || /^-?\d+(\.\d+)?$/.test(trimmed)) {
-              try { return JSON.parse(trimmed) }
-              catch { return trimmed }
-            }
-            return trimmed
-          }
-
-          const items = lines.slice(1).map((line) => {
-            // Handle quoted fields that may contain commas
-            const values: string[] = []
-            let current = ''
-            let inQuotes = false
-            for (let i = 0; i < line.length; i++) {
-              const ch = line[i]
-              if (ch === '"') {
-                if (inQuotes && line[i + 1] === '"') {
-                  current += '"'
-                  i++
-                }
-                else {
-                  inQuotes = !inQuotes
-                  current += ch
-                }
-              }
-              else if (ch === ',' && !inQuotes) {
-                values.push(current)
-                current = ''
-              }
-              else {
-                current += ch
-              }
-            }
-            values.push(current)
-
-            const item: any = {}
-            headers.forEach((header, i) => {
-              const parsed = parseCSVValue(i < values.length ? values[i] : undefined)
-              if (parsed !== undefined) {
-                item[header] = parsed
-              }
-            })
-            return item
-          })
+          const { items, errors } = parseCSV<T>(data, options as CSVParseOptions)
+          reportRowErrors(errors, (options as CSVParseOptions | undefined)?.onError)
           return collect(items)
         }
         case 'xml':
-          throw new Error('XML parsing not implemented')
+          return collect(parseXML<T>(data, options as XMLParseOptions))
         default:
           throw new Error(`Unsupported format: ${format}`)
       }
+    } as CollectionOperations<T>['parse'],
+
+    cache(ttlOrOptions?: number | CacheOptions): CachedCollectionOperations<T> {
+      const options = typeof ttlOrOptions === 'number' ? { ttl: ttlOrOptions } : ttlOrOptions ?? {}
+      // Snapshot the current items so later changes to them can't reach cached results
+      const snapshot = carryOver(ops, collect([...this.items]))
+      return createCachedCollection(snapshot, options.key ?? (() => fingerprintOf(snapshot.items)), options)
     },
 
-    cache(_ttl: number = 60000): CollectionOperations<T> {
-      // Snapshot the current items so repeated access doesn't recompute
-      const snapshot = [...this.items]
-      return collect(snapshot)
+    versioned(options: VersionedOptions<T>): VersionedCollectionOperations<T> {
+      return createVersionedCollection(carryOver(ops, collect([...this.items])), options)
     },
 
     memoize<K extends keyof T>(key: K): CollectionOperations<T> {
@@ -3631,9 +3341,297 @@ ${collection.items.map(item =>
     },
   }
 
+  const ops: CollectionOperations<T> = Object.setPrototypeOf(builtIns, macroPrototype)
   return ops
 }
 
+/** A collection that may carry the settings given to `configure()`, hidden on `__config`. */
+interface Configurable {
+  __config?: CollectionConfig
+}
+
+function configOf<T>(target: CollectionOperations<T>): CollectionConfig {
+  return (target as Configurable).__config ?? {}
+}
+
+function attachConfig<T>(target: CollectionOperations<T>, config: CollectionConfig): void {
+  Object.defineProperty(target, '__config', { value: config, configurable: true, writable: true })
+}
+
+/**
+ * Indexes attached by `index()`, hidden on `__indexes`. Each lookup maps a
+ * value to the positions of the items holding it, in collection order. It is
+ * built on first use, or remapped from the lookup of the collection this one
+ * was derived from, so derived collections never read the keys again.
+ */
+interface CollectionIndex<T> {
+  keys: Array<keyof T>
+  lookups: Map<keyof T, Map<unknown, number[]>>
+  /** Bumped by every in-place change, which makes earlier positions stale. */
+  version: number
+  /** Remaps a lookup of the source collection, until every key has been remapped. */
+  derive?: (key: keyof T) => Map<unknown, number[]> | undefined
+}
+
+function attachIndex<T>(target: CollectionOperations<T>, keys: Array<keyof T>): CollectionIndex<T> {
+  const existing = (target as any).__indexes as CollectionIndex<T> | undefined
+  if (existing) {
+    existing.keys = [...new Set([...existing.keys, ...keys])]
+    return existing
+  }
+
+  const index: CollectionIndex<T> = { keys: [...new Set(keys)], lookups: new Map(), version: 0 }
+  Object.defineProperty(target, '__indexes', { value: index, configurable: true, writable: true })
+  return index
+}
+
+function indexLookup<T>(target: CollectionOperations<T>, key: keyof T): Map<unknown, number[]> | undefined {
+  const index = (target as any).__indexes as CollectionIndex<T> | undefined
+  if (!index?.keys.includes(key))
+    return undefined
+
+  let lookup = builtLookup(index, key)
+  if (!lookup) {
+    lookup = buildLookup(target.items, key)
+    index.lookups.set(key, lookup)
+  }
+  return lookup
+}
+
+/** Returns the lookup for `key` if it is built or can be remapped from the source collection's. */
+function builtLookup<T>(index: CollectionIndex<T>, key: keyof T): Map<unknown, number[]> | undefined {
+  let lookup = index.lookups.get(key)
+  if (!lookup && index.derive) {
+    lookup = index.derive(key)
+    if (lookup)
+      index.lookups.set(key, lookup)
+    if (index.keys.every(indexed => index.lookups.has(indexed)))
+      index.derive = undefined
+  }
+  return lookup
+}
+
+function buildLookup<T>(items: readonly T[], key: keyof T): Map<unknown, number[]> {
+  const lookup = new Map<unknown, number[]>()
+  for (let position = 0; position < items.length; position++) {
+    const value = valueAt(items[position], key)
+    const positions = lookup.get(value)
+    if (positions)
+      positions.push(position)
+    else
+      lookup.set(value, [position])
+  }
+  return lookup
+}
+
+function toEqualitySet<T>(items: readonly T[], equality?: EqualityStrategy<T>): EqualityMap<T, true> {
+  const set = createEqualityMap<T, true>(equality)
+  for (const item of items)
+    set.set(item, true)
+  return set
+}
+
+/**
+ * Carries the configuration and indexes of `source` over to a collection
+ * holding some of its items, in any order. Lookups are remapped to the
+ * positions of the items in `target` on first use instead of being rebuilt
+ * from their values. `sourcePositions` gives the position in `source` of each
+ * `target` item when the caller knows it; otherwise items are matched by
+ * identity.
+ * @internal
+ */
+export function carryOver<T>(source: CollectionOperations<T>, target: CollectionOperations<T>, sourcePositions?: readonly number[]): CollectionOperations<T> {
+  const config = (source as Configurable).__config
+  if (config)
+    attachConfig(target, config)
+
+  const index = (source as any).__indexes as CollectionIndex<T> | undefined
+  if (!index)
+    return target
+
+  const carried = attachIndex(target, index.keys)
+  const { version } = index
+  const sourceItems = source.items
+  let targetPositions: Int32Array | undefined
+  carried.derive = (key) => {
+    if (index.version !== version)
+      return undefined
+    const lookup = builtLookup(index, key)
+    if (!lookup)
+      return undefined
+
+    targetPositions ??= sourcePositions
+      ? invertPositions(sourcePositions, sourceItems.length)
+      : remapPositions(sourceItems, target.items)
+    return targetPositions && remapLookup(lookup, targetPositions)
+  }
+  return target
+}
+
+/** Maps each position in `source` to the position of the same item in `target`, or -1 when `target` doesn't hold it. */
+function invertPositions(sourcePositions: readonly number[], sourceLength: number): Int32Array {
+  const targetPositions = new Int32Array(sourceLength).fill(-1)
+  sourcePositions.forEach((from, position) => {
+    targetPositions[from] = position
+  })
+  return targetPositions
+}
+
+/**
+ * Like `invertPositions()`, matching the items of `target` to those of
+ * `source` by identity. Returns undefined when `target` holds an item that
+ * `source` doesn't.
+ */
+function remapPositions<T>(source: readonly T[], target: readonly T[]): Int32Array | undefined {
+  const sourcePositions = new Map<T, number[]>()
+  for (let position = source.length - 1; position >= 0; position--) {
+    const positions = sourcePositions.get(source[position])
+    if (positions)
+      positions.push(position)
+    else
+      sourcePositions.set(source[position], [position])
+  }
+
+  const targetPositions = new Int32Array(source.length).fill(-1)
+  for (let position = 0; position < target.length; position++) {
+    const from = sourcePositions.get(target[position])?.pop()
+    if (from === undefined)
+      return undefined
+    targetPositions[from] = position
+  }
+  return targetPositions
+}
+
+function remapLookup(lookup: Map<unknown, number[]>, targetPositions: Int32Array): Map<unknown, number[]> {
+  const remapped = new Map<unknown, number[]>()
+  for (const [value, positions] of lookup) {
+    const moved: number[] = []
+    for (const position of positions) {
+      if (targetPositions[position] >= 0)
+        moved.push(targetPositions[position])
+    }
+    if (moved.length > 0)
+      remapped.set(value, moved.sort((a, b) => a - b))
+  }
+  return remapped
+}
+
+/**
+ * Drops built lookups after an in-place change; they are rebuilt on next use.
+ * @internal
+ */
+export function invalidateIndex<T>(target: CollectionOperations<T>): void {
+  const index = (target as any).__indexes as CollectionIndex<T> | undefined
+  if (!index)
+    return
+  index.lookups.clear()
+  index.version++
+  index.derive = undefined
+}
+
+/**
+ * Returns a function that finds the positions of the `source` items whose
+ * `sourceKey` values equal the `probeKey` values of a probe item, in `source`
+ * order. Null and undefined key values never match, as in SQL.
+ */
+function createJoinMatcher<S, P>(
+  source: CollectionOperations<S>,
+  sourceKey: JoinKey<S>,
+  probeKey: JoinKey<P>,
+): (probe: P) => readonly number[] {
+  const sourceKeys: Array<keyof S> = Array.isArray(sourceKey) ? [...sourceKey] : [sourceKey as keyof S]
+  const probeKeys: Array<keyof P> = Array.isArray(probeKey) ? [...probeKey] : [probeKey as keyof P]
+  if (sourceKeys.length === 0 || sourceKeys.length !== probeKeys.length)
+    throw new Error('Join keys must list the same number of columns on both sides')
+
+  if (sourceKeys.length === 1) {
+    const lookup = indexLookup(source, sourceKeys[0]) ?? buildLookup(source.items, sourceKeys[0])
+    return (probe) => {
+      const value = (probe as any)?.[probeKeys[0]]
+      return value == null ? [] : lookup.get(value) ?? []
+    }
+  }
+
+  // Nest one map per key column; the innermost maps hold positions
+  const root = new Map<unknown, any>()
+  source.items.forEach((item, position) => {
+    const values = sourceKeys.map(key => (item as any)?.[key])
+    if (values.some(value => value == null))
+      return
+    let level = root
+    for (const value of values.slice(0, -1)) {
+      if (!level.has(value))
+        level.set(value, new Map())
+      level = level.get(value)
+    }
+    const last = values[values.length - 1]
+    if (level.has(last))
+      level.get(last).push(position)
+    else
+      level.set(last, [position])
+  })
+
+  return (probe) => {
+    let level: any = root
+    for (const key of probeKeys) {
+      const value = (probe as any)?.[key]
+      if (value == null || !level.has(value))
+        return []
+      level = level.get(value)
+    }
+    return level
+  }
+}
+
+/** Merges joined rows like object spread, where the right-hand row wins. */
+function spreadMerge(left: unknown, right: unknown): unknown {
+  return { ...(left as object), ...(right as object) }
+}
+
+function joinItems<T, U>(
+  left: CollectionOperations<T>,
+  right: CollectionOperations<U>,
+  key: JoinKey<T>,
+  otherKey: JoinKey<U>,
+  mode: 'inner' | 'left' | 'right' | 'full',
+  merge: (left: any, right: any) => unknown = spreadMerge,
+): unknown[] {
+  const result: unknown[] = []
+
+  if (mode === 'right') {
+    const matches = createJoinMatcher(left, key, otherKey)
+    for (const rightItem of right.items) {
+      const positions = matches(rightItem)
+      if (positions.length === 0)
+        result.push(merge(undefined, rightItem))
+      for (const position of positions)
+        result.push(merge(left.items[position], rightItem))
+    }
+    return result
+  }
+
+  const matches = createJoinMatcher(right, otherKey, key)
+  const matched = mode === 'full' ? new Set<number>() : undefined
+  for (const leftItem of left.items) {
+    const positions = matches(leftItem)
+    if (positions.length === 0 && mode !== 'inner')
+      result.push(merge(leftItem, undefined))
+    for (const position of positions) {
+      matched?.add(position)
+      result.push(merge(leftItem, right.items[position]))
+    }
+  }
+
+  if (matched) {
+    right.items.forEach((rightItem, position) => {
+      if (!matched.has(position))
+        result.push(merge(undefined, rightItem))
+    })
+  }
+
+  return result
+}
+
 function createKMeansResult<T>(collection: CollectionOperations<ClusterResult<T>>): KMeansResult<T> {
   const originalPluck = collection.pluck.bind(collection)
 
@@ -0,0 +1,345 @@
+import type { CSVColumnType, CSVDialect, CSVParseOptions, CSVParseResult, CSVRowError, CSVSource, CSVWriteOptions, LazyCollectionOperations } from './types'
+import { createLazyOperations } from './lazy'
+
+export class CSVParseError extends Error {
+  readonly errors: CSVRowError[]
+
+  constructor(errors: CSVRowError[]) {
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''
+    super(`${describeRowError(errors[0])}${more}`)
+    this.name = 'CSVParseError'
+    this.errors = errors
+  }
+}
+
+interface CSVRecord {
+  fields: string[]
+  line: number
+  error?: string
+}
+
+type RowResult<T> = { item: T } | { error: CSVRowError } | undefined
+
+/**
+ * Parses RFC 4180 CSV text. Rows that cannot be read are left out of `items`
+ * and reported in `errors`; `onError` is ignored.
+ */
+export function parseCSV<T = Record<string, unknown>>(text: string, options: CSVParseOptions = {}): CSVParseResult<T> {
+  const tokenizer = createTokenizer(options)
+  const readRow = createRowReader<T>(options)
+  const result: CSVParseResult<T> = { items: [], errors: [] }
+
+  for (const record of [...tokenizer.push(text), ...tokenizer.end()]) {
+    const row = readRow(record)
+    if (row && 'item' in row)
+      result.items.push(row.item)
+    else if (row)
+      result.errors.push(row.error)
+  }
+
+  return result
+}
+
+/**
+ * Streams CSV rows from a byte or text source into a lazy collection, so the
+ * whole file is never held in memory. Bad rows follow `onError`.
+ */
+export function readCSV<T = Record<string, unknown>>(source: CSVSource, options: CSVParseOptions = {}): LazyCollectionOperations<T> {
+  async function* rows(): AsyncGenerator<T, void, undefined> {
+    const tokenizer = createTokenizer(options)
+    const readRow = createRowReader<T>(options)
+    const decoder = new TextDecoder()
+
+    function* emit(records: CSVRecord[]): Generator<T, void, undefined> {
+      for (const record of records) {
+        const row = readRow(record)
+        if (row && 'item' in row)
+          yield row.item
+        else if (row)
+          reportRowErrors([row.error], options.onError)
+      }
+    }
+
+    for await (const chunk of source as AsyncIterable<Uint8Array | string>) {
+      yield* emit(tokenizer.push(typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })))
+    }
+    yield* emit(tokenizer.push(decoder.decode()))
+    yield* emit(tokenizer.end())
+  }
+
+  return createLazyOperations(rows)
+}
+
+/** Applies an `onError` policy to the rows `parseCSV()` could not read. */
+export function reportRowErrors(errors: CSVRowError[], onError: CSVParseOptions['onError'] = 'throw'): void {
+  if (errors.length === 0 || onError === 'skip')
+    return
+  if (onError === 'throw')
+    throw new CSVParseError(errors)
+  errors.forEach(onError)
+}
+
+/** Writes items as RFC 4180 CSV, taking the columns from the first item unless `include` lists them. */
+export function formatCSV<T>(items: readonly T[], options: CSVWriteOptions = {}): string {
+  if (items.length === 0)
+    return ''
+
+  const { exclude = [], include, header = true, newline = '\r\n' } = options
+  const { delimiter, quote, escape } = resolveDialect(options)
+  const columns = (include ?? Object.keys(items[0] as object)).filter(key => !exclude.includes(key))
+
+  const formatField = (value: unknown): string => {
+    let text: string
+    if (value === null || value === undefined)
+      text = ''
+    else if (value instanceof Date)
+      text = Number.isNaN(value.getTime()) ? '' : value.toISOString()
+    else if (typeof value === 'object')
+      text = JSON.stringify(value)
+    else
+      text = String(value)
+
+    const needsQuotes = text.includes(delimiter) || text.includes(quote) || text.includes(escape) || /[\r\n]/.test(text)
+    if (!needsQuotes)
+      return text
+
+    const escaped = escape === quote
+      ? text.split(quote).join(quote + quote)
+      : text.split(escape).join(escape + escape).split(quote).join(escape + quote)
+    return `${quote}${escaped}${quote}`
+  }
+
+  const lines = items.map(item => columns.map(key => formatField((item as any)?.[key])).join(delimiter))
+  if (header)
+    lines.unshift(columns.map(formatField).join(delimiter))
+  return lines.join(newline)
+}
+
+function resolveDialect(dialect: CSVDialect): Required<CSVDialect> {
+  const delimiter = dialect.delimiter ?? ','
+  const quote = dialect.quote ?? '"'
+  const escape = dialect.escape ?? quote
+  if ([delimiter, quote, escape].some(char => char.length !== 1))
+    throw new Error('CSV delimiter, quote and escape must be single characters')
+  if (delimiter === quote || /[\r\n]/.test(delimiter + quote))
+    throw new Error('CSV delimiter and quote must differ and cannot be line breaks')
+  return { delimiter, quote, escape }
+}
+
+/**
+ * An incremental RFC 4180 tokenizer. `push()` accepts chunks split anywhere,
+ * even inside a quoted field or a CRLF, and returns the records completed so far.
+ */
+function createTokenizer(dialect: CSVDialect): { push: (chunk: string) => CSVRecord[], end: () => CSVRecord[] } {
+  const { delimiter, quote, escape } = resolveDialect(dialect)
+
+  type State = 'fieldStart' | 'unquoted' | 'quoted' | 'escaped' | 'closingQuote'
+  let state: State = 'fieldStart'
+  let fields: string[] = []
+  let field = ''
+  let error: string | undefined
+  let line = 1
+  let recordLine = 1
+  let afterCR = false
+  let atStart = true
+
+  function endRecord(records: CSVRecord[]): void {
+    fields.push(field)
+    // Blank lines are not records
+    const blank = fields.length === 1 && fields[0] === '' && state === 'fieldStart'
+    if (!blank)
+      records.push({ fields, line: recordLine, error })
+    fields = []
+    field = ''
+    error = undefined
+    state = 'fieldStart'
+  }
+
+  return {
+    push(chunk: string): CSVRecord[] {
+      const records: CSVRecord[] = []
+
+      for (let i = 0; i < chunk.length; i++) {
+        const char = chunk[i]
+        if (atStart) {
+          atStart = false
+          if (char === '\uFEFF')
+            continue
+        }
+
+        // The LF of a CRLF was handled with its CR
+        if (afterCR) {
+          afterCR = false
+          if (char === '\n') {
+            if (state === 'quoted')
+              field += char
+            continue
+          }
+        }
+
+        const lineBreak = char === '\r' || char === '\n'
+        if (lineBreak) {
+          afterCR = char === '\r'
+          line++
+        }
+
+        if (state === 'quoted') {
+          if (char === escape && escape !== quote)
+            state = 'escaped'
+          else if (char === quote)
+            state = 'closingQuote'
+          else
+            field += char
+          continue
+        }
+
+        if (state === 'escaped') {
+          field += char
+          state = 'quoted'
+          continue
+        }
+
+        if (state === 'closingQuote' && char === quote && escape === quote) {
+          field += quote
+          state = 'quoted'
+          continue
+        }
+
+        if (char === delimiter) {
+          fields.push(field)
+          field = ''
+          state = 'fieldStart'
+        }
+        else if (lineBreak) {
+          endRecord(records)
+          recordLine = line
+        }
+        else if (state === 'fieldStart' && char === quote) {
+          state = 'quoted'
+        }
+        else {
+          if (state === 'closingQuote')
+            error ??= `Unexpected "${char}" after a closing quote`
+          field += char
+          state = 'unquoted'
+        }
+      }
+
+      return records
+    },
+
+    end(): CSVRecord[] {
+      const records: CSVRecord[] = []
+      if (state === 'quoted' || state === 'escaped') {
+        error ??= 'Unterminated quoted field'
+        state = 'unquoted'
+      }
+      if (fields.length > 0 || field !== '' || state !== 'fieldStart')
+        endRecord(records)
+      return records
+    },
+  }
+}
+
+function createRowReader<T>(options: CSVParseOptions): (record: CSVRecord) => RowResult<T> {
+  const { header = true, columns, types = {}, inferTypes = true } = options
+  let names = columns
+  let headerPending = header
+  let row = 0
+
+  return (record) => {
+    if (headerPending) {
+      headerPending = false
+      if (record.error)
+        return { error: { row: 0, line: record.line, message: record.error } }
+      if (!names)
+        names = record.fields
+      return undefined
+    }
+
+    row++
+    const { fields, line } = record
+    if (record.error)
+      return { error: { row, line, message: record.error } }
+    if (names && fields.length > names.length)
+      return { error: { row, line, message: `Expected ${names.length} fields, found ${fields.length}` } }
+
+    const keys = names ?? fields.map((_, i) => String(i))
+    const values: unknown[] = []
+    for (let i = 0; i < keys.length; i++) {
+      const type = types[keys[i]]
+      if (i >= fields.length && !type) {
+        values.push(undefined)
+        continue
+      }
+
+      const raw = fields[i] ?? ''
+      try {
+        values.push(type ? coerceField(raw, type) : inferTypes ? inferField(raw) : raw)
+      }
+      catch (err) {
+        return { error: { row, line, column: keys[i], message: (err as Error).message } }
+      }
+    }
+
+    if (!names)
+      return { item: values as T }
+
+    const item: Record<string, unknown> = {}
+    keys.forEach((key, i) => {
+      if (values[i] !== undefined)
+        item[key] = values[i]
+    })
+    return { item: item as T }
+  }
+}
+
+function coerceField(raw: string, type: CSVColumnType): unknown {
+  if (typeof type === 'function')
+    return type(raw)
+
+  const nullable = type.endsWith('?')
+  if (nullable && raw === '')
+    return null
+
+  switch (type.replace('?', '')) {
+    case 'number': {
+      const value = Number(raw)
+      if (raw.trim() === '' || Number.isNaN(value))
+        throw new TypeError(`Expected a number, got "${raw}"`)
+      return value
+    }
+    case 'boolean': {
+      if (/^(?:true|1|yes)$/i.test(raw.trim()))
+        return true
+      if (/^(?:false|0|no)$/i.test(raw.trim()))
+        return false
+      throw new TypeError(`Expected a boolean, got "${raw}"`)
+    }
+    case 'date': {
+      const value = new Date(raw)
+      if (raw.trim() === '' || Number.isNaN(value.getTime()))
+        throw new TypeError(`Expected a date, got "${raw}"`)
+      return value
+    }
+    default:
+      return raw
+  }
+}
+
+function inferField(raw: string): unknown {
+  if (raw === '')
+    return null
+  if (raw === 'true' || raw === 'false')
+    return raw === 'true'
+  // Leading zeros are kept as text, so codes like "007" survive
+  if (/^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:e[+-]?\d+)?$/i.test(raw))
+    return Number(raw)
+  return raw
+}
+
+function describeRowError(error: CSVRowError): string {
+  const where = error.row === 0 ? 'Header' : `Row ${error.row}`
+  const column = error.column === undefined ? '' : `, column "${error.column}"`
+  return `${where} (line ${error.line})${column}: ${error.message}`
+}
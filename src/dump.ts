@@ -0,0 +1,263 @@
+import type { TableStyle } from './format'
+import type { DumpOptions } from './types'
+import process from 'node:process'
+import { inlineValue, renderColumns, truncate } from './format'
+import { deepEqual, isCollection } from './utils'
+
+/** Dump options with every default filled in. */
+export interface ResolvedDumpOptions {
+  width: number
+  maxRows: number
+  maxColumnWidth: number
+  depth: number
+  colors: boolean
+}
+
+interface Style extends TableStyle {
+  key: (_text: string) => string
+  change: (_kind: ChangeKind, _text: string) => string
+}
+
+type ChangeKind = 'added' | 'removed' | 'changed'
+
+interface Change {
+  kind: ChangeKind
+  label: string
+  before?: unknown
+  after?: unknown
+}
+
+/**
+ * Merges option layers, later ones winning, over the defaults: the terminal's
+ * width (or 100 columns), 20 rows, 24 characters per cell, 3 levels of nesting,
+ * and colors when stdout is a TTY and `NO_COLOR` is not set.
+ */
+export function resolveDumpOptions(...layers: Array<DumpOptions | undefined>): ResolvedDumpOptions {
+  const options: DumpOptions = Object.assign({}, ...layers)
+  return {
+    width: options.width ?? process.stdout.columns ?? 100,
+    maxRows: options.maxRows ?? 20,
+    maxColumnWidth: options.maxColumnWidth ?? 24,
+    depth: options.depth ?? 3,
+    colors: options.colors ?? (Boolean(process.stdout.isTTY) && !process.env.NO_COLOR),
+  }
+}
+
+/**
+ * Renders items as a table when they are objects with only flat values, with
+ * each column's inferred type and null count below its name, and as a tree
+ * otherwise. Rows past `maxRows` and columns past `width` are summed up.
+ */
+export function renderDump(items: readonly unknown[], options: ResolvedDumpOptions): string {
+  const style = createStyle(options.colors)
+  const title = style.bold(`Collection(${items.length})`)
+  if (items.length === 0)
+    return `${title} []`
+  const body = items.every(isFlatRecord)
+    ? renderTable(items as readonly Record<string, unknown>[], options, style)
+    : renderTree(items, options, style)
+  return `${title}\n${body}`
+}
+
+/**
+ * Renders the differences between two collections side by side. Items are
+ * paired by `keyOf` when given and by position otherwise; for objects, only
+ * the fields that changed are shown.
+ */
+export function renderDiff(before: readonly unknown[], after: readonly unknown[], keyOf: ((_item: unknown) => unknown) | undefined, options: ResolvedDumpOptions): string {
+  const style = createStyle(options.colors)
+  const changes = keyOf ? keyedChanges(before, after, keyOf) : positionalChanges(before, after)
+  const counts = (['changed', 'added', 'removed'] as const).map(kind => `${changes.filter(change => change.kind === kind).length} ${kind}`)
+  const title = style.bold(`Collection(${before.length}) → Collection(${after.length}): ${changes.length === 0 ? 'no changes' : counts.join(', ')}`)
+  if (changes.length === 0)
+    return title
+
+  const shown = changes.slice(0, options.maxRows)
+  const labelWidth = Math.max(1, ...shown.map(change => change.label.length))
+  const sideWidth = Math.max(10, Math.floor((options.width - labelWidth - 8) / 2))
+  const markers: Record<ChangeKind, string> = { added: '+', removed: '-', changed: '~' }
+
+  const lines = [
+    style.dim(`  ${'#'.padEnd(labelWidth)} │ ${'before'.padEnd(sideWidth)} │ after`),
+    ...shown.map((change) => {
+      const [left, right] = describeChange(change)
+      const line = `${markers[change.kind]} ${change.label.padEnd(labelWidth)} │ ${truncate(left, sideWidth).padEnd(sideWidth)} │ ${truncate(right, sideWidth)}`
+      return style.change(change.kind, line.trimEnd())
+    }),
+  ]
+  if (changes.length > shown.length)
+    lines.push(style.dim(`… ${changes.length - shown.length} more changes`))
+  return `${title}\n${lines.join('\n')}`
+}
+
+function renderTable(items: readonly Record<string, unknown>[], options: ResolvedDumpOptions, style: Style): string {
+  const rows = items.slice(0, options.maxRows)
+  const columns = [...new Set(items.flatMap(item => Object.keys(item)))].map((key) => {
+    const values = items.map(item => item[key])
+    const nulls = values.filter(value => value === null || value === undefined).length
+    const type = inferType(values)
+    return { header: key, annotation: nulls > 0 ? `${type}, ${nulls} null` : type, values: rows.map(row => row[key]) }
+  })
+
+  const { lines, hidden } = renderColumns(columns, { maxColumnWidth: options.maxColumnWidth, width: options.width, style })
+  if (items.length > rows.length)
+    lines.push(style.dim(`… ${items.length - rows.length} more rows`))
+  if (hidden.length > 0)
+    lines.push(style.dim(`… ${hidden.length} more columns: ${hidden.map(column => column.header).join(', ')}`))
+  return lines.join('\n')
+}
+
+function renderTree(items: readonly unknown[], options: ResolvedDumpOptions, style: Style): string {
+  const lines: string[] = []
+
+  const visit = (entries: Array<[string, unknown]>, prefix: string, depth: number, ancestors: Set<object>) => {
+    const shown = entries.slice(0, options.maxRows)
+    shown.forEach(([label, value], i) => {
+      const last = i === shown.length - 1 && entries.length === shown.length
+      const branch = `${prefix}${last ? '└─ ' : '├─ '}`
+      const children = typeof value === 'object' && value !== null && !ancestors.has(value) ? childrenOf(value) : undefined
+
+      let text: string
+      if (typeof value === 'object' && value !== null && ancestors.has(value))
+        text = style.dim('[Circular]')
+      else if (children)
+        text = style.dim(depth < options.depth || children.length === 0 ? containerName(value) : `${containerName(value)} …`)
+      else
+        text = style.value(value, truncate(typeof value === 'string' ? JSON.stringify(value) : inlineValue(value), Math.max(10, options.width - branch.length - label.length - 2)))
+      lines.push(`${style.dim(branch)}${style.key(label)}: ${text}`)
+
+      if (children && depth < options.depth)
+        visit(children, `${prefix}${last ? '   ' : '│  '}`, depth + 1, new Set(ancestors).add(value as object))
+    })
+    if (entries.length > shown.length)
+      lines.push(style.dim(`${prefix}└─ … ${entries.length - shown.length} more`))
+  }
+
+  visit(items.map((item, i) => [String(i), item]), '', 1, new Set())
+  return lines.join('\n')
+}
+
+/** The entries a tree view shows below a value, or undefined for values shown on one line. */
+function childrenOf(value: object): Array<[string, unknown]> | undefined {
+  if (value instanceof Date)
+    return undefined
+  if (isCollection(value))
+    return value.all().map((item, i) => [String(i), item])
+  if (Array.isArray(value))
+    return value.map((item, i) => [String(i), item])
+  if (value instanceof Map)
+    return [...value].map(([key, item]) => [inlineValue(key), item])
+  if (value instanceof Set)
+    return [...value].map((item, i) => [String(i), item])
+  return Object.entries(value)
+}
+
+function containerName(value: unknown): string {
+  if (isCollection(value))
+    return `Collection(${value.length})`
+  if (Array.isArray(value))
+    return `Array(${value.length})`
+  if (value instanceof Map)
+    return `Map(${value.size})`
+  if (value instanceof Set)
+    return `Set(${value.size})`
+  const name = Object.getPrototypeOf(value)?.constructor?.name
+  const size = Object.keys(value as object).length
+  return name && name !== 'Object' ? `${name} {${size}}` : `{${size}}`
+}
+
+/** The kinds of the values that are not null or undefined, in the order they first appear. */
+function inferType(values: readonly unknown[]): string {
+  const kinds = new Set<string>()
+  for (const value of values) {
+    if (value === null || value === undefined)
+      continue
+    kinds.add(value instanceof Date ? 'Date' : Array.isArray(value) ? 'array' : typeof value)
+  }
+  return kinds.size === 0 ? 'null' : [...kinds].join(' | ')
+}
+
+function isFlatRecord(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || value instanceof Date || value instanceof Map || value instanceof Set || isCollection(value))
+    return false
+  return Object.values(value).every(field => typeof field !== 'object' || field === null || field instanceof Date)
+}
+
+function positionalChanges(before: readonly unknown[], after: readonly unknown[]): Change[] {
+  const changes: Change[] = []
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    if (i >= after.length)
+      changes.push({ kind: 'removed', label: String(i), before: before[i] })
+    else if (i >= before.length)
+      changes.push({ kind: 'added', label: String(i), after: after[i] })
+    else if (!deepEqual(before[i], after[i]))
+      changes.push({ kind: 'changed', label: String(i), before: before[i], after: after[i] })
+  }
+  return changes
+}
+
+function keyedChanges(before: readonly unknown[], after: readonly unknown[], keyOf: (_item: unknown) => unknown): Change[] {
+  const previous = new Map<unknown, unknown>()
+  for (const item of before) {
+    if (!previous.has(keyOf(item)))
+      previous.set(keyOf(item), item)
+  }
+
+  const changes: Change[] = []
+  const matched = new Set<unknown>()
+  for (const item of after) {
+    const key = keyOf(item)
+    const label = inlineValue(key)
+    if (!previous.has(key) || matched.has(key)) {
+      changes.push({ kind: 'added', label, after: item })
+      continue
+    }
+    matched.add(key)
+    if (!deepEqual(previous.get(key), item))
+      changes.push({ kind: 'changed', label, before: previous.get(key), after: item })
+  }
+  for (const [key, item] of previous) {
+    if (!matched.has(key))
+      changes.push({ kind: 'removed', label: inlineValue(key), before: item })
+  }
+  return changes
+}
+
+/** The two sides of a change; for two objects, only the fields that differ. */
+function describeChange(change: Change): [string, string] {
+  if (change.kind !== 'changed')
+    return [change.kind === 'removed' ? inlineValue(change.before) : '', change.kind === 'added' ? inlineValue(change.after) : '']
+
+  const { before, after } = change
+  if (!isPlainObject(before) || !isPlainObject(after))
+    return [inlineValue(before), inlineValue(after)]
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(key => !deepEqual(before[key], after[key]))
+  const side = (record: Record<string, unknown>) => keys.filter(key => key in record).map(key => `${key}: ${inlineValue(record[key])}`).join(', ')
+  return [side(before), side(after)]
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+}
+
+function createStyle(colors: boolean): Style {
+  const paint = (code: number) => (text: string) => colors ? `\u001B[${code}m${text}\u001B[0m` : text
+  const changeColors: Record<ChangeKind, number> = { added: 32, removed: 31, changed: 33 }
+  return {
+    bold: paint(1),
+    dim: paint(2),
+    key: paint(36),
+    value: (value, text) => {
+      if (typeof value === 'number' || typeof value === 'bigint')
+        return paint(33)(text)
+      if (typeof value === 'string')
+        return paint(32)(text)
+      if (typeof value === 'boolean')
+        return paint(35)(text)
+      if (value === null || value === undefined)
+        return paint(90)(text)
+      return text
+    },
+    change: (kind, text) => paint(changeColors[kind])(text),
+  }
+}
@@ -0,0 +1,123 @@
+import type { EqualityStrategy } from './types'
+import { deepEqual } from './utils'
+
+/** A map from items to values that tells items apart with an equality strategy. */
+export interface EqualityMap<T, V> {
+  get: (item: T) => V | undefined
+  set: (item: T, value: V) => void
+  has: (item: T) => boolean
+}
+
+interface Bucketing<T> {
+  bucketOf: (item: T) => unknown
+  same: (a: T, b: T) => boolean
+}
+
+/**
+ * Creates a map keyed by items under `strategy`. Items are spread over
+ * buckets, by identity, by key or by structural hash, so lookups stay O(1)
+ * on average; only a comparison function forces a scan of every entry.
+ */
+export function createEqualityMap<T, V>(strategy: EqualityStrategy<T> = 'reference'): EqualityMap<T, V> {
+  const { bucketOf, same } = bucketingFor(strategy)
+  const buckets = new Map<unknown, Array<{ item: T, value: V }>>()
+  const find = (item: T) => buckets.get(bucketOf(item))?.find(entry => same(entry.item, item))
+
+  return {
+    get: item => find(item)?.value,
+    has: item => find(item) !== undefined,
+    set(item, value) {
+      const entry = find(item)
+      if (entry) {
+        entry.value = value
+        return
+      }
+      const bucket = bucketOf(item)
+      const entries = buckets.get(bucket)
+      if (entries)
+        entries.push({ item, value })
+      else
+        buckets.set(bucket, [{ item, value }])
+    },
+  }
+}
+
+/** Returns whether two items are the same under `strategy`. */
+export function equalityTest<T>(strategy: EqualityStrategy<T> = 'reference'): (a: T, b: T) => boolean {
+  if (strategy === 'reference')
+    return sameValueZero
+  if (strategy === 'deep')
+    return (a, b) => deepEqual(a, b)
+  if (isComparator(strategy))
+    return (a, b) => Boolean(strategy.compare(a, b))
+  const { key } = keyStrategy(strategy)
+  return (a, b) => sameValueZero(key(a), key(b))
+}
+
+/**
+ * Hashes a value so that deeply equal values hash alike, following the same
+ * rules as `deepEqual()`. A value met again inside itself hashes as a marker.
+ */
+export function deepHash(value: unknown, path: Set<object> = new Set()): string {
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value)
+    case 'number':
+    case 'boolean':
+    case 'undefined':
+    case 'bigint':
+      return `${typeof value}:${String(value)}`
+    case 'symbol':
+    case 'function':
+      return typeof value
+  }
+  if (value === null)
+    return 'null'
+
+  const object = value as object
+  if (path.has(object))
+    return '<cycle>'
+  path.add(object)
+  try {
+    if (object instanceof Date)
+      return `Date(${object.getTime()})`
+    if (ArrayBuffer.isView(object))
+      return `${object.constructor.name}[${Array.from(object as unknown as ArrayLike<unknown>, String).join(',')}]`
+    if (Array.isArray(object))
+      return `[${object.map(item => deepHash(item, path)).join(',')}]`
+    // Entry order doesn't matter for maps and sets, so their hashes are sorted
+    if (object instanceof Map)
+      return `Map{${Array.from(object, ([key, item]) => `${deepHash(key, path)}=>${deepHash(item, path)}`).sort().join(',')}}`
+    if (object instanceof Set)
+      return `Set{${Array.from(object, item => deepHash(item, path)).sort().join(',')}}`
+    const keys = Object.keys(object).sort()
+    return `{${keys.map(key => `${JSON.stringify(key)}:${deepHash((object as Record<string, unknown>)[key], path)}`).join(',')}}`
+  }
+  finally {
+    path.delete(object)
+  }
+}
+
+function bucketingFor<T>(strategy: EqualityStrategy<T>): Bucketing<T> {
+  if (strategy === 'reference')
+    return { bucketOf: item => item, same: () => true }
+  if (strategy === 'deep')
+    return { bucketOf: item => deepHash(item), same: (a, b) => deepEqual(a, b) }
+  if (isComparator(strategy))
+    return { bucketOf: () => undefined, same: (a, b) => Boolean(strategy.compare(a, b)) }
+  return { bucketOf: keyStrategy(strategy).key, same: () => true }
+}
+
+function isComparator<T>(strategy: EqualityStrategy<T>): strategy is { compare: (_a: T, _b: T) => unknown } {
+  return typeof strategy === 'object' && strategy !== null && typeof (strategy as { compare?: unknown }).compare === 'function'
+}
+
+function keyStrategy<T>(strategy: EqualityStrategy<T>): { key: (_item: T) => unknown } {
+  if (typeof strategy !== 'object' || strategy === null || typeof (strategy as { key?: unknown }).key !== 'function')
+    throw new TypeError(`Unknown equality strategy ${String(strategy)}: use 'reference', 'deep', { key } or { compare }`)
+  return strategy as { key: (_item: T) => unknown }
+}
+
+function sameValueZero(a: unknown, b: unknown): boolean {
+  return a === b || (Number.isNaN(a) && Number.isNaN(b))
+}
@@ -0,0 +1,113 @@
+import { isCollection } from './utils'
+
+/** Colors for the parts of a table; `plainStyle` leaves the text as it is. */
+export interface TableStyle {
+  bold: (_text: string) => string
+  dim: (_text: string) => string
+  value: (_value: unknown, _text: string) => string
+}
+
+export interface TableColumn {
+  header: string
+  /** A second header line, such as the column's type. */
+  annotation?: string
+  values: readonly unknown[]
+}
+
+export interface TableOptions {
+  /** Longer cells, headers and annotations are cut off with `…`. */
+  maxColumnWidth: number
+  /** The widest a line may get; columns that don't fit are left out. Unlimited by default. */
+  width?: number
+  /** The position shown for the first row, `0` by default. */
+  firstIndex?: number
+  /** The header of the position column, empty by default. */
+  indexHeader?: string
+  style?: TableStyle
+}
+
+export const plainStyle: TableStyle = {
+  bold: text => text,
+  dim: text => text,
+  value: (_value, text) => text,
+}
+
+/** A one-line rendering of a value, with objects shown as JSON. */
+export function inlineValue(value: unknown): string {
+  if (value === undefined)
+    return 'undefined'
+  if (value === null)
+    return 'null'
+  if (value instanceof Date)
+    return value.toISOString()
+  if (typeof value === 'bigint')
+    return `${value}n`
+  if (typeof value === 'function')
+    return `[Function ${value.name || 'anonymous'}]`
+  if (isCollection(value))
+    return `Collection(${value.length})`
+  if (typeof value === 'object') {
+    try {
+      return JSON.stringify(value instanceof Map ? Object.fromEntries(value) : value instanceof Set ? [...value] : value)
+    }
+    catch {
+      return Object.prototype.toString.call(value)
+    }
+  }
+  return String(value).replaceAll('\n', ' ')
+}
+
+export function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, Math.max(0, width - 1))}…` : text
+}
+
+/**
+ * Renders columns as an aligned table, with each row's position on the left.
+ * Number columns are right-aligned and `undefined` cells are left blank.
+ * Returns the lines and the columns that didn't fit in `width`.
+ */
+export function renderColumns(columns: readonly TableColumn[], options: TableOptions): { lines: string[], hidden: TableColumn[] } {
+  const { maxColumnWidth, width = Infinity, firstIndex = 0, indexHeader = '', style = plainStyle } = options
+  const rowCount = Math.max(0, ...columns.map(column => column.values.length))
+  const laidOut = columns.map((column) => {
+    const header = truncate(column.header, maxColumnWidth)
+    const annotation = column.annotation === undefined ? undefined : truncate(column.annotation, maxColumnWidth)
+    const cells = column.values.map(value => value === undefined ? '' : truncate(inlineValue(value), maxColumnWidth))
+    const present = column.values.filter(value => value !== null && value !== undefined)
+    return {
+      column,
+      header,
+      annotation,
+      cells,
+      numeric: present.length > 0 && present.every(value => typeof value === 'number' || typeof value === 'bigint'),
+      width: Math.max(header.length, annotation?.length ?? 0, ...cells.map(cell => cell.length)),
+    }
+  })
+
+  const indexWidth = Math.max(indexHeader.length, String(firstIndex + Math.max(0, rowCount - 1)).length)
+  const shown: typeof laidOut = []
+  let used = indexWidth
+  for (const column of laidOut) {
+    if (shown.length > 0 && used + 3 + column.width > width)
+      break
+    shown.push(column)
+    used += 3 + column.width
+  }
+
+  const pad = (text: string, index: number) => {
+    const column = shown[index]
+    if (column.numeric)
+      return text.padStart(column.width)
+    return index === shown.length - 1 ? text : text.padEnd(column.width)
+  }
+  const separator = style.dim(' │ ')
+  const join = (cells: string[]) => cells.join(separator).trimEnd()
+  const lines = [join([indexHeader.padStart(indexWidth), ...shown.map((column, i) => style.bold(pad(column.header, i)))])]
+  if (shown.some(column => column.annotation !== undefined))
+    lines.push(join([' '.repeat(indexWidth), ...shown.map((column, i) => style.dim(pad(column.annotation ?? '', i)))]))
+  lines.push(style.dim(['─'.repeat(indexWidth), ...shown.map(column => '─'.repeat(column.width))].join('─┼─')))
+  for (let row = 0; row < rowCount; row++)
+    lines.push(join([style.dim(String(firstIndex + row).padStart(indexWidth)), ...shown.map((column, i) => style.value(column.column.values[row], pad(column.cells[row] ?? '', i)))]))
+
+  return { lines, hidden: laidOut.slice(shown.length).map(column => column.column) }
+}
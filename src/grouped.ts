@@ -0,0 +1,204 @@
+import type { AggregateSpec, CollectionOperations, GroupedCollection } from './types'
+import { collect } from './collect'
+import { valueAt } from './path'
+import { compareValues } from './sort'
+
+/** Marks the map entry holding the stored tuple at the end of a tuple's path. */
+const storedTuple = Symbol('storedTuple')
+
+interface GroupEntry<T, K, R> {
+  key: K
+  group: CollectionOperations<T>
+  row: R
+}
+
+/**
+ * Groups items by the value `keyOf` returns. With `multiLevel`, keys are
+ * arrays compared element by element, so equal tuples share a group. When
+ * `keyFields` is given, each group's `agg()` rows start with those fields of
+ * its first item, otherwise with `{ key }`.
+ */
+export function groupItems<T>(
+  items: readonly T[],
+  keyOf: (item: T, index: number) => unknown,
+  options: { keyFields?: PropertyKey[], multiLevel?: boolean } = {},
+): GroupedCollection<T, any, any> {
+  const { keyFields, multiLevel = false } = options
+  const tuples = new Map<unknown, any>()
+  const groups = new Map<unknown, T[]>()
+
+  for (const [index, item] of items.entries()) {
+    let key = keyOf(item, index)
+    if (multiLevel)
+      key = canonicalTuple(tuples, key as unknown[], true)
+
+    const group = groups.get(key)
+    if (group)
+      group.push(item)
+    else
+      groups.set(key, [item])
+  }
+
+  const rowOf = (key: unknown, members: readonly T[]): unknown => {
+    if (!keyFields)
+      return { key }
+    return Object.fromEntries(keyFields.map(field => [field, valueAt(members[0], field)]))
+  }
+  const entries = Array.from(groups, ([key, members]) => ({
+    key,
+    group: collect(members),
+    row: rowOf(key, members),
+  }))
+
+  return createGroupedCollection(entries, multiLevel, rowOf)
+}
+
+/**
+ * Wraps the groups in a `Map` whose extra methods read its current contents,
+ * so groups added with `set()` or removed with `delete()` are taken into
+ * account. `rowOf` makes the `agg()` row of a group added after grouping.
+ */
+function createGroupedCollection<T, K, R>(
+  entries: Array<GroupEntry<T, K, R>>,
+  multiLevel: boolean,
+  rowOf: (_key: K, _members: readonly T[]) => R,
+): GroupedCollection<T, K, R> {
+  const groups = new Map<K, CollectionOperations<T>>()
+  const rows = new Map<K, R>()
+
+  // Tuple keys are looked up by value rather than by reference
+  const tuples = new Map<unknown, any>()
+  const resolve = (key: K, insert = false): K => {
+    if (!multiLevel || !Array.isArray(key))
+      return key
+    return (insert ? canonicalTuple(tuples, key, true) : canonicalTuple(tuples, key, false) ?? key) as K
+  }
+
+  const get = groups.get.bind(groups)
+  const has = groups.has.bind(groups)
+  const set = groups.set.bind(groups)
+  const remove = groups.delete.bind(groups)
+
+  for (const entry of entries) {
+    const key = resolve(entry.key, true)
+    set(key, entry.group)
+    rows.set(key, entry.row)
+  }
+
+  const current = (): Array<GroupEntry<T, K, R>> => Array.from(groups, ([key, group]) => ({
+    key,
+    group,
+    row: rows.get(key) ?? rowOf(key, group.items),
+  }))
+
+  return Object.assign(groups, {
+    get: (key: K) => get(resolve(key)),
+    has: (key: K) => has(resolve(key)),
+    set(key: K, group: CollectionOperations<T>) {
+      set(resolve(key, true), group)
+      return this
+    },
+    delete: (key: K) => remove(resolve(key)),
+
+    agg(spec: Record<string, AggregateSpec<T>>) {
+      return collect(current().map(({ group, row }) => {
+        const result: Record<string, unknown> = { ...(row as object) }
+        for (const [name, aggregate] of Object.entries(spec))
+          result[name] = aggregateGroup(group, aggregate)
+        return result
+      }))
+    },
+
+    having(predicate: (group: CollectionOperations<T>, key: K) => boolean) {
+      return createGroupedCollection(current().filter(entry => predicate(entry.group, entry.key)), multiLevel, rowOf)
+    },
+
+    sortBy(by?: (group: CollectionOperations<T>, key: K) => unknown, direction: 'asc' | 'desc' = 'asc') {
+      const sign = direction === 'asc' ? 1 : -1
+      const entries = current()
+      const values = new Map(entries.map(entry => [entry, by ? by(entry.group, entry.key) : entry.key]))
+      const sorted = entries.sort((a, b) => sign * compareValues(values.get(a), values.get(b)))
+      return createGroupedCollection(sorted, multiLevel, rowOf)
+    },
+
+    map<U>(callback: (group: CollectionOperations<T>, key: K) => CollectionOperations<U> | readonly U[]) {
+      const mapped = current().map((entry) => {
+        const result = callback(entry.group, entry.key)
+        return { ...entry, group: Array.isArray(result) ? collect(result as U[]) : result as CollectionOperations<U> }
+      })
+      return createGroupedCollection(mapped, multiLevel, rowOf as unknown as (_key: K, _members: readonly U[]) => R)
+    },
+
+    ungroup() {
+      return collect(Array.from(groups.values()).flatMap(group => group.items))
+    },
+
+    toMap() {
+      return new Map(groups)
+    },
+  }) as GroupedCollection<T, K, R>
+}
+
+/**
+ * Returns the stored tuple equal to `values`, registering `values` as the
+ * stored tuple when `insert` is set and none exists yet.
+ */
+function canonicalTuple(root: Map<unknown, any>, values: readonly unknown[], insert: true): unknown[]
+function canonicalTuple(root: Map<unknown, any>, values: readonly unknown[], insert: false): unknown[] | undefined
+function canonicalTuple(root: Map<unknown, any>, values: readonly unknown[], insert: boolean): unknown[] | undefined {
+  // Prefix the path with the length so [a] and [a, b] never collide
+  let level = root
+  for (const value of [values.length, ...values]) {
+    let next = level.get(value)
+    if (!next) {
+      if (!insert)
+        return undefined
+      next = new Map()
+      level.set(value, next)
+    }
+    level = next
+  }
+
+  if (!level.has(storedTuple)) {
+    if (!insert)
+      return undefined
+    level.set(storedTuple, values)
+  }
+  return level.get(storedTuple)
+}
+
+function aggregateGroup<T>(group: CollectionOperations<T>, aggregate: AggregateSpec<T>): unknown {
+  if (aggregate === 'count')
+    return group.count()
+  if (typeof aggregate === 'function')
+    return aggregate(group)
+
+  const [fn, key] = aggregate
+  const values = group.items
+    .map(item => valueAt(item, key))
+    .filter(value => value !== null && value !== undefined)
+
+  switch (fn) {
+    case 'count':
+      return values.length
+    case 'sum':
+      return values.reduce((sum, value) => sum + Number(value), 0)
+    case 'avg':
+      return values.length ? values.reduce((sum, value) => sum + Number(value), 0) / values.length : undefined
+    case 'median': {
+      if (!values.length)
+        return undefined
+      const sorted = values.map(Number).sort((a, b) => a - b)
+      const middle = Math.floor(sorted.length / 2)
+      return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+    }
+    case 'min':
+      return values.reduce((min, value) => compareValues(value, min) < 0 ? value : min, values[0])
+    case 'max':
+      return values.reduce((max, value) => compareValues(value, max) > 0 ? value : max, values[0])
+    case 'first':
+      return values[0]
+    case 'last':
+      return values[values.length - 1]
+  }
+}
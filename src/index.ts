@@ -1,3 +1,14 @@
+export { AsyncTimeoutError } from './async'
+export { createFileStore, createMemoryStore, defaultCacheStore } from './cache'
 export { collect } from './collect'
+export { CSVParseError, parseCSV, readCSV } from './csv'
+export { registerMacro, unregisterMacro } from './macros'
+export { NDJSONParseError, parseNDJSON, readNDJSON } from './ndjson'
+export { ParallelChunkError } from './parallel'
+export { JSONPatchError } from './patch'
+export { dataGet, dataSet } from './path'
+export { QuerySyntaxError } from './query'
+export { fromSQLite, readSQLite } from './sqlite'
 export { range, times, isCollection } from './utils'
-export type { ArrayValue, ArrayValueAtDepth, Assign, Collection, CollectionItem, CollectionMetrics, CollectionOperations, DeepArrayValue, Falsy, HavingOperator, InstanceOf, KMeansOptions, LazyCollectionOperations, LeftAssign, MovingAverageOptions, Overlap, PaginationResult, RegressionResult, RemoveProperties, SelectProperties, SerializationOptions, SetProperty, StandardDeviationResult, TimeSeriesOptions, TimeSeriesPoint, ValidationResult, ValidationSchema, WithNonNullableProperty, WithNullishProperty, WithoutPropertyValue, WithPropertyValue } from './types'
+export { parseXML, XMLParseError } from './xml'
+export type { AggregateFunction, AggregateRow, AggregateSpec, AggregateValue, ArrayValue, ArrayValueAtDepth, Assign, AsyncItemError, AsyncOptions, AsyncRetryOptions, Awaitable, BenchmarkData, BenchmarkMeasurement, BenchmarkOptions, BenchmarkReport, CachedCollectionOperations, CacheEntry, CacheOptions, CacheStore, Collection, CollectionItem, CollectionConfig, CollectionMacros, CollectionMetrics, CollectionOperations, ComplexityClass, CSVColumnType, CSVDialect, CSVParseOptions, CSVParseResult, CSVRowError, CSVSource, CSVWriteOptions, DeepArrayValue, DotPath, DumpDiffOptions, DumpOptions, Falsy, GroupedCollection, HavingOperator, InstanceOf, JoinKey, JSONPatchOperation, KMeansOptions, LazyBufferOptions, LazyCollectionOperations, LazySource, LeftAssign, MacroImplementation, MovingAverageOptions, NDJSONLineError, NDJSONParseOptions, NDJSONParseResult, NDJSONSource, OmitPaths, OuterAssign, Overlap, PaginationResult, ParallelWorkerOptions, ParallelWorkerTask, PathValue, PickPaths, PlaygroundOptions, PlaygroundResult, ReconcileOptions, ReconcilePlan, ReconcileUpdate, RegressionResult, RemoveProperties, RightAssign, SelectProperties, SerializationOptions, SetProperty, SortKey, SortOptions, SQLDialect, SQLExportOptions, SQLiteParams, SQLiteWriteOptions, StandardDeviationResult, TimeSeriesOptions, TimeSeriesPoint, TopKOptions, TraceFormat, TraceStep, ValidationResult, ValidationSchema, VersionChange, VersionedCollectionOperations, VersionedOptions, VersionInfo, WindowFrame, WindowFunction, WindowOptions, WindowValue, WithNonNullableProperty, WithNullishProperty, WithoutPropertyValue, WithPropertyValue, XMLMappingOptions, XMLParseOptions, XMLWriteOptions } from './types'
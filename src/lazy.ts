@@ -1,104 +1,167 @@
-import type { CollectionOperations, LazyCollectionOperations, LazyGenerator } from './types'
+import type { AsyncCallback, AsyncOptions, Awaitable, CacheOptions, CacheStore, CollectionOperations, CompareFunction, DotPath, LazyBufferOptions, LazyCollectionOperations, LazySource, SortKey, SortOptions, TopKOptions, WithNonNullableProperty, WithNullishProperty, WithoutPropertyValue, WithPropertyValue } from './types'
+import { mapConcurrently } from './async'
+import { defaultCacheStore, fingerprintOf, readThrough } from './cache'
 import { collect } from './collect'
+import { groupItems } from './grouped'
+import { valueAt } from './path'
+import { createTopK, sortItems, toSortKeys } from './sort'
 
-/**
- * Creates a new lazy collection operation chain
- */
-export function createLazyOperations<T>(generator: LazyGenerator<T>): LazyCollectionOperations<T> {
-  const operations: Array<(value: any) => any> = []
-  let cached: T[] | null = null
-  let batchSize: number | null = null
-
-  async function* executeChain(): AsyncGenerator<T, void, undefined> {
-    if (cached) {
-      for (const item of cached) {
-        yield item
-      }
-      return
-    }
+type Items<T> = Iterable<T> | AsyncIterable<T>
 
-    let batch: T[] = []
+const fingerprints = new WeakMap<object, () => string>()
 
-    for await (let value of generator) {
-      // Apply all operations in the chain
-      for (const operation of operations) {
-        value = operation(value)
-        if (value === undefined)
-          break
-      }
+/** The cache key of a pipeline, fingerprinted from its source and steps when a pass needs it. */
+function describe(lazy: object): string {
+  return fingerprints.get(lazy)?.() ?? fingerprintOf(lazy)
+}
 
-      if (value !== undefined) {
-        if (batchSize) {
-          batch.push(value)
-          if (batch.length >= batchSize) {
-            for (const item of batch) {
-              yield item
-            }
-            batch = []
-          }
-        }
-        else {
-          yield value
-        }
-      }
-    }
+/**
+ * Creates a lazy collection over `source`. Every terminal operation starts a
+ * fresh pass, so a factory or a re-iterable source (such as an array) can be
+ * consumed any number of times, while a generator object is used up by its
+ * first pass.
+ *
+ * Each operation wraps the pass before it in a stage that yields whatever it
+ * passes on, so any value, `undefined` included, flows through. A stage that
+ * stops early, like `take()`, closes every stage before it and the source.
+ * Callbacks may return promises, which each stage awaits before moving on.
+ */
+export function createLazyOperations<T>(source: LazySource<T>, describeSource?: () => string): LazyCollectionOperations<T> {
+  function run(): Items<T> {
+    return typeof source === 'function' ? source() : source
+  }
 
-    // Yield any remaining batch items
-    if (batch.length > 0) {
-      for (const item of batch) {
-        yield item
-      }
-    }
+  function through<U>(stage: (items: Items<T>) => AsyncIterable<U>): LazyCollectionOperations<U> {
+    return createLazyOperations(() => stage(run()))
   }
 
-  return {
-    map<U>(callback: (item: T, index: number) => U): LazyCollectionOperations<U> {
-      let currentIndex = 0
-      operations.push((value: T) => callback(value, currentIndex++))
-      return createLazyOperations(executeChain() as any)
+  const lazy: LazyCollectionOperations<T> = {
+    map<U>(callback: (item: T, index: number) => Awaitable<U>): LazyCollectionOperations<U> {
+      return through(async function* (items): AsyncGenerator<U, void, undefined> {
+        let index = 0
+        for await (const item of items)
+          yield await callback(item, index++)
+      })
     },
 
-    filter: function (predicate: (item: T, index: number) => boolean): LazyCollectionOperations<T> {
-      let currentIndex = 0
-      operations.push((value: T) => predicate(value, currentIndex++) ? value : undefined)
-      return createLazyOperations(executeChain())
+    filter: function (predicate: (item: T, index: number) => Awaitable<boolean>): LazyCollectionOperations<T> {
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        let index = 0
+        for await (const item of items) {
+          if (await predicate(item, index++))
+            yield item
+        }
+      })
     } as LazyCollectionOperations<T>['filter'],
 
-    flatMap<U>(callback: (item: T, index: number) => readonly U[]): LazyCollectionOperations<U> {
-      const source = executeChain()
+    filterMap<U>(callback: (item: T, index: number) => Awaitable<U>): LazyCollectionOperations<NonNullable<U>> {
+      return through(async function* (items): AsyncGenerator<NonNullable<U>, void, undefined> {
+        let index = 0
+        for await (const item of items) {
+          const value = await callback(item, index++)
+          if (value !== null && value !== undefined)
+            yield value
+        }
+      })
+    },
 
-      async function* flatMapped(): AsyncGenerator<U, void, undefined> {
-        let currentIndex = 0
-        for await (const value of source) {
-          yield* callback(value, currentIndex++)
+    reject: function (predicate: (item: T) => Awaitable<boolean>): LazyCollectionOperations<T> {
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        for await (const item of items) {
+          if (!await predicate(item))
+            yield item
         }
-      }
+      })
+    } as LazyCollectionOperations<T>['reject'],
 
-      return createLazyOperations(flatMapped())
+    flatMap<U>(callback: (item: T, index: number) => Awaitable<readonly U[]>): LazyCollectionOperations<U> {
+      return through(async function* (items): AsyncGenerator<U, void, undefined> {
+        let index = 0
+        for await (const item of items)
+          yield* await callback(item, index++)
+      })
     },
 
     take(count: number): LazyCollectionOperations<T> {
-      let taken = 0
-      operations.push((value: T) => taken++ < count ? value : undefined)
-      return createLazyOperations(executeChain())
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        if (count <= 0)
+          return
+        let taken = 0
+        for await (const item of items) {
+          yield item
+          // Returning here closes the upstream stages and the source
+          if (++taken >= count)
+            return
+        }
+      })
     },
 
     skip(count: number): LazyCollectionOperations<T> {
-      let skipped = 0
-      operations.push((value: T) => skipped++ < count ? undefined : value)
-      return createLazyOperations(executeChain())
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        let skipped = 0
+        for await (const item of items) {
+          if (skipped++ >= count)
+            yield item
+        }
+      })
+    },
+
+    takeUntil(value: T | ((_item: T) => Awaitable<boolean>)): LazyCollectionOperations<T> {
+      const predicate = toPredicate(value)
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        for await (const item of items) {
+          if (await predicate(item))
+            return
+          yield item
+        }
+      })
+    },
+
+    takeWhile: function (value: T | ((_item: T) => Awaitable<boolean>)): LazyCollectionOperations<T> {
+      const predicate = toPredicate(value)
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        for await (const item of items) {
+          if (!await predicate(item))
+            return
+          yield item
+        }
+      })
+    } as LazyCollectionOperations<T>['takeWhile'],
+
+    skipUntil(value: T | ((_item: T) => Awaitable<boolean>)): LazyCollectionOperations<T> {
+      const predicate = toPredicate(value)
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        let skipping = true
+        for await (const item of items) {
+          if (skipping && await predicate(item))
+            skipping = false
+          if (!skipping)
+            yield item
+        }
+      })
+    },
+
+    skipWhile(value: T | ((_item: T) => Awaitable<boolean>)): LazyCollectionOperations<T> {
+      const predicate = toPredicate(value)
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        let skipping = true
+        for await (const item of items) {
+          if (skipping && !await predicate(item))
+            skipping = false
+          if (!skipping)
+            yield item
+        }
+      })
     },
 
     chunk(size: number): LazyCollectionOperations<T[]> {
       if (size < 1)
         throw new Error('Chunk size must be greater than 0')
 
-      const source = executeChain()
-
-      async function* chunked(): AsyncGenerator<T[], void, undefined> {
+      return through(async function* (items): AsyncGenerator<T[], void, undefined> {
         let chunk: T[] = []
-        for await (const value of source) {
-          chunk.push(value)
+        for await (const item of items) {
+          chunk.push(item)
           if (chunk.length === size) {
             yield chunk
             chunk = []
@@ -107,19 +170,148 @@ export function createLazyOperations<T>(generator: LazyGenerator<T>): LazyCollec
 
         if (chunk.length > 0)
           yield chunk
-      }
+      })
+    },
+
+    zip<U>(other: Iterable<U> | AsyncIterable<U>): LazyCollectionOperations<[T, U | undefined]> {
+      return through(async function* (items): AsyncGenerator<[T, U | undefined], void, undefined> {
+        const iterator = Symbol.asyncIterator in other
+          ? (other as AsyncIterable<U>)[Symbol.asyncIterator]()
+          : (other as Iterable<U>)[Symbol.iterator]()
+        let exhausted = false
+        try {
+          for await (const item of items) {
+            let paired: U | undefined
+            if (!exhausted) {
+              const next = await iterator.next()
+              exhausted = next.done === true
+              paired = next.done ? undefined : next.value
+            }
+            yield [item, paired]
+          }
+        }
+        finally {
+          if (!exhausted)
+            await iterator.return?.()
+        }
+      })
+    },
 
-      return createLazyOperations(chunked())
+    concat<U>(...others: Array<Iterable<U> | AsyncIterable<U>>): LazyCollectionOperations<T | U> {
+      return through(async function* (items): AsyncGenerator<T | U, void, undefined> {
+        yield* items
+        for (const other of others)
+          yield* other
+      })
     },
 
-    async toArray(): Promise<T[]> {
-      if (cached)
-        return cached
+    scan<U>(callback: (acc: U, item: T) => Awaitable<U>, initial: U): LazyCollectionOperations<U> {
+      return through(async function* (items): AsyncGenerator<U, void, undefined> {
+        let accumulator = initial
+        for await (const item of items) {
+          accumulator = await callback(accumulator, item)
+          yield accumulator
+        }
+      })
+    },
+
+    pluck: function <K extends keyof T>(key: K): LazyCollectionOperations<T[K]> {
+      return lazy.map(item => valueAt(item, key))
+    } as LazyCollectionOperations<T>['pluck'],
+
+    where: function <K extends keyof T, V extends T[K]>(key: K, value: V): LazyCollectionOperations<WithPropertyValue<T, K, V>> {
+      return lazy.filter(item => valueAt(item, key) === value) as LazyCollectionOperations<WithPropertyValue<T, K, V>>
+    } as LazyCollectionOperations<T>['where'],
 
+    whereIn: function <K extends keyof T, V extends T[K]>(key: K, values: readonly V[]): LazyCollectionOperations<WithPropertyValue<T, K, V>> {
+      const valueSet = new Set<T[K]>(values)
+      return lazy.filter(item => valueSet.has(valueAt(item, key))) as LazyCollectionOperations<WithPropertyValue<T, K, V>>
+    } as LazyCollectionOperations<T>['whereIn'],
+
+    whereNotIn: function <K extends keyof T, V extends T[K]>(key: K, values: readonly V[]): LazyCollectionOperations<WithoutPropertyValue<T, K, V>> {
+      const valueSet = new Set<T[K]>(values)
+      return lazy.filter(item => !valueSet.has(valueAt(item, key))) as LazyCollectionOperations<WithoutPropertyValue<T, K, V>>
+    } as LazyCollectionOperations<T>['whereNotIn'],
+
+    whereNull: function <K extends keyof T>(key: K): LazyCollectionOperations<WithNullishProperty<T, K>> {
+      return lazy.filter(item => valueAt(item, key) == null) as LazyCollectionOperations<WithNullishProperty<T, K>>
+    } as LazyCollectionOperations<T>['whereNull'],
+
+    whereNotNull: function <K extends keyof T>(key: K): LazyCollectionOperations<WithNonNullableProperty<T, K>> {
+      return lazy.filter(item => valueAt(item, key) != null) as LazyCollectionOperations<WithNonNullableProperty<T, K>>
+    } as LazyCollectionOperations<T>['whereNotNull'],
+
+    mapAsync<U>(callback: AsyncCallback<T, U>, options?: AsyncOptions<T>): LazyCollectionOperations<Awaited<U>> {
+      return through(async function* (items): AsyncGenerator<Awaited<U>, void, undefined> {
+        for await (const { value } of mapConcurrently(items, callback, { concurrency: 1, ...options }))
+          yield value as Awaited<U>
+      })
+    },
+
+    filterAsync(callback: AsyncCallback<T, boolean>, options?: AsyncOptions<T>): LazyCollectionOperations<T> {
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        for await (const { item, value } of mapConcurrently(items, callback, { concurrency: 1, ...options })) {
+          if (value)
+            yield item
+        }
+      })
+    },
+
+    unique<K extends keyof T>(key?: K, options: LazyBufferOptions = {}): LazyCollectionOperations<T> {
+      const { maxItems = Infinity } = options
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        const seen = new Set<unknown>()
+        for await (const item of items) {
+          const value = key === undefined ? item : item[key]
+          if (seen.has(value))
+            continue
+          if (seen.size >= maxItems)
+            throw bufferLimitError('unique', maxItems)
+          seen.add(value)
+          yield item
+        }
+      })
+    },
+
+    sort(compareFunction?: CompareFunction<T>, options?: LazyBufferOptions): LazyCollectionOperations<T> {
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        yield* collect(await buffer(items, 'sort', options)).sort(compareFunction).all()
+      })
+    },
+
+    sortBy: function (by: keyof T | DotPath<T> | readonly SortKey<T>[], directionOrOptions?: 'asc' | 'desc' | (SortOptions & LazyBufferOptions), sortOptions?: SortOptions & LazyBufferOptions): LazyCollectionOperations<T> {
+      const direction = typeof directionOrOptions === 'string' ? directionOrOptions : 'asc'
+      const { maxItems, ...options } = (typeof directionOrOptions === 'object' ? directionOrOptions : sortOptions) ?? {}
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        yield* sortItems(await buffer(items, 'sortBy', { maxItems }), toSortKeys<T>(by, direction), options)
+      })
+    } as LazyCollectionOperations<T>['sortBy'],
+
+    sortByDesc(key: keyof T | DotPath<T>, options?: SortOptions & LazyBufferOptions): LazyCollectionOperations<T> {
+      return this.sortBy(key, 'desc', options)
+    },
+
+    topK(n: number, by?: keyof T | DotPath<T> | ((_item: T) => unknown) | readonly SortKey<T>[], options: TopKOptions = {}): LazyCollectionOperations<T> {
+      const { direction = 'desc', ...sortOptions } = options
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        // Only the current top n items are held, however long the source is
+        const top = createTopK(n, toSortKeys<T>(by, direction), sortOptions)
+        for await (const item of items)
+          top.offer(item)
+        yield* top.result()
+      })
+    },
+
+    reverse(options?: LazyBufferOptions): LazyCollectionOperations<T> {
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        yield* (await buffer(items, 'reverse', options)).reverse()
+      })
+    },
+
+    async toArray(): Promise<T[]> {
       const results: T[] = []
-      for await (const item of executeChain()) {
+      for await (const item of run())
         results.push(item)
-      }
       return results
     },
 
@@ -128,45 +320,41 @@ export function createLazyOperations<T>(generator: LazyGenerator<T>): LazyCollec
       return collect(array)
     },
 
-    async forEach(callback: (item: T) => void): Promise<void> {
-      for await (const item of executeChain()) {
-        callback(item)
-      }
+    async forEach(callback: (item: T) => Awaitable<void>): Promise<void> {
+      for await (const item of run())
+        await callback(item)
     },
 
-    async reduce<U>(callback: (accumulator: U, current: T) => U, initial: U): Promise<U> {
+    async reduce<U>(callback: (accumulator: U, current: T) => Awaitable<U>, initial: U): Promise<U> {
       let result = initial
-      for await (const item of executeChain()) {
-        result = callback(result, item)
-      }
+      for await (const item of run())
+        result = await callback(result, item)
       return result
     },
 
     async count(): Promise<number> {
       let counter = 0
-      for await (const _item of executeChain()) {
+      for await (const _item of run())
         counter++
-      }
       return counter
     },
 
     async first(): Promise<T | undefined> {
-      const iterator = executeChain()
-      const result = await iterator.next()
-      return result.done ? undefined : result.value
+      for await (const item of run())
+        return item
+      return undefined
     },
 
     async last(): Promise<T | undefined> {
       let lastItem: T | undefined
-      for await (const item of executeChain()) {
+      for await (const item of run())
         lastItem = item
-      }
       return lastItem
     },
 
     async nth(n: number): Promise<T | undefined> {
       let currentIndex = 0
-      for await (const item of executeChain()) {
+      for await (const item of run()) {
         if (currentIndex === n)
           return item
         currentIndex++
@@ -174,27 +362,194 @@ export function createLazyOperations<T>(generator: LazyGenerator<T>): LazyCollec
       return undefined
     },
 
-    cache(): LazyCollectionOperations<T> {
-      // Wrap in a new lazy that materializes and caches on first terminal operation
-      const self = this
-      const cachedOps = createLazyOperations<T>((async function* () {
-        if (!cached) {
-          cached = await self.toArray()
-        }
-        for (const item of cached) {
-          yield item
-        }
-      })())
-      return cachedOps
+    contains: async function (keyOrItem: T | keyof T | undefined, value?: any): Promise<boolean> {
+      const byKey = arguments.length > 1
+      if (!byKey && keyOrItem === undefined)
+        return false
+      for await (const item of run()) {
+        if (byKey ? item[keyOrItem as keyof T] === value : item === keyOrItem)
+          return true
+      }
+      return false
+    } as LazyCollectionOperations<T>['contains'],
+
+    async isEmpty(): Promise<boolean> {
+      for await (const _item of run())
+        return false
+      return true
+    },
+
+    async isNotEmpty(): Promise<boolean> {
+      return !await this.isEmpty()
+    },
+
+    async sum(key?: keyof T | DotPath<T>): Promise<number> {
+      let total = 0
+      for await (const item of run()) {
+        const value = key ? Number(valueAt(item, key)) : Number(item)
+        total += Number.isNaN(value) ? 0 : value
+      }
+      return total
+    },
+
+    async avg(key?: keyof T | DotPath<T>): Promise<number> {
+      let total = 0
+      let counter = 0
+      for await (const item of run()) {
+        const value = key ? Number(valueAt(item, key)) : Number(item)
+        total += Number.isNaN(value) ? 0 : value
+        counter++
+      }
+      return counter ? total / counter : 0
+    },
+
+    async min(key?: keyof T | DotPath<T>): Promise<T | undefined> {
+      return extreme(run(), key, (value, current) => value < current)
+    },
+
+    async max(key?: keyof T | DotPath<T>): Promise<T | undefined> {
+      return extreme(run(), key, (value, current) => value > current)
+    },
+
+    countBy: async function (keyOrCallback: keyof T | ((_item: T) => Awaitable<unknown>)): Promise<Map<unknown, number>> {
+      const counts = new Map<unknown, number>()
+      for await (const item of run()) {
+        const value = typeof keyOrCallback === 'function' ? await keyOrCallback(item) : item[keyOrCallback]
+        counts.set(value, (counts.get(value) || 0) + 1)
+      }
+      return counts
+    } as LazyCollectionOperations<T>['countBy'],
+
+    async keyBy<K extends keyof T>(key: K): Promise<Map<T[K], T>> {
+      const keyed = new Map<T[K], T>()
+      for await (const item of run())
+        keyed.set(item[key], item)
+      return keyed
+    },
+
+    partition: async function (predicate: (item: T) => Awaitable<boolean>): Promise<[CollectionOperations<T>, CollectionOperations<T>]> {
+      const pass: T[] = []
+      const fail: T[] = []
+      for await (const item of run()) {
+        if (await predicate(item))
+          pass.push(item)
+        else
+          fail.push(item)
+      }
+      return [collect(pass), collect(fail)]
+    } as LazyCollectionOperations<T>['partition'],
+
+    groupBy: async function (keyOrCallback: keyof T | readonly (keyof T)[] | ((_item: T) => Awaitable<string | number>), options?: LazyBufferOptions) {
+      const items = await buffer(run(), 'groupBy', options)
+      if (typeof keyOrCallback !== 'function')
+        return collect(items).groupBy(keyOrCallback as any)
+
+      const keys: Array<string | number> = []
+      for (const item of items)
+        keys.push(await keyOrCallback(item))
+      return groupItems(items, (_item, index) => keys[index])
+    } as LazyCollectionOperations<T>['groupBy'],
+
+    async join(this: LazyCollectionOperations<string>, separator?: string): Promise<string> {
+      return (await this.toArray()).join(separator)
+    },
+
+    async implode<K extends keyof T>(key: K, separator: string = ''): Promise<string> {
+      const parts: string[] = []
+      for await (const item of run())
+        parts.push(String(item[key]))
+      return parts.join(separator)
+    },
+
+    cache(options: CacheOptions = {}): LazyCollectionOperations<T> {
+      // The first pass stores the items; later passes replay them while fresh
+      const key = () => options.key ?? describe(this)
+      const toArray = () => this.toArray()
+      const cached = createLazyOperations(async function* (): AsyncGenerator<T, void, undefined> {
+        yield* await readThrough(key(), toArray, options)
+      }, key)
+      cached.invalidate = (store = options.store ?? defaultCacheStore) => store.clear(key())
+      return cached
+    },
+
+    invalidate(store: CacheStore = defaultCacheStore): void {
+      store.clear(describe(this))
     },
 
     batch(size: number): LazyCollectionOperations<T> {
-      batchSize = size
-      return this
+      if (size < 1)
+        throw new Error('Batch size must be greater than 0')
+
+      return through(async function* (items): AsyncGenerator<T, void, undefined> {
+        let batch: T[] = []
+        for await (const item of items) {
+          batch.push(item)
+          if (batch.length >= size) {
+            yield* batch
+            batch = []
+          }
+        }
+        yield* batch
+      })
     },
 
     pipe<U>(callback: (lazy: LazyCollectionOperations<T>) => LazyCollectionOperations<U>): LazyCollectionOperations<U> {
       return callback(this)
     },
+
+    async* [Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+      yield* run()
+    },
+  }
+
+  fingerprints.set(lazy, describeSource ?? (() => fingerprintOf(source)))
+  // Each step is described by the step before it and its own arguments, so
+  // equal pipelines get equal fingerprints. `cache()` keeps the key it stores under.
+  for (const [name, method] of Object.entries(lazy)) {
+    if (typeof method !== 'function')
+      continue
+    (lazy as any)[name] = function (this: LazyCollectionOperations<T>, ...args: unknown[]) {
+      const result = method.apply(this, args)
+      if (name !== 'cache' && fingerprints.has(result))
+        fingerprints.set(result, () => `${describe(lazy)}.${name}(${fingerprintOf(args)})`)
+      return result
+    }
+  }
+
+  return lazy
+}
+
+function toPredicate<T>(value: T | ((_item: T) => Awaitable<boolean>)): (_item: T) => Awaitable<boolean> {
+  return typeof value === 'function'
+    ? value as (_item: T) => Awaitable<boolean>
+    : (item: T) => item === value
+}
+
+function bufferLimitError(operation: string, maxItems: number): RangeError {
+  return new RangeError(`${operation}() would hold more than ${maxItems} items in memory`)
+}
+
+/** Reads every item of a pass into memory, stopping at `maxItems`. */
+async function buffer<T>(items: Items<T>, operation: string, options: LazyBufferOptions = {}): Promise<T[]> {
+  const { maxItems = Infinity } = options
+  const buffered: T[] = []
+  for await (const item of items) {
+    if (buffered.length >= maxItems)
+      throw bufferLimitError(operation, maxItems)
+    buffered.push(item)
+  }
+  return buffered
+}
+
+/** Finds the item whose value wins every comparison, like `min()` and `max()` on a collection. */
+async function extreme<T>(items: Items<T>, key: keyof T | DotPath<T> | undefined, wins: (_value: any, _current: any) => boolean): Promise<T | undefined> {
+  let found = false
+  let result: T | undefined
+  for await (const item of items) {
+    if (!found || wins(key ? valueAt(item, key) : item, key ? valueAt(result, key) : result)) {
+      result = item
+      found = true
+    }
   }
+  return result
 }
@@ -0,0 +1,37 @@
+import type { MacroImplementation } from './types'
+import { collect } from './collect'
+
+/**
+ * Holds the registered macros. Every collection inherits from it, so a macro
+ * is available on collections made before and after it was registered.
+ * @internal
+ */
+export const macroPrototype: Record<string, unknown> = {}
+
+let builtInNames: Set<PropertyKey> | undefined
+
+/**
+ * Adds a method to every collection. Calls get the collection as `this`.
+ * Throws when `name` is already a collection method or a registered macro.
+ */
+export function registerMacro<K extends string>(name: K, macro: MacroImplementation<K>): void {
+  if (typeof macro !== 'function')
+    throw new TypeError(`Macro ${name} must be a function`)
+  if (isBuiltIn(name))
+    throw new Error(`Cannot register macro ${name}: collections already have a ${name} member`)
+  if (Object.hasOwn(macroPrototype, name))
+    throw new Error(`A macro named ${name} is already registered`)
+
+  Object.defineProperty(macroPrototype, name, { value: macro, enumerable: false, configurable: true, writable: false })
+}
+
+/** Removes a registered macro. Returns whether there was one to remove. */
+export function unregisterMacro(name: string): boolean {
+  return Object.hasOwn(macroPrototype, name) && delete macroPrototype[name]
+}
+
+function isBuiltIn(name: string): boolean {
+  if (!builtInNames)
+    builtInNames = new Set(Reflect.ownKeys(collect([])))
+  return builtInNames.has(name) || name in Object.prototype
+}
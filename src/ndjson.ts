@@ -0,0 +1,122 @@
+import type { LazyCollectionOperations, NDJSONLineError, NDJSONParseOptions, NDJSONParseResult, NDJSONSource, SerializationOptions } from './types'
+import { createLazyOperations } from './lazy'
+
+export class NDJSONParseError extends Error {
+  readonly errors: NDJSONLineError[]
+
+  constructor(errors: NDJSONLineError[]) {
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : ''
+    super(`Line ${errors[0].line}: ${errors[0].message}${more}`)
+    this.name = 'NDJSONParseError'
+    this.errors = errors
+  }
+}
+
+/**
+ * Parses newline-delimited JSON. Blank lines are skipped; lines that are not
+ * valid JSON are left out of `items` and reported in `errors`.
+ */
+export function parseNDJSON<T = unknown>(text: string): NDJSONParseResult<T> {
+  const reader = createLineReader<T>()
+  const result: NDJSONParseResult<T> = { items: [], errors: [] }
+
+  for (const line of [...reader.push(text), ...reader.end()]) {
+    if ('item' in line)
+      result.items.push(line.item)
+    else
+      result.errors.push(line.error)
+  }
+
+  return result
+}
+
+/**
+ * Streams items from a byte or text source into a lazy collection one line at
+ * a time, so the whole dump is never held in memory. Bad lines follow `onError`.
+ */
+export function readNDJSON<T = unknown>(source: NDJSONSource, options: NDJSONParseOptions = {}): LazyCollectionOperations<T> {
+  async function* items(): AsyncGenerator<T, void, undefined> {
+    const reader = createLineReader<T>()
+    const decoder = new TextDecoder()
+
+    function* emit(lines: Array<LineResult<T>>): Generator<T, void, undefined> {
+      for (const line of lines) {
+        if ('item' in line)
+          yield line.item
+        else
+          reportLineErrors([line.error], options.onError)
+      }
+    }
+
+    for await (const chunk of source as AsyncIterable<Uint8Array | string>) {
+      yield* emit(reader.push(typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })))
+    }
+    yield* emit(reader.push(decoder.decode()))
+    yield* emit(reader.end())
+  }
+
+  return createLazyOperations(items)
+}
+
+/** Applies an `onError` policy to the lines `parseNDJSON()` could not read. */
+export function reportLineErrors(errors: NDJSONLineError[], onError: NDJSONParseOptions['onError'] = 'throw'): void {
+  if (errors.length === 0 || onError === 'skip')
+    return
+  if (onError === 'throw')
+    throw new NDJSONParseError(errors)
+  errors.forEach(onError)
+}
+
+/** Writes one JSON document per line, each followed by `\n`. `pretty` is ignored. */
+export function formatNDJSON<T>(items: readonly T[], options: SerializationOptions = {}): string {
+  const { exclude = [], include } = options
+
+  return items.map((item) => {
+    if (item === null || typeof item !== 'object' || Array.isArray(item) || (!include && exclude.length === 0))
+      return `${JSON.stringify(item) ?? 'null'}\n`
+    const keys = (include ?? Object.keys(item)).filter(key => !exclude.includes(key))
+    return `${JSON.stringify(Object.fromEntries(keys.map(key => [key, (item as any)[key]])))}\n`
+  }).join('')
+}
+
+type LineResult<T> = { item: T } | { error: NDJSONLineError }
+
+/** Splits chunks into lines, which may break anywhere, and parses each complete line. */
+function createLineReader<T>(): { push: (chunk: string) => Array<LineResult<T>>, end: () => Array<LineResult<T>> } {
+  let buffer = ''
+  let line = 0
+  let atStart = true
+
+  function read(text: string): Array<LineResult<T>> {
+    line++
+    const json = text.endsWith('\r') ? text.slice(0, -1) : text
+    if (json.trim() === '')
+      return []
+    try {
+      return [{ item: JSON.parse(json) as T }]
+    }
+    catch (err) {
+      return [{ error: { line, text: json, message: (err as Error).message } }]
+    }
+  }
+
+  return {
+    push(chunk: string) {
+      if (atStart && chunk.length > 0) {
+        atStart = false
+        if (chunk.charCodeAt(0) === 0xFEFF)
+          chunk = chunk.slice(1)
+      }
+
+      const lines = (buffer + chunk).split('\n')
+      buffer = lines.pop() ?? ''
+      return lines.flatMap(read)
+    },
+
+    end() {
+      const rest = buffer
+      buffer = ''
+      return rest === '' ? [] : read(rest)
+    },
+  }
+}
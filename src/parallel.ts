@@ -0,0 +1,156 @@
+import type { ParallelWorkerOptions } from './types'
+import { availableParallelism } from 'node:os'
+import { resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { Worker } from 'node:worker_threads'
+
+export class ParallelChunkError extends Error {
+  readonly chunkIndex: number
+
+  constructor(chunkIndex: number, cause: unknown) {
+    super(`Chunk ${chunkIndex} failed: ${cause instanceof Error ? cause.message : String(cause)}`, { cause })
+    this.name = 'ParallelChunkError'
+    this.chunkIndex = chunkIndex
+  }
+}
+
+type WorkerMessage =
+  | { ready: true }
+  | { loadError: string }
+  | { index: number, result: unknown }
+  | { index: number, error: { name: string, message: string, stack?: string } }
+
+/**
+ * Runs in every pool thread: loads the task module, then answers each chunk
+ * with its result or its error. Kept as CommonJS source so the pool needs no
+ * separate file next to the bundle.
+ */
+const workerSource = [
+  'const { parentPort, workerData } = require(\'node:worker_threads\')',
+  'function transferables(result) {',
+  '  const buffers = new Set()',
+  '  for (const value of Array.isArray(result) ? result : [result]) {',
+  '    if (ArrayBuffer.isView(value) && value.buffer instanceof ArrayBuffer)',
+  '      buffers.add(value.buffer)',
+  '  }',
+  '  return [...buffers]',
+  '}',
+  'import(workerData.module).then((mod) => {',
+  '  const task = mod[workerData.exportName]',
+  '  if (typeof task !== \'function\')',
+  '    throw new TypeError(\'The module does not export a function named \' + workerData.exportName)',
+  '  parentPort.on(\'message\', async ({ index, chunk }) => {',
+  '    try {',
+  '      const result = await task(chunk, index)',
+  '      parentPort.postMessage({ index, result }, workerData.transfer ? transferables(result) : [])',
+  '    }',
+  '    catch (error) {',
+  '      parentPort.postMessage({ index, error: { name: error?.name ?? \'Error\', message: error?.message ?? String(error), stack: error?.stack } })',
+  '    }',
+  '  })',
+  '  parentPort.postMessage({ ready: true })',
+  '}).catch((error) => {',
+  '  parentPort.postMessage({ loadError: error?.message ?? String(error) })',
+  '})',
+].join('\n')
+
+/**
+ * Splits items into chunks and runs them through the worker module's export
+ * on a pool of `worker_threads`, so CPU-bound work uses more than one core.
+ * Chunks are copied with the structured clone algorithm, results are merged
+ * in chunk order, and the first failing chunk rejects with its index.
+ */
+export async function runInWorkers<T>(items: readonly T[], worker: string | URL, options: ParallelWorkerOptions = {}): Promise<unknown[]> {
+  const cores = availableParallelism()
+  const { chunks = cores, exportName = 'default', transfer = false } = options
+  if (!Number.isInteger(chunks) || chunks < 1)
+    throw new Error('Chunk count must be a positive integer')
+  if (items.length === 0)
+    return []
+
+  const size = Math.ceil(items.length / chunks)
+  const batches: T[][] = []
+  for (let start = 0; start < items.length; start += size)
+    batches.push(items.slice(start, start + size))
+
+  const module = worker instanceof URL || /^(?:file|data):/.test(worker) ? String(worker) : pathToFileURL(resolve(worker)).href
+  const poolSize = Math.max(1, Math.min(batches.length, options.maxConcurrency ?? cores))
+  const results: unknown[][] = []
+  const threads: Worker[] = []
+
+  try {
+    await new Promise<void>((resolvePool, rejectPool) => {
+      const busy = new Map<Worker, number>()
+      let next = 0
+      let done = 0
+      let failed = false
+
+      const fail = (error: unknown) => {
+        if (!failed) {
+          failed = true
+          rejectPool(error)
+        }
+      }
+
+      const dispatch = (thread: Worker) => {
+        busy.delete(thread)
+        if (failed || next >= batches.length)
+          return
+        const index = next++
+        busy.set(thread, index)
+        const { chunk, transferList } = encodeChunk(batches[index], transfer)
+        thread.postMessage({ index, chunk }, transferList)
+      }
+
+      for (let i = 0; i < poolSize; i++) {
+        const thread = new Worker(workerSource, { eval: true, workerData: { module, exportName, transfer } })
+        threads.push(thread)
+
+        thread.on('message', (message: WorkerMessage) => {
+          if ('ready' in message)
+            return dispatch(thread)
+          if ('loadError' in message)
+            return fail(new Error(`Could not load worker module ${module}: ${message.loadError}`))
+          if ('error' in message)
+            return fail(new ParallelChunkError(message.index, Object.assign(new Error(message.error.message), message.error)))
+
+          results[message.index] = decodeResult(message.result)
+          if (++done === batches.length)
+            resolvePool()
+          else
+            dispatch(thread)
+        })
+        thread.on('error', (error) => {
+          const index = busy.get(thread)
+          fail(index === undefined ? error : new ParallelChunkError(index, error))
+        })
+        thread.on('exit', (code) => {
+          if (done < batches.length)
+            fail(new Error(`Worker stopped with exit code ${code} before every chunk was processed`))
+        })
+      }
+    })
+  }
+  finally {
+    await Promise.all(threads.map(thread => thread.terminate()))
+  }
+
+  return results.flat()
+}
+
+/** With `transfer`, a chunk of numbers travels as a fresh `Float64Array` whose buffer moves instead of being copied. */
+function encodeChunk<T>(chunk: T[], transfer: boolean): { chunk: T[] | Float64Array, transferList: ArrayBuffer[] } {
+  if (!transfer || !chunk.every(item => typeof item === 'number'))
+    return { chunk, transferList: [] }
+  const numbers = Float64Array.from(chunk as number[])
+  return { chunk: numbers, transferList: [numbers.buffer] }
+}
+
+/** Spreads array and typed array results into items, like `parallel()` does on the main thread. */
+function decodeResult(result: unknown): unknown[] {
+  if (Array.isArray(result))
+    return result
+  if (ArrayBuffer.isView(result) && !(result instanceof DataView))
+    return Array.from(result as unknown as ArrayLike<unknown>)
+  return [result]
+}
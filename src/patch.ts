@@ -0,0 +1,277 @@
+import type { JSONPatchOperation, ReconcileOptions, ReconcilePlan, ReconcileUpdate } from './types'
+import { deepEqual } from './utils'
+
+type Container = Record<string, unknown> | unknown[]
+
+export class JSONPatchError extends Error {
+  readonly index: number
+  readonly operation: JSONPatchOperation
+
+  constructor(index: number, operation: JSONPatchOperation, reason: string) {
+    super(`Patch operation ${index} (${operation.op} ${operation.path}) failed: ${reason}`)
+    this.name = 'JSONPatchError'
+    this.index = index
+    this.operation = operation
+  }
+}
+
+/**
+ * Matches `before` and `after` by key into inserted, updated, deleted and
+ * unchanged items. Updates keep the position of their item in `before`, so
+ * the plan can be written as a JSON Patch against it.
+ */
+export function reconcileItems<T>(before: readonly T[], after: readonly T[], options: ReconcileOptions<T>): ReconcilePlan<T> {
+  const { key, compare } = options
+  const keyOf = typeof key === 'function' ? key as (item: T) => unknown : (item: T) => (item as any)?.[key]
+  const previous = indexByKey(before, keyOf)
+  const next = indexByKey(after, keyOf)
+
+  const inserted: T[] = []
+  const updated: ReconcileUpdate<T>[] = []
+  const deleted: T[] = []
+  const unchanged: T[] = []
+  const deletedPositions: number[] = []
+  const updatedPositions = new Map<ReconcileUpdate<T>, number>()
+
+  for (const [itemKey, { item, index }] of previous) {
+    if (!next.has(itemKey)) {
+      deleted.push(item)
+      deletedPositions.push(index)
+    }
+  }
+
+  for (const item of after) {
+    const match = previous.get(keyOf(item))
+    if (!match) {
+      inserted.push(item)
+      continue
+    }
+
+    const fields = Array.isArray(compare) ? compare : fieldNames(match.item, item)
+    const changedFields = fields.filter(field => !deepEqual((match.item as any)?.[field], (item as any)?.[field]))
+    const equal = typeof compare === 'function' ? compare(match.item, item) : changedFields.length === 0
+    if (equal) {
+      unchanged.push(match.item)
+      continue
+    }
+    const update = { before: match.item, after: item, changedFields }
+    updated.push(update)
+    updatedPositions.set(update, match.index)
+  }
+
+  return {
+    inserted,
+    updated,
+    deleted,
+    unchanged,
+
+    toJSONPatch() {
+      const patch: JSONPatchOperation[] = []
+
+      // Remove from the end so the positions of earlier items stay put
+      for (const position of [...deletedPositions].reverse())
+        patch.push({ op: 'remove', path: `/${position}` })
+
+      for (const update of updated) {
+        const position = updatedPositions.get(update)!
+        const path = `/${position - deletedPositions.filter(removed => removed < position).length}`
+        const { before: from, after: to } = update
+        // Every differing field is written, not just the compared ones, so the patch reproduces `after`
+        const differing = fieldNames(from, to).filter(field => !deepEqual((from as any)?.[field], (to as any)?.[field]))
+        if (!isRecord(from) || !isRecord(to) || differing.length === 0) {
+          patch.push({ op: 'replace', path, value: to })
+          continue
+        }
+        for (const field of differing) {
+          const fieldPath = `${path}/${escapePointerToken(String(field))}`
+          if (!Object.hasOwn(to, field))
+            patch.push({ op: 'remove', path: fieldPath })
+          else
+            patch.push({ op: Object.hasOwn(from, field) ? 'replace' : 'add', path: fieldPath, value: to[field as string] })
+        }
+      }
+
+      for (const item of inserted)
+        patch.push({ op: 'add', path: '/-', value: item })
+
+      return patch
+    },
+  }
+}
+
+/**
+ * Applies RFC 6902 operations to `items`, treating the array as the document
+ * root. Containers are copied the first time an operation writes into them,
+ * so `items` is never changed and a failing patch leaves nothing behind.
+ */
+export function applyJSONPatch<T>(items: readonly T[], patch: readonly JSONPatchOperation[]): T[] {
+  const owned = new WeakSet<object>()
+  // Holding the root under the '' key lets root pointers work like any other
+  const holder: Record<string, unknown> = { '': items }
+  owned.add(holder)
+
+  function own(value: Container): Container {
+    if (owned.has(value))
+      return value
+    const copy = Array.isArray(value) ? [...value] : Object.assign(Object.create(Object.getPrototypeOf(value)), value)
+    owned.add(copy)
+    return copy
+  }
+
+  function child(container: Container, token: string): unknown {
+    if (Array.isArray(container))
+      return container[arrayIndex(token, container.length - 1)]
+    if (!Object.hasOwn(container, token))
+      throw new Error(`${token} does not exist`)
+    return container[token]
+  }
+
+  function read(tokens: string[]): unknown {
+    let current: unknown = holder
+    for (const token of tokens) {
+      if (current === null || typeof current !== 'object')
+        throw new Error(`${token} does not exist`)
+      current = child(current as Container, token)
+    }
+    return current
+  }
+
+  function writableParent(tokens: string[]): Container {
+    let current: Container = holder
+    for (const token of tokens.slice(0, -1)) {
+      const value = child(current, token)
+      if (value === null || typeof value !== 'object')
+        throw new Error(`${token} is not an object or array`)
+      const writable = own(value as Container)
+      if (Array.isArray(current))
+        current[Number(token)] = writable
+      else
+        current[token] = writable
+      current = writable
+    }
+    return current
+  }
+
+  function add(tokens: string[], value: unknown): void {
+    const parent = writableParent(tokens)
+    const last = tokens.at(-1)!
+    if (Array.isArray(parent))
+      parent.splice(last === '-' ? parent.length : arrayIndex(last, parent.length), 0, value)
+    else
+      parent[last] = value
+  }
+
+  function remove(tokens: string[]): unknown {
+    if (tokens.length === 1)
+      throw new Error('the whole document cannot be removed')
+    const parent = writableParent(tokens)
+    const last = tokens.at(-1)!
+    if (Array.isArray(parent))
+      return parent.splice(arrayIndex(last, parent.length - 1), 1)[0]
+    const value = child(parent, last)
+    delete parent[last]
+    return value
+  }
+
+  function replace(tokens: string[], value: unknown): void {
+    const parent = writableParent(tokens)
+    const last = tokens.at(-1)!
+    if (Array.isArray(parent)) {
+      parent[arrayIndex(last, parent.length - 1)] = value
+      return
+    }
+    child(parent, last)
+    parent[last] = value
+  }
+
+  patch.forEach((operation, index) => {
+    try {
+      const path = parsePointer(operation.path)
+      switch (operation.op) {
+        case 'add':
+          return add(path, operation.value)
+        case 'remove':
+          return remove(path)
+        case 'replace':
+          return replace(path, operation.value)
+        case 'move': {
+          const from = parsePointer(operation.from)
+          if (path.length > from.length && from.every((token, i) => token === path[i]))
+            throw new Error('a value cannot be moved into itself')
+          return add(path, remove(from))
+        }
+        case 'copy':
+          return add(path, copyContainers(read(parsePointer(operation.from))))
+        case 'test':
+          if (!deepEqual(read(path), operation.value))
+            throw new Error('the value does not match')
+          return
+        default:
+          throw new Error(`unknown operation ${(operation as { op: string }).op}`)
+      }
+    }
+    catch (error) {
+      throw new JSONPatchError(index, operation, error instanceof Error ? error.message : String(error))
+    }
+  })
+
+  const result = holder['']
+  if (!Array.isArray(result))
+    throw new Error('A patched collection must still be an array')
+  return result as T[]
+}
+
+/** Copies arrays and objects all the way down, so a copied value never shares a container with its source. */
+function copyContainers(value: unknown): unknown {
+  if (value === null || typeof value !== 'object' || value instanceof Date)
+    return value
+  if (Array.isArray(value))
+    return value.map(copyContainers)
+  const copy = Object.create(Object.getPrototypeOf(value))
+  for (const [key, item] of Object.entries(value))
+    copy[key] = copyContainers(item)
+  return copy
+}
+
+function indexByKey<T>(items: readonly T[], keyOf: (item: T) => unknown): Map<unknown, { item: T, index: number }> {
+  const byKey = new Map<unknown, { item: T, index: number }>()
+  items.forEach((item, index) => {
+    const itemKey = keyOf(item)
+    if (byKey.has(itemKey))
+      throw new Error(`Reconcile needs a unique key for every item, but ${String(itemKey)} appears twice`)
+    byKey.set(itemKey, { item, index })
+  })
+  return byKey
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function fieldNames<T>(a: T, b: T): Array<keyof T> {
+  if (!isRecord(a) || !isRecord(b))
+    return []
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])] as Array<keyof T>
+}
+
+/** Splits a JSON Pointer into tokens, led by the '' key the document root is held under. */
+function parsePointer(pointer: string): string[] {
+  if (typeof pointer !== 'string' || (pointer !== '' && !pointer.startsWith('/')))
+    throw new Error(`${String(pointer)} is not a JSON Pointer`)
+  if (pointer === '')
+    return ['']
+  return ['', ...pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))]
+}
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function arrayIndex(token: string, max: number): number {
+  if (!/^(?:0|[1-9]\d*)$/.test(token))
+    throw new Error(`${token} is not an array index`)
+  const index = Number(token)
+  if (index > max)
+    throw new Error(`index ${index} is out of bounds`)
+  return index
+}
@@ -0,0 +1,168 @@
+/**
+ * Reads a dot path such as `'address.city'` from `target`. A `*` segment
+ * stands for every element of an array (or every value of an object) and
+ * gives an array of the values below it; each further `*` flattens one more
+ * level into that array. Returns `fallback` when the path leads nowhere.
+ */
+export function dataGet(target: unknown, path: string | readonly string[], fallback?: unknown): any {
+  const segments = typeof path === 'string' ? path.split('.') : path
+  let current = target
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i]
+    if (segment === '*') {
+      const elements = childrenOf(current)
+      if (!elements)
+        return fallback
+      const rest = segments.slice(i + 1)
+      if (rest.length === 0)
+        return elements
+      const values = elements.map(element => dataGet(element, rest))
+      return rest.includes('*') ? values.flat() : values
+    }
+    if (current === null || current === undefined)
+      return fallback
+    current = current instanceof Map ? current.get(segment) : (current as any)[segment]
+  }
+
+  return current === undefined ? fallback : current
+}
+
+/**
+ * Writes `value` at a dot path in `target`, creating missing objects along
+ * the way, or arrays where the next segment is a number or `*`. A `*` writes
+ * into every element. With `overwrite` off, values that are already there
+ * are kept. Returns `target`, which is changed in place.
+ */
+export function dataSet<T>(target: T, path: string | readonly string[], value: unknown, overwrite: boolean = true): T {
+  const segments = typeof path === 'string' ? path.split('.') : path
+  const [segment, ...rest] = segments
+  if (target === null || typeof target !== 'object' || segment === undefined)
+    return target
+  const container = target as Record<string, unknown>
+
+  if (segment === '*') {
+    for (const key of Object.keys(container)) {
+      if (rest.length > 0)
+        dataSet(container[key], rest, value, overwrite)
+      else if (overwrite)
+        container[key] = value
+    }
+    return target
+  }
+
+  if (rest.length === 0) {
+    if (overwrite || container[segment] === undefined)
+      container[segment] = value
+    return target
+  }
+
+  if (container[segment] === null || typeof container[segment] !== 'object')
+    container[segment] = rest[0] === '*' || /^\d+$/.test(rest[0]) ? [] : {}
+  dataSet(container[segment], rest, value, overwrite)
+  return target
+}
+
+/**
+ * Reads `key` from an item, following it as a dot path when it contains a
+ * dot and the item has no property by that exact name.
+ */
+export function valueAt(item: unknown, key: PropertyKey): any {
+  if (item === null || item === undefined)
+    return undefined
+  return isPath(item, key) ? dataGet(item, key) : (item as any)[key]
+}
+
+/**
+ * Copies the parts of `item` found at `paths` into a new object, nesting them
+ * as they are nested in the item. A `*` keeps every element of an array.
+ */
+export function pickPaths(item: unknown, paths: readonly PropertyKey[]): Record<PropertyKey, unknown> {
+  let result: Record<PropertyKey, unknown> = {}
+  for (const path of paths) {
+    const picked = isPath(item, path) ? pickPath(item, path.split('.')) : pickPath(item, [path])
+    if (picked !== undefined)
+      result = mergePicked(result, picked) as Record<PropertyKey, unknown>
+  }
+  return result
+}
+
+/**
+ * Copies `item` without the values at `paths`. Only the objects along a path
+ * are copied, so everything else is shared with the item.
+ */
+export function omitPaths<T>(item: T, paths: readonly PropertyKey[]): unknown {
+  return paths.reduce<unknown>(
+    (result, path) => isPath(result, path) ? omitPath(result, path.split('.')) : omitPath(result, [path]),
+    item,
+  )
+}
+
+/** Whether `key` has to be followed as a dot path rather than read as a property of `item`. */
+function isPath(item: unknown, key: PropertyKey): key is string {
+  return typeof key === 'string' && key.includes('.') && !(item !== null && typeof item === 'object' && key in item)
+}
+
+function pickPath(source: unknown, segments: readonly PropertyKey[]): unknown {
+  if (segments.length === 0)
+    return source
+  const [segment, ...rest] = segments
+  if (source === null || typeof source !== 'object')
+    return undefined
+  if (segment === '*') {
+    if (!Array.isArray(source))
+      return undefined
+    return source.map(element => pickPath(element, rest) ?? {})
+  }
+  if (!(segment in source))
+    return undefined
+  const picked = pickPath((source as any)[segment], rest)
+  return picked === undefined ? undefined : { [segment]: picked }
+}
+
+function mergePicked(target: unknown, picked: unknown): unknown {
+  if (Array.isArray(target) && Array.isArray(picked))
+    return picked.map((element, index) => mergePicked(target[index], element))
+  if (isPlainRecord(target) && isPlainRecord(picked)) {
+    const merged: Record<PropertyKey, unknown> = { ...target }
+    for (const key of Reflect.ownKeys(picked))
+      merged[key] = key in merged ? mergePicked(merged[key], picked[key]) : picked[key]
+    return merged
+  }
+  return picked
+}
+
+function omitPath(source: unknown, segments: readonly PropertyKey[]): unknown {
+  const [segment, ...rest] = segments
+  if (source === null || typeof source !== 'object' || segment === undefined)
+    return source
+  if (segment === '*') {
+    if (!Array.isArray(source))
+      return source
+    return rest.length === 0 ? [] : source.map(element => omitPath(element, rest))
+  }
+  if (!(segment in source))
+    return source
+  const copy: any = Array.isArray(source) ? [...source] : { ...source }
+  if (rest.length > 0)
+    copy[segment] = omitPath(copy[segment], rest)
+  else if (Array.isArray(copy))
+    copy.splice(Number(segment), 1)
+  else
+    delete copy[segment]
+  return copy
+}
+
+function isPlainRecord(value: unknown): value is Record<PropertyKey, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function childrenOf(value: unknown): unknown[] | undefined {
+  if (Array.isArray(value))
+    return value
+  if (value instanceof Map || value instanceof Set)
+    return [...value.values()]
+  if (value !== null && typeof value === 'object')
+    return Object.values(value)
+  return undefined
+}
@@ -0,0 +1,175 @@
+import type { CollectionOperations, PlaygroundOptions, PlaygroundResult } from './types'
+import process from 'node:process'
+import { createInterface } from 'node:readline'
+import { collect } from './collect'
+import { inlineValue, renderColumns } from './format'
+import { isCollection } from './utils'
+
+const helpText = [
+  'Type a chain of operations to apply it to the current result, e.g.',
+  '  .where(\'status\', \'active\').sortBy(\'total\')',
+  'Chains that end in a value, such as .sum(\'total\'), print it without changing the result.',
+  '',
+  'Commands:',
+  '  :next, :prev, :page <n>   move between pages (an empty line shows the next page)',
+  '  :undo                     drop the last chain',
+  '  :reset                    drop every chain',
+  '  :code                     print the pipeline as TypeScript',
+  '  :history                  list what you typed',
+  '  :help                     show this help',
+  '  :quit                     end the session (Ctrl+D works too)',
+].join('\n')
+
+/**
+ * Runs an interactive session on `source`: shows the current result as a
+ * paginated table, applies the chains of operations typed at the prompt and
+ * keeps the ones that return a collection as the pipeline. Resolves when the
+ * input ends or `:quit` is typed.
+ */
+export async function runPlayground<T>(source: CollectionOperations<T>, options: PlaygroundOptions = {}): Promise<PlaygroundResult> {
+  const { input = process.stdin, output = process.stdout, pageSize = 20, maxColumnWidth = 30, source: sourceCode = 'collect(items)' } = options
+  const rl = createInterface({ input, output, terminal: Boolean((output as { isTTY?: boolean }).isTTY), historySize: 1000 })
+  let closed = false
+  rl.on('close', () => {
+    closed = true
+  })
+  rl.on('SIGINT', () => rl.close())
+  const write = (text: string) => output.write(`${text}\n`)
+
+  const results: CollectionOperations<unknown>[] = [source as CollectionOperations<unknown>]
+  const steps: string[] = []
+  const history: string[] = []
+  let page = 0
+
+  const current = () => results[results.length - 1]
+  const show = () => write(renderTable(current().all(), { page, pageSize, maxColumnWidth }))
+
+  write('ts-collect playground. Type :help for commands.')
+  show()
+  rl.setPrompt('collect> ')
+  rl.prompt()
+
+  for await (const rawLine of rl) {
+    const line = rawLine.trim()
+    if (line)
+      history.push(line)
+    const pageCount = Math.max(1, Math.ceil(current().count() / pageSize))
+
+    if (line === ':quit' || line === ':q') {
+      break
+    }
+    else if (line === '' || line === ':next' || line === ':n') {
+      page = Math.min(page + 1, pageCount - 1)
+      show()
+    }
+    else if (line === ':prev' || line === ':p') {
+      page = Math.max(page - 1, 0)
+      show()
+    }
+    else if (line.startsWith(':page')) {
+      const requested = Number(line.slice(':page'.length).trim())
+      if (Number.isInteger(requested) && requested >= 1 && requested <= pageCount) {
+        page = requested - 1
+        show()
+      }
+      else {
+        write(`Pages run from 1 to ${pageCount}`)
+      }
+    }
+    else if (line === ':undo') {
+      if (steps.length > 0) {
+        steps.pop()
+        results.pop()
+        page = 0
+      }
+      show()
+    }
+    else if (line === ':reset') {
+      steps.length = 0
+      results.length = 1
+      page = 0
+      show()
+    }
+    else if (line === ':code') {
+      write(pipelineCode(sourceCode, steps))
+    }
+    else if (line === ':history') {
+      write(history.slice(0, -1).map((entry, i) => `${String(i + 1).padStart(4)}  ${entry}`).join('\n'))
+    }
+    else if (line === ':help') {
+      write(helpText)
+    }
+    else if (line.startsWith('.')) {
+      try {
+        const result = await applyChain(current(), line)
+        if (isCollection(result)) {
+          steps.push(line)
+          results.push(result as CollectionOperations<unknown>)
+          page = 0
+          show()
+        }
+        else {
+          write(inlineValue(result))
+        }
+      }
+      catch (error) {
+        write(`Error: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+    else {
+      write(`Unknown command ${line}. Chains start with a dot; type :help for commands.`)
+    }
+    // The input can end while typed lines are still waiting to be handled
+    if (!closed)
+      rl.prompt()
+  }
+
+  if (!closed)
+    rl.close()
+  return { collection: current(), steps: [...steps], code: pipelineCode(sourceCode, steps), history }
+}
+
+/**
+ * Renders a page of items as a column-aligned table. Objects get a column per
+ * key found on the page; anything else goes in a single `value` column.
+ * Numbers are right-aligned and long cells are cut at `maxColumnWidth`.
+ */
+export function renderTable(items: readonly unknown[], options: { page?: number, pageSize?: number, maxColumnWidth?: number } = {}): string {
+  const { page = 0, pageSize = 20, maxColumnWidth = 30 } = options
+  if (items.length === 0)
+    return '(no items)'
+
+  const first = page * pageSize
+  const rows = items.slice(first, first + pageSize)
+  const columns = rows.every(isRecord)
+    ? [...new Set(rows.flatMap(row => Object.keys(row as object)))].map(key => ({ header: key, values: rows.map(row => (row as Record<string, unknown>)[key]) }))
+    : [{ header: 'value', values: rows }]
+
+  const { lines } = renderColumns(columns, { maxColumnWidth, firstIndex: first, indexHeader: '#' })
+  const pageCount = Math.ceil(items.length / pageSize)
+  return [
+    ...lines,
+    `Rows ${first + 1}–${first + rows.length} of ${items.length} · page ${page + 1}/${pageCount}`,
+  ].join('\n')
+}
+
+/** Writes the pipeline as TypeScript, with each chain typed at the prompt on its own line. */
+export function pipelineCode(source: string, steps: readonly string[]): string {
+  return [
+    'import { collect } from \'ts-collect\'',
+    '',
+    `const result = ${source}`,
+    ...steps.map(step => `  ${step}`),
+  ].join('\n')
+}
+
+/** Evaluates a chain such as `.where('status', 'active')` on `collection`; `collect` is in scope too. */
+async function applyChain(collection: CollectionOperations<unknown>, chain: string): Promise<unknown> {
+  // eslint-disable-next-line no-new-func
+  const evaluate = new Function('collection', 'collect', `return collection${chain}`) as (_collection: CollectionOperations<unknown>, _collect: typeof collect) => unknown
+  return await evaluate(collection, collect)
+}
+
+function isRecord(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
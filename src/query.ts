@@ -0,0 +1,983 @@
+import { compareValues } from './sort'
+
+/**
+ * Raised when a `query()` string cannot be tokenized or parsed. The line and
+ * column point at the offending token (both 1-based).
+ */
+export class QuerySyntaxError extends SyntaxError {
+  readonly line: number
+  readonly column: number
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`)
+    this.name = 'QuerySyntaxError'
+    this.line = line
+    this.column = column
+  }
+}
+
+type TokenType = 'identifier' | 'keyword' | 'number' | 'string' | 'operator' | 'param' | 'named' | 'eof'
+
+interface Token {
+  type: TokenType
+  value: string
+  line: number
+  column: number
+  start: number
+  end: number
+  /** Set on identifiers written in double quotes, which must name a column. */
+  quoted?: boolean
+}
+
+type Expression =
+  | { kind: 'literal', value: unknown }
+  | { kind: 'param', index: number }
+  | { kind: 'column', path: string[] }
+  | { kind: 'unary', op: 'NOT' | '-', operand: Expression }
+  | { kind: 'binary', op: string, left: Expression, right: Expression }
+  | { kind: 'in', operand: Expression, list: Expression[], negated: boolean }
+  | { kind: 'like', operand: Expression, pattern: Expression, negated: boolean }
+  | { kind: 'between', operand: Expression, low: Expression, high: Expression, negated: boolean }
+  | { kind: 'isNull', operand: Expression, negated: boolean }
+  | { kind: 'call', name: string, args: Expression[], star: boolean, distinct: boolean }
+
+type SelectItem =
+  | { kind: 'star' }
+  | { kind: 'expr', expr: Expression, name: string }
+
+interface OrderItem {
+  expr: Expression
+  direction: 'asc' | 'desc'
+  nulls?: 'first' | 'last'
+}
+
+interface ParsedQuery {
+  distinct: boolean
+  columns: SelectItem[]
+  qualifiers: Set<string>
+  where?: Expression
+  groupBy: Expression[]
+  having?: Expression
+  orderBy: OrderItem[]
+  limit?: Expression
+  offset?: Expression
+  paramCount: number
+  /** Columns written in double quotes, checked against the rows so a mistyped string isn't read as a missing column. */
+  quotedColumns: Array<{ path: string[], token: Token }>
+}
+
+interface Scope {
+  row: any
+  group?: any[]
+  output?: Map<string, unknown>
+}
+
+const KEYWORDS = new Set([
+  'SELECT',
+  'DISTINCT',
+  'FROM',
+  'AS',
+  'WHERE',
+  'GROUP',
+  'BY',
+  'HAVING',
+  'ORDER',
+  'ASC',
+  'DESC',
+  'LIMIT',
+  'OFFSET',
+  'AND',
+  'OR',
+  'NOT',
+  'IN',
+  'LIKE',
+  'BETWEEN',
+  'IS',
+  'NULL',
+  'TRUE',
+  'FALSE',
+])
+
+const AGGREGATES = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'])
+
+const SCALARS: Record<string, (...args: any[]) => unknown> = {
+  UPPER: (value: unknown) => value == null ? null : String(value).toUpperCase(),
+  LOWER: (value: unknown) => value == null ? null : String(value).toLowerCase(),
+  LENGTH: (value: unknown) => value == null ? null : String(value).length,
+  ABS: (value: unknown) => value == null ? null : Math.abs(Number(value)),
+  ROUND: (value: unknown, precision: unknown = 0) => {
+    if (value == null)
+      return null
+    const multiplier = 10 ** Number(precision)
+    return Math.round(Number(value) * multiplier) / multiplier
+  },
+  COALESCE: (...values: unknown[]) => values.find(value => value != null) ?? null,
+}
+
+// Longest operators first so `!==` is not read as `!=` followed by `=`
+const OPERATORS = ['===', '!==', '==', '!=', '<>', '<=', '>=', '&&', '||', '=', '<', '>', '+', '-', '*', '/', '%', '(', ')', ',', '.', ';', '!']
+
+/**
+ * Splits a query string into tokens, tracking line and column positions.
+ */
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+  let line = 1
+  let lineStart = 0
+
+  function fail(message: string, at: number): never {
+    throw new QuerySyntaxError(message, line, at - lineStart + 1)
+  }
+
+  function push(type: TokenType, value: string, start: number): void {
+    tokens.push({ type, value, line, column: start - lineStart + 1, start, end: pos })
+  }
+
+  while (pos < sql.length) {
+    const ch = sql[pos]
+
+    if (ch === '\n') {
+      pos++
+      line++
+      lineStart = pos
+      continue
+    }
+
+    if (/\s/.test(ch)) {
+      pos++
+      continue
+    }
+
+    if (ch === '-' && sql[pos + 1] === '-') {
+      while (pos < sql.length && sql[pos] !== '\n')
+        pos++
+      continue
+    }
+
+    const start = pos
+
+    if (/[A-Z_]/i.test(ch)) {
+      while (pos < sql.length && /\w/.test(sql[pos]))
+        pos++
+      const word = sql.slice(start, pos)
+      const upper = word.toUpperCase()
+      push(KEYWORDS.has(upper) ? 'keyword' : 'identifier', KEYWORDS.has(upper) ? upper : word, start)
+      continue
+    }
+
+    if (/\d/.test(ch) || (ch === '.' && /\d/.test(sql[pos + 1] ?? ''))) {
+      const match = /^(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?/i.exec(sql.slice(pos))!
+      pos += match[0].length
+      push('number', match[0], start)
+      continue
+    }
+
+    if (ch === '\'') {
+      const startLine = line
+      const startColumn = start - lineStart + 1
+      let value = ''
+      pos++
+      while (true) {
+        if (pos >= sql.length)
+          throw new QuerySyntaxError('Unterminated string literal', startLine, startColumn)
+        if (sql[pos] === '\'') {
+          if (sql[pos + 1] === '\'') {
+            value += '\''
+            pos += 2
+            continue
+          }
+          pos++
+          break
+        }
+        if (sql[pos] === '\n') {
+          line++
+          lineStart = pos + 1
+        }
+        value += sql[pos++]
+      }
+      tokens.push({ type: 'string', value, line: startLine, column: startColumn, start, end: pos })
+      continue
+    }
+
+    if (ch === '"' || ch === '`') {
+      const end = sql.indexOf(ch, pos + 1)
+      if (end === -1)
+        fail('Unterminated quoted identifier', start)
+      pos = end + 1
+      push('identifier', sql.slice(start + 1, end), start)
+      if (ch === '"')
+        tokens[tokens.length - 1].quoted = true
+      continue
+    }
+
+    if (ch === '?') {
+      pos++
+      push('param', '?', start)
+      continue
+    }
+
+    if (ch === '$' && sql[pos + 1] === '{') {
+      const end = sql.indexOf('}', pos)
+      if (end === -1)
+        fail('Unterminated ${...} placeholder', start)
+      pos = end + 1
+      push('named', sql.slice(start + 2, end).trim(), start)
+      continue
+    }
+
+    const operator = OPERATORS.find(op => sql.startsWith(op, pos))
+    if (!operator)
+      fail(`Unexpected character '${ch}'`, start)
+
+    pos += operator.length
+    push('operator', operator, start)
+  }
+
+  tokens.push({ type: 'eof', value: '', line, column: pos - lineStart + 1, start: pos, end: pos })
+  return tokens
+}
+
+/**
+ * Parses a SQL `SELECT` statement (or a bare `WHERE ...` fragment) into an AST.
+ */
+function parseQuery(sql: string): ParsedQuery {
+  const tokens = tokenize(sql)
+  let current = 0
+  let paramCount = 0
+  const quotedColumns: ParsedQuery['quotedColumns'] = []
+
+  function peek(offset = 0): Token {
+    return tokens[Math.min(current + offset, tokens.length - 1)]
+  }
+
+  function fail(message: string, token: Token = peek()): never {
+    throw new QuerySyntaxError(message, token.line, token.column)
+  }
+
+  function describe(token: Token): string {
+    return token.type === 'eof' ? 'end of query' : `'${sql.slice(token.start, token.end)}'`
+  }
+
+  function isKeyword(...words: string[]): boolean {
+    const token = peek()
+    return token.type === 'keyword' && words.includes(token.value)
+  }
+
+  function isOperator(...ops: string[]): boolean {
+    const token = peek()
+    return token.type === 'operator' && ops.includes(token.value)
+  }
+
+  function isContextual(word: string): boolean {
+    const token = peek()
+    return token.type === 'identifier' && token.value.toUpperCase() === word
+  }
+
+  function expectKeyword(word: string): Token {
+    if (!isKeyword(word))
+      fail(`Expected ${word} but found ${describe(peek())}`)
+    return tokens[current++]
+  }
+
+  function expectOperator(op: string): Token {
+    if (!isOperator(op))
+      fail(`Expected '${op}' but found ${describe(peek())}`)
+    return tokens[current++]
+  }
+
+  function expectIdentifier(): string {
+    const token = peek()
+    if (token.type !== 'identifier')
+      fail(`Expected identifier but found ${describe(token)}`)
+    current++
+    return token.value
+  }
+
+  function parseExpression(): Expression {
+    return parseOr()
+  }
+
+  function parseOr(): Expression {
+    let left = parseAnd()
+    while (isKeyword('OR') || isOperator('||')) {
+      current++
+      left = { kind: 'binary', op: 'OR', left, right: parseAnd() }
+    }
+    return left
+  }
+
+  function parseAnd(): Expression {
+    let left = parseNot()
+    while (isKeyword('AND') || isOperator('&&')) {
+      current++
+      left = { kind: 'binary', op: 'AND', left, right: parseNot() }
+    }
+    return left
+  }
+
+  function parseNot(): Expression {
+    if (isKeyword('NOT') || isOperator('!')) {
+      current++
+      return { kind: 'unary', op: 'NOT', operand: parseNot() }
+    }
+    return parseComparison()
+  }
+
+  function parseComparison(): Expression {
+    const left = parseAdditive()
+
+    if (isOperator('=', '==', '===', '!=', '!==', '<>', '<', '<=', '>', '>=')) {
+      const raw = tokens[current++].value
+      const op = raw === '==' || raw === '===' ? '=' : raw === '!==' || raw === '<>' ? '!=' : raw
+      return { kind: 'binary', op, left, right: parseAdditive() }
+    }
+
+    if (isKeyword('IS')) {
+      current++
+      const negated = isKeyword('NOT')
+      if (negated)
+        current++
+      expectKeyword('NULL')
+      return { kind: 'isNull', operand: left, negated }
+    }
+
+    const negated = isKeyword('NOT') && peek(1).type === 'keyword' && ['IN', 'LIKE', 'BETWEEN'].includes(peek(1).value)
+    if (negated)
+      current++
+
+    if (isKeyword('IN')) {
+      current++
+      expectOperator('(')
+      const list = [parseExpression()]
+      while (isOperator(',')) {
+        current++
+        list.push(parseExpression())
+      }
+      expectOperator(')')
+      return { kind: 'in', operand: left, list, negated }
+    }
+
+    if (isKeyword('LIKE')) {
+      current++
+      return { kind: 'like', operand: left, pattern: parseAdditive(), negated }
+    }
+
+    if (isKeyword('BETWEEN')) {
+      current++
+      const low = parseAdditive()
+      expectKeyword('AND')
+      return { kind: 'between', operand: left, low, high: parseAdditive(), negated }
+    }
+
+    return left
+  }
+
+  function parseAdditive(): Expression {
+    let left = parseMultiplicative()
+    while (isOperator('+', '-')) {
+      const op = tokens[current++].value
+      left = { kind: 'binary', op, left, right: parseMultiplicative() }
+    }
+    return left
+  }
+
+  function parseMultiplicative(): Expression {
+    let left = parseUnary()
+    while (isOperator('*', '/', '%')) {
+      const op = tokens[current++].value
+      left = { kind: 'binary', op, left, right: parseUnary() }
+    }
+    return left
+  }
+
+  function parseUnary(): Expression {
+    if (isOperator('-')) {
+      current++
+      return { kind: 'unary', op: '-', operand: parseUnary() }
+    }
+    if (isOperator('+')) {
+      current++
+      return parseUnary()
+    }
+    return parsePrimary()
+  }
+
+  function parsePrimary(): Expression {
+    const token = peek()
+
+    switch (token.type) {
+      case 'number':
+        current++
+        return { kind: 'literal', value: Number(token.value) }
+      case 'string':
+        current++
+        return { kind: 'literal', value: token.value }
+      case 'param':
+        current++
+        return { kind: 'param', index: paramCount++ }
+      case 'named':
+        current++
+        return { kind: 'column', path: token.value.split('.') }
+      case 'keyword':
+        if (token.value === 'NULL' || token.value === 'TRUE' || token.value === 'FALSE') {
+          current++
+          return { kind: 'literal', value: token.value === 'NULL' ? null : token.value === 'TRUE' }
+        }
+        break
+      case 'operator':
+        if (token.value === '(') {
+          current++
+          const expr = parseExpression()
+          expectOperator(')')
+          return expr
+        }
+        break
+      case 'identifier': {
+        current++
+        if (isOperator('('))
+          return parseCall(token)
+
+        const path = [token.value]
+        while (isOperator('.')) {
+          current++
+          path.push(expectIdentifier())
+        }
+        if (token.quoted)
+          quotedColumns.push({ path, token })
+        return { kind: 'column', path }
+      }
+    }
+
+    fail(`Unexpected ${describe(token)}`, token)
+  }
+
+  function parseCall(nameToken: Token): Expression {
+    const name = nameToken.value.toUpperCase()
+    const aggregate = AGGREGATES.has(name)
+    if (!aggregate && !(name in SCALARS))
+      fail(`Unknown function '${nameToken.value}'`, nameToken)
+
+    expectOperator('(')
+
+    if (aggregate && isOperator('*')) {
+      if (name !== 'COUNT')
+        fail(`${name}(*) is not supported`)
+      current++
+      expectOperator(')')
+      return { kind: 'call', name, args: [], star: true, distinct: false }
+    }
+
+    const distinct = aggregate && isKeyword('DISTINCT')
+    if (distinct)
+      current++
+
+    const args: Expression[] = []
+    if (!isOperator(')')) {
+      args.push(parseExpression())
+      while (isOperator(',')) {
+        current++
+        args.push(parseExpression())
+      }
+    }
+    expectOperator(')')
+
+    if (aggregate && args.length !== 1)
+      fail(`${name}() expects exactly one argument`, nameToken)
+
+    return { kind: 'call', name, args, star: false, distinct }
+  }
+
+  function parseSelectItem(): SelectItem {
+    if (isOperator('*')) {
+      current++
+      return { kind: 'star' }
+    }
+
+    const first = peek()
+    const expr = parseExpression()
+    const last = tokens[current - 1]
+
+    let name: string
+    if (isKeyword('AS')) {
+      current++
+      name = expectIdentifier()
+    }
+    else if (peek().type === 'identifier') {
+      name = expectIdentifier()
+    }
+    else {
+      name = expr.kind === 'column'
+        ? expr.path[expr.path.length - 1]
+        : sql.slice(first.start, last.end)
+    }
+
+    return { kind: 'expr', expr, name }
+  }
+
+  function parseOrderItem(): OrderItem {
+    const expr = parseExpression()
+    let direction: 'asc' | 'desc' = 'asc'
+    if (isKeyword('ASC', 'DESC'))
+      direction = tokens[current++].value === 'DESC' ? 'desc' : 'asc'
+
+    let nulls: 'first' | 'last' | undefined
+    if (isContextual('NULLS')) {
+      current++
+      if (isContextual('FIRST'))
+        nulls = 'first'
+      else if (isContextual('LAST'))
+        nulls = 'last'
+      else
+        fail(`Expected FIRST or LAST but found ${describe(peek())}`)
+      current++
+    }
+
+    return { expr, direction, nulls }
+  }
+
+  function assertNoAggregate(expr: Expression, clause: Token): void {
+    if (containsAggregate(expr))
+      fail(`Aggregate functions are not allowed in ${clause.value}`, clause)
+  }
+
+  const query: ParsedQuery = {
+    distinct: false,
+    columns: [{ kind: 'star' }],
+    qualifiers: new Set(['item', 'self']),
+    groupBy: [],
+    orderBy: [],
+    paramCount: 0,
+    quotedColumns,
+  }
+
+  if (isKeyword('SELECT')) {
+    current++
+    if (isKeyword('DISTINCT')) {
+      current++
+      query.distinct = true
+    }
+
+    query.columns = [parseSelectItem()]
+    while (isOperator(',')) {
+      current++
+      query.columns.push(parseSelectItem())
+    }
+
+    if (isKeyword('FROM')) {
+      current++
+      query.qualifiers.add(expectIdentifier())
+      if (isKeyword('AS'))
+        current++
+      if (peek().type === 'identifier')
+        query.qualifiers.add(expectIdentifier())
+    }
+  }
+
+  if (isKeyword('WHERE')) {
+    const clause = tokens[current++]
+    query.where = parseExpression()
+    assertNoAggregate(query.where, clause)
+  }
+
+  if (isKeyword('GROUP')) {
+    const clause = tokens[current++]
+    expectKeyword('BY')
+    query.groupBy.push(parseExpression())
+    while (isOperator(',')) {
+      current++
+      query.groupBy.push(parseExpression())
+    }
+    query.groupBy.forEach(expr => assertNoAggregate(expr, clause))
+  }
+
+  if (isKeyword('HAVING')) {
+    current++
+    query.having = parseExpression()
+  }
+
+  if (isKeyword('ORDER')) {
+    current++
+    expectKeyword('BY')
+    query.orderBy.push(parseOrderItem())
+    while (isOperator(',')) {
+      current++
+      query.orderBy.push(parseOrderItem())
+    }
+  }
+
+  if (isKeyword('LIMIT')) {
+    current++
+    const first = parsePrimary()
+    if (isOperator(',')) {
+      // MySQL-style `LIMIT offset, count`
+      current++
+      query.offset = first
+      query.limit = parsePrimary()
+    }
+    else {
+      query.limit = first
+    }
+  }
+
+  if (isKeyword('OFFSET')) {
+    current++
+    query.offset = parsePrimary()
+  }
+
+  while (isOperator(';'))
+    current++
+
+  if (peek().type !== 'eof')
+    fail(`Unexpected ${describe(peek())}`)
+
+  query.paramCount = paramCount
+  return query
+}
+
+function containsAggregate(expr: Expression): boolean {
+  switch (expr.kind) {
+    case 'call':
+      return AGGREGATES.has(expr.name) || expr.args.some(containsAggregate)
+    case 'unary':
+      return containsAggregate(expr.operand)
+    case 'binary':
+      return containsAggregate(expr.left) || containsAggregate(expr.right)
+    case 'in':
+      return containsAggregate(expr.operand) || expr.list.some(containsAggregate)
+    case 'like':
+      return containsAggregate(expr.operand) || containsAggregate(expr.pattern)
+    case 'between':
+      return containsAggregate(expr.operand) || containsAggregate(expr.low) || containsAggregate(expr.high)
+    case 'isNull':
+      return containsAggregate(expr.operand)
+    default:
+      return false
+  }
+}
+
+function toComparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number')
+    return value
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value)))
+    return Number(value)
+  return undefined
+}
+
+/**
+ * Orders two non-null values for both comparisons and `ORDER BY` as
+ * `compareValues()` does, except that numeric strings compare numerically.
+ * Both sides are always coerced the same way, so `30` and `'30'` compare alike
+ * against any operand.
+ */
+function compareOperands(a: unknown, b: unknown): number {
+  const leftNumber = toNumber(toComparable(a))
+  const rightNumber = toNumber(toComparable(b))
+  if (leftNumber !== undefined && rightNumber !== undefined)
+    return leftNumber - rightNumber
+  return compareValues(a, b)
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, ch => `\\${ch}`)
+    .replace(/%/g, '.*')
+    .replace(/_/g, '.')
+  return new RegExp(`^${source}$`, 'is')
+}
+
+/**
+ * Rejects double-quoted names that no row has and no select alias gives, as
+ * they are most likely strings written with the wrong quotes. Without rows
+ * there is nothing to check against.
+ */
+function assertQuotedColumns(query: ParsedQuery, rows: readonly unknown[]): void {
+  if (rows.length === 0)
+    return
+  const aliases = new Set(query.columns.map(item => item.kind === 'expr' ? item.name : undefined))
+  for (const { path, token } of query.quotedColumns) {
+    const name = path.length > 1 && query.qualifiers.has(path[0]) ? path[1] : path[0]
+    const known = aliases.has(name) || rows.some(row => row !== null && typeof row === 'object' && name in row)
+    if (!known)
+      throw new QuerySyntaxError(`Unknown column "${name}"; write strings in single quotes`, token.line, token.column)
+  }
+}
+
+/**
+ * Evaluates a parsed query against a list of rows. `SELECT *` queries without
+ * grouping return the original row references.
+ */
+function executeParsedQuery(query: ParsedQuery, rows: readonly unknown[], params: readonly unknown[]): unknown[] {
+  if (params.length < query.paramCount)
+    throw new RangeError(`Query expects ${query.paramCount} parameter(s) but received ${params.length}`)
+  assertQuotedColumns(query, rows)
+
+  function resolve(row: any, path: string[]): unknown {
+    const segments = path.length > 1 && query.qualifiers.has(path[0]) ? path.slice(1) : path
+    let value = row
+    for (const segment of segments) {
+      if (value == null)
+        return undefined
+      value = value[segment]
+    }
+    return value
+  }
+
+  function aggregate(expr: Extract<Expression, { kind: 'call' }>, scope: Scope): unknown {
+    const group = scope.group ?? [scope.row]
+    if (expr.star)
+      return group.length
+
+    let values = group
+      .map(row => evaluate(expr.args[0], { row }))
+      .filter(value => value != null)
+    if (expr.distinct) {
+      const seen = new Set<unknown>()
+      values = values.filter((value) => {
+        const key = toComparable(value)
+        if (seen.has(key))
+          return false
+        seen.add(key)
+        return true
+      })
+    }
+
+    switch (expr.name) {
+      case 'COUNT':
+        return values.length
+      case 'SUM':
+        return values.length ? values.reduce((sum: number, value) => sum + Number(value), 0) : null
+      case 'AVG':
+        return values.length ? values.reduce((sum: number, value) => sum + Number(value), 0) / values.length : null
+      case 'MIN':
+        return values.length ? values.reduce((min, value) => compareOperands(value, min) < 0 ? value : min) : null
+      default:
+        return values.length ? values.reduce((max, value) => compareOperands(value, max) > 0 ? value : max) : null
+    }
+  }
+
+  function evaluate(expr: Expression, scope: Scope): unknown {
+    switch (expr.kind) {
+      case 'literal':
+        return expr.value
+      case 'param':
+        return params[expr.index]
+      case 'column':
+        if (expr.path.length === 1 && scope.output?.has(expr.path[0]))
+          return scope.output.get(expr.path[0])
+        return resolve(scope.row, expr.path)
+      case 'call':
+        if (AGGREGATES.has(expr.name))
+          return aggregate(expr, scope)
+        return SCALARS[expr.name](...expr.args.map(arg => evaluate(arg, scope)))
+      case 'unary': {
+        const operand = evaluate(expr.operand, scope)
+        if (operand == null)
+          return null
+        return expr.op === 'NOT' ? !operand : -Number(operand)
+      }
+      case 'isNull': {
+        const isNull = evaluate(expr.operand, scope) == null
+        return expr.negated ? !isNull : isNull
+      }
+      case 'in': {
+        const operand = evaluate(expr.operand, scope)
+        if (operand == null)
+          return null
+        const values = expr.list.map(item => evaluate(item, scope))
+        const found = values.some(value => value != null && compareOperands(operand, value) === 0)
+        if (found)
+          return !expr.negated
+        return values.some(value => value == null) ? null : expr.negated
+      }
+      case 'like': {
+        const operand = evaluate(expr.operand, scope)
+        const pattern = evaluate(expr.pattern, scope)
+        if (operand == null || pattern == null)
+          return null
+        const matches = likeToRegExp(String(pattern)).test(String(operand))
+        return expr.negated ? !matches : matches
+      }
+      case 'between': {
+        const operand = evaluate(expr.operand, scope)
+        const low = evaluate(expr.low, scope)
+        const high = evaluate(expr.high, scope)
+        if (operand == null || low == null || high == null)
+          return null
+        const within = compareOperands(operand, low) >= 0 && compareOperands(operand, high) <= 0
+        return expr.negated ? !within : within
+      }
+      case 'binary':
+        return evaluateBinary(expr, scope)
+    }
+  }
+
+  function evaluateBinary(expr: Extract<Expression, { kind: 'binary' }>, scope: Scope): unknown {
+    if (expr.op === 'AND') {
+      const left = evaluate(expr.left, scope)
+      if (left === false)
+        return false
+      const right = evaluate(expr.right, scope)
+      if (right === false)
+        return false
+      return left == null || right == null ? null : Boolean(left) && Boolean(right)
+    }
+
+    if (expr.op === 'OR') {
+      const left = evaluate(expr.left, scope)
+      if (left != null && Boolean(left))
+        return true
+      const right = evaluate(expr.right, scope)
+      if (right != null && Boolean(right))
+        return true
+      return left == null || right == null ? null : false
+    }
+
+    const left = evaluate(expr.left, scope)
+    const right = evaluate(expr.right, scope)
+    if (left == null || right == null)
+      return null
+
+    switch (expr.op) {
+      case '=': return compareOperands(left, right) === 0
+      case '!=': return compareOperands(left, right) !== 0
+      case '<': return compareOperands(left, right) < 0
+      case '<=': return compareOperands(left, right) <= 0
+      case '>': return compareOperands(left, right) > 0
+      case '>=': return compareOperands(left, right) >= 0
+      case '+': return Number(left) + Number(right)
+      case '-': return Number(left) - Number(right)
+      case '*': return Number(left) * Number(right)
+      case '/': return Number(left) / Number(right)
+      default: return Number(left) % Number(right)
+    }
+  }
+
+  const grouped = query.groupBy.length > 0
+    || query.having !== undefined
+    || query.columns.some(column => column.kind === 'expr' && containsAggregate(column.expr))
+
+  const filtered = query.where
+    ? rows.filter(row => evaluate(query.where!, { row }) === true)
+    : [...rows]
+
+  // Every result row carries the scope it was computed in so that HAVING and
+  // ORDER BY can see both the source columns and the select-list aliases.
+  let records: Array<{ scope: Scope, value: unknown }>
+
+  if (grouped) {
+    const groups = new Map<string, any[]>()
+    if (query.groupBy.length === 0)
+      groups.set('', filtered)
+
+    for (const row of query.groupBy.length > 0 ? filtered : []) {
+      const key = query.groupBy
+        .map((expr) => {
+          const value = evaluate(expr, { row })
+          return value instanceof Date ? `date:${value.getTime()}` : `${typeof value}:${String(value)}`
+        })
+        .join('\u0000')
+      if (!groups.has(key))
+        groups.set(key, [])
+      groups.get(key)!.push(row)
+    }
+
+    records = Array.from(groups.values(), group => project({ row: group[0] ?? {}, group }))
+  }
+  else {
+    records = filtered.map(row => project({ row }))
+  }
+
+  function project(scope: Scope): { scope: Scope, value: unknown } {
+    const onlyStar = query.columns.every(column => column.kind === 'star')
+    if (onlyStar && !scope.group)
+      return { scope, value: scope.row }
+
+    const output = new Map<string, unknown>()
+    const value: Record<string, unknown> = {}
+    for (const column of query.columns) {
+      if (column.kind === 'star') {
+        Object.assign(value, scope.row)
+        continue
+      }
+      const result = evaluate(column.expr, scope)
+      output.set(column.name, result)
+      value[column.name] = result
+    }
+    return { scope: { ...scope, output }, value }
+  }
+
+  if (query.having)
+    records = records.filter(record => evaluate(query.having!, record.scope) === true)
+
+  if (query.orderBy.length > 0) {
+    const resolvedOrder = query.orderBy.map((order) => {
+      // `ORDER BY 2` refers to the second select-list entry
+      if (order.expr.kind === 'literal' && typeof order.expr.value === 'number') {
+        const column = query.columns[order.expr.value - 1]
+        if (column?.kind === 'expr')
+          return { ...order, expr: { kind: 'column', path: [column.name] } as Expression }
+      }
+      return order
+    })
+
+    const keyed = records.map(record => ({
+      record,
+      keys: resolvedOrder.map(order => evaluate(order.expr, record.scope)),
+    }))
+
+    keyed.sort((a, b) => {
+      for (let i = 0; i < resolvedOrder.length; i++) {
+        const { direction, nulls } = resolvedOrder[i]
+        const left = a.keys[i]
+        const right = b.keys[i]
+        if (left == null || right == null) {
+          if (left == null && right == null)
+            continue
+          // Nulls sort as the smallest value unless NULLS FIRST/LAST says otherwise
+          const nullsFirst = nulls ? nulls === 'first' : direction === 'asc'
+          return (left == null) === nullsFirst ? -1 : 1
+        }
+        const comparison = compareOperands(left, right)
+        if (comparison !== 0)
+          return direction === 'asc' ? comparison : -comparison
+      }
+      return 0
+    })
+
+    records = keyed.map(({ record }) => record)
+  }
+
+  let results = records.map(record => record.value)
+
+  if (query.distinct) {
+    const seen = new Set<string>()
+    results = results.filter((value) => {
+      const key = JSON.stringify(value)
+      if (seen.has(key))
+        return false
+      seen.add(key)
+      return true
+    })
+  }
+
+  const offset = query.offset ? Number(evaluate(query.offset, { row: {} })) : 0
+  const limit = query.limit ? Number(evaluate(query.limit, { row: {} })) : undefined
+  if (Number.isNaN(offset) || (limit !== undefined && Number.isNaN(limit)))
+    throw new RangeError('LIMIT and OFFSET must be numeric')
+
+  return results.slice(offset, limit === undefined ? undefined : offset + limit)
+}
+
+/**
+ * Runs a SQL query against a list of rows. Supports `SELECT [DISTINCT]` with
+ * expressions and aliases, `FROM`, `WHERE`, `GROUP BY`, `HAVING`, `ORDER BY`
+ * and `LIMIT`/`OFFSET`; the `SELECT ... FROM` part may be omitted.
+ */
+export function executeQuery(rows: readonly unknown[], sql: string, params: readonly unknown[] = []): unknown[] {
+  return executeParsedQuery(parseQuery(sql), rows, params)
+}
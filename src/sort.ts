@@ -0,0 +1,154 @@
+import type { SortKey, SortOptions } from './types'
+import { valueAt } from './path'
+
+/** An item with its sort values read once up front, and its position to break ties with. */
+interface SortEntry<T> {
+  item: T
+  values: unknown[]
+  position: number
+}
+
+type EntryComparator<T> = (_a: SortEntry<T>, _b: SortEntry<T>) => number
+
+const defaultCollator = new Intl.Collator()
+
+/**
+ * Sorts `items` by each of `keys` in turn. Numbers compare numerically, dates
+ * chronologically and everything else as strings through an `Intl.Collator`
+ * built from `options`. Items that compare equal keep their order.
+ */
+export function sortItems<T>(items: readonly T[], keys: readonly SortKey<T>[], options: SortOptions = {}): T[] {
+  const compare = entryComparator(keys, options)
+  return items.map((item, position) => toEntry(item, position, keys)).sort(compare).map(entry => entry.item)
+}
+
+/**
+ * Keeps the `n` items that sort first by `keys`, in sorted order, without
+ * sorting everything. Offered items go through a heap of at most `n` entries
+ * whose root is the entry that would be dropped next.
+ */
+export function createTopK<T>(n: number, keys: readonly SortKey<T>[], options: SortOptions = {}): { offer: (item: T) => void, result: () => T[] } {
+  const compare = entryComparator(keys, options)
+  const limit = Math.max(0, Math.floor(n))
+  const heap: SortEntry<T>[] = []
+  let position = 0
+
+  // The heap is ordered last-first, so its root is the worst entry kept
+  const after = (i: number, j: number) => compare(heap[i], heap[j]) > 0
+  const swap = (i: number, j: number) => {
+    [heap[i], heap[j]] = [heap[j], heap[i]]
+  }
+
+  function siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (!after(index, parent))
+        return
+      swap(index, parent)
+      index = parent
+    }
+  }
+
+  function siftDown(index: number): void {
+    while (true) {
+      const left = index * 2 + 1
+      const right = left + 1
+      let largest = index
+      if (left < heap.length && after(left, largest))
+        largest = left
+      if (right < heap.length && after(right, largest))
+        largest = right
+      if (largest === index)
+        return
+      swap(index, largest)
+      index = largest
+    }
+  }
+
+  return {
+    offer(item) {
+      if (limit === 0)
+        return
+      const entry = toEntry(item, position++, keys)
+      if (heap.length < limit) {
+        heap.push(entry)
+        siftUp(heap.length - 1)
+      }
+      else if (compare(entry, heap[0]) < 0) {
+        heap[0] = entry
+        siftDown(0)
+      }
+    },
+    result: () => [...heap].sort(compare).map(entry => entry.item),
+  }
+}
+
+/** Turns a key, a key function or a list of sort keys into sort keys; with none, items sort by themselves. */
+export function toSortKeys<T>(by: unknown, direction: 'asc' | 'desc' = 'asc'): SortKey<T>[] {
+  if (Array.isArray(by))
+    return by
+  if (by === undefined)
+    return [{ key: (item: T) => item, direction }]
+  return [{ key: by as SortKey<T>['key'], direction }]
+}
+
+function toEntry<T>(item: T, position: number, keys: readonly SortKey<T>[]): SortEntry<T> {
+  const values = keys.map(({ key }) => typeof key === 'function' ? key(item) : valueAt(item, key))
+  return { item, values, position }
+}
+
+function entryComparator<T>(keys: readonly SortKey<T>[], options: SortOptions): EntryComparator<T> {
+  const { locale, ...collatorOptions } = options
+  const collator = new Intl.Collator(locale, collatorOptions)
+
+  return (a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const { direction = 'asc', nulls } = keys[i]
+      const left = a.values[i]
+      const right = b.values[i]
+      const leftMissing = left === null || left === undefined
+      const rightMissing = right === null || right === undefined
+      if (leftMissing || rightMissing) {
+        if (leftMissing && rightMissing)
+          continue
+        // Missing values are the smallest unless `nulls` pins them to one end
+        const missingFirst = nulls ? nulls === 'first' : direction === 'asc'
+        return leftMissing === missingFirst ? -1 : 1
+      }
+      const comparison = compareValues(left, right, collator)
+      if (comparison !== 0)
+        return direction === 'desc' ? -comparison : comparison
+    }
+    return a.position - b.position
+  }
+}
+
+/**
+ * Orders two values for every operation that sorts or ranks them: `null` and
+ * `undefined` first, numbers and dates numerically with `NaN` last, bigints
+ * and booleans by value, arrays element by element and anything else as
+ * strings through `collator`.
+ */
+export function compareValues(a: unknown, b: unknown, collator: Intl.Collator = defaultCollator): number {
+  const left = a instanceof Date ? a.getTime() : a
+  const right = b instanceof Date ? b.getTime() : b
+  const leftMissing = left === null || left === undefined
+  const rightMissing = right === null || right === undefined
+  if (leftMissing || rightMissing)
+    return Number(rightMissing) - Number(leftMissing)
+  if (Array.isArray(left) && Array.isArray(right)) {
+    for (let i = 0; i < Math.min(left.length, right.length); i++) {
+      const comparison = compareValues(left[i], right[i], collator)
+      if (comparison !== 0)
+        return comparison
+    }
+    return left.length - right.length
+  }
+  if (typeof left === 'number' && typeof right === 'number')
+    return Number.isNaN(left) || Number.isNaN(right) ? Number(Number.isNaN(left)) - Number(Number.isNaN(right)) : left - right
+  if (typeof left === 'bigint' && typeof right === 'bigint')
+    return left < right ? -1 : left > right ? 1 : 0
+  if (typeof left === 'boolean' && typeof right === 'boolean')
+    return Number(left) - Number(right)
+  return collator.compare(String(left), String(right))
+}
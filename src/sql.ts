@@ -0,0 +1,254 @@
+import type { SQLDialect, SQLExportOptions } from './types'
+
+type ColumnKind = 'boolean' | 'integer' | 'bigint' | 'float' | 'text' | 'date' | 'json' | 'binary'
+
+export interface ColumnInfo {
+  name: string
+  kind: ColumnKind
+  /** Longest string value, so MySQL and SQL Server can pick a bounded type. */
+  length: number
+  nullable: boolean
+}
+
+const columnTypes: Record<SQLDialect, Record<ColumnKind, string>> = {
+  postgres: { boolean: 'BOOLEAN', integer: 'INTEGER', bigint: 'BIGINT', float: 'DOUBLE PRECISION', text: 'TEXT', date: 'TIMESTAMPTZ', json: 'JSONB', binary: 'BYTEA' },
+  mysql: { boolean: 'BOOLEAN', integer: 'INT', bigint: 'BIGINT', float: 'DOUBLE', text: 'TEXT', date: 'DATETIME(3)', json: 'JSON', binary: 'BLOB' },
+  // SQLite keeps any declared type name, so booleans, dates and JSON are named for `fromSQLite()` to restore
+  sqlite: { boolean: 'BOOLEAN', integer: 'INTEGER', bigint: 'INTEGER', float: 'REAL', text: 'TEXT', date: 'DATETIME', json: 'JSON', binary: 'BLOB' },
+  mssql: { boolean: 'BIT', integer: 'INT', bigint: 'BIGINT', float: 'FLOAT', text: 'NVARCHAR(MAX)', date: 'DATETIME2(3)', json: 'NVARCHAR(MAX)', binary: 'VARBINARY(MAX)' },
+}
+
+const identifierQuotes: Record<SQLDialect, [string, string]> = {
+  postgres: ['"', '"'],
+  mysql: ['`', '`'],
+  sqlite: ['"', '"'],
+  mssql: ['[', ']'],
+}
+
+/** SQL Server rejects a `VALUES` list with more than 1000 rows. */
+const mssqlRowLimit = 1000
+
+/**
+ * Writes items as SQL for `dialect`: an optional `CREATE TABLE`, then
+ * `INSERT` statements of at most `batchSize` rows, upserting when
+ * `onConflict` is given. Columns are the union of every item's keys.
+ */
+export function formatSQL<T>(items: readonly T[], table: string, options: SQLExportOptions<T> = {}): string {
+  const { dialect = 'postgres', createTable = false, onConflict } = options
+  if (!(dialect in columnTypes))
+    throw new Error(`Unsupported SQL dialect: ${dialect}`)
+
+  const batchSize = options.batchSize ?? (dialect === 'mssql' ? mssqlRowLimit : items.length)
+  if (!Number.isInteger(batchSize) || batchSize < 1)
+    throw new Error('SQL batch size must be a positive integer')
+  if (dialect === 'mssql' && batchSize > mssqlRowLimit)
+    throw new Error(`SQL Server allows at most ${mssqlRowLimit} rows per statement`)
+  if (items.length === 0)
+    return ''
+
+  const columns = inferColumns(items)
+  const names = columns.map(column => column.name)
+  const { keys, update } = resolveConflict(onConflict, names)
+  const quote = (name: string) => quoteIdentifier(name, dialect)
+  const target = quoteTable(table, dialect)
+  const columnList = names.map(quote).join(', ')
+
+  const statements: string[] = []
+  if (createTable)
+    statements.push(createTableStatement(table, columns, keys, dialect))
+
+  for (let start = 0; start < items.length; start += batchSize) {
+    const rows = items.slice(start, start + batchSize)
+      .map(item => `(${columns.map(column => formatLiteral((item as any)?.[column.name], column.kind, dialect)).join(', ')})`)
+      .join(',\n')
+
+    if (!onConflict) {
+      statements.push(`INSERT INTO ${target} (${columnList})\nVALUES\n${rows};`)
+      continue
+    }
+
+    switch (dialect) {
+      case 'postgres':
+      case 'sqlite':
+        statements.push(`INSERT INTO ${target} (${columnList})\nVALUES\n${rows}\n${onConflictClause(keys, update, dialect)};`)
+        break
+      case 'mysql': {
+        // Assigning a key to itself turns the conflict into a no-op
+        const assignments = update.length
+          ? update.map(name => `${quote(name)} = VALUES(${quote(name)})`)
+          : [`${quote(keys[0])} = ${quote(keys[0])}`]
+        statements.push(`INSERT INTO ${target} (${columnList})\nVALUES\n${rows}\nON DUPLICATE KEY UPDATE ${assignments.join(', ')};`)
+        break
+      }
+      case 'mssql': {
+        const matched = update.length
+          ? `\nWHEN MATCHED THEN UPDATE SET ${update.map(name => `${quote(name)} = source.${quote(name)}`).join(', ')}`
+          : ''
+        statements.push([
+          `MERGE INTO ${target} AS target`,
+          `USING (VALUES\n${rows}\n) AS source (${columnList})`,
+          `ON ${keys.map(key => `target.${quote(key)} = source.${quote(key)}`).join(' AND ')}${matched}`,
+          `WHEN NOT MATCHED THEN INSERT (${columnList}) VALUES (${names.map(name => `source.${quote(name)}`).join(', ')});`,
+        ].join('\n'))
+        break
+      }
+    }
+  }
+
+  return statements.join('\n')
+}
+
+/** Checks `onConflict` against the columns and fills in the columns to update. */
+export function resolveConflict<T>(onConflict: SQLExportOptions<T>['onConflict'], names: readonly string[]): { keys: string[], update: string[] } {
+  const keys = (onConflict?.keys ?? []).map(String)
+  const missing = keys.find(key => !names.includes(key))
+  if (missing !== undefined)
+    throw new Error(`Conflict key "${missing}" is not a column`)
+  if (onConflict && keys.length === 0)
+    throw new Error('onConflict needs at least one key column')
+
+  const update = (onConflict?.update ?? names.filter(name => !keys.includes(name))).map(String)
+  return { keys, update }
+}
+
+/** The `ON CONFLICT` clause PostgreSQL and SQLite share. */
+export function onConflictClause(keys: readonly string[], update: readonly string[], dialect: 'postgres' | 'sqlite'): string {
+  const quote = (name: string) => quoteIdentifier(name, dialect)
+  const action = update.length
+    ? `DO UPDATE SET ${update.map(name => `${quote(name)} = excluded.${quote(name)}`).join(', ')}`
+    : 'DO NOTHING'
+  return `ON CONFLICT (${keys.map(quote).join(', ')}) ${action}`
+}
+
+/** Quotes a table name, treating dots as schema separators. */
+export function quoteTable(table: string, dialect: SQLDialect): string {
+  return table.split('.').map(part => quoteIdentifier(part, dialect)).join('.')
+}
+
+/** Quotes an identifier, doubling any closing quote inside it. */
+export function quoteIdentifier(name: string, dialect: SQLDialect): string {
+  const [open, close] = identifierQuotes[dialect]
+  return `${open}${name.split(close).join(close + close)}${close}`
+}
+
+function formatLiteral(value: unknown, kind: ColumnKind, dialect: SQLDialect): string {
+  if (value === null || value === undefined)
+    return 'NULL'
+  // A column of mixed types is declared as text, so its numbers and booleans are written as strings too
+  if (kind === 'text' && (typeof value === 'bigint' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value))))
+    return formatString(String(value), dialect)
+  if (typeof value === 'number')
+    return Number.isFinite(value) ? String(value) : 'NULL'
+  if (typeof value === 'bigint')
+    return String(value)
+  if (typeof value === 'boolean') {
+    if (dialect === 'postgres' || dialect === 'mysql')
+      return value ? 'TRUE' : 'FALSE'
+    return value ? '1' : '0'
+  }
+  if (value instanceof Date)
+    return Number.isNaN(value.getTime()) ? 'NULL' : formatString(formatDate(value, dialect), dialect)
+  if (value instanceof Uint8Array) {
+    const hex = Array.from(value, byte => byte.toString(16).padStart(2, '0')).join('')
+    if (dialect === 'postgres')
+      return `'\\x${hex}'`
+    return dialect === 'mssql' ? `0x${hex}` : `X'${hex}'`
+  }
+  if (typeof value === 'object')
+    return formatString(JSON.stringify(value), dialect)
+  return formatString(String(value), dialect)
+}
+
+function formatString(text: string, dialect: SQLDialect): string {
+  const quoted = text.replace(/'/g, '\'\'')
+  if (dialect === 'mysql')
+    return `'${quoted.replace(/\\/g, '\\\\')}'`
+  return dialect === 'mssql' ? `N'${quoted}'` : `'${quoted}'`
+}
+
+/** MySQL and SQL Server datetime columns reject the `T` and `Z` of ISO strings, so they get UTC without them. */
+function formatDate(date: Date, dialect: SQLDialect): string {
+  const iso = date.toISOString()
+  return dialect === 'mysql' || dialect === 'mssql' ? iso.replace('T', ' ').replace('Z', '') : iso
+}
+
+/** Collects every key in first-seen order and infers its type from the non-null values. */
+export function inferColumns<T>(items: readonly T[]): ColumnInfo[] {
+  const columns = new Map<string, ColumnInfo & { kinds: Set<ColumnKind>, seen: number }>()
+
+  for (const item of items) {
+    for (const [name, value] of Object.entries(item as object)) {
+      let column = columns.get(name)
+      if (!column) {
+        column = { name, kind: 'text', length: 0, nullable: false, kinds: new Set(), seen: 0 }
+        columns.set(name, column)
+      }
+      column.seen++
+      if (value === null || value === undefined) {
+        column.nullable = true
+        continue
+      }
+      column.kinds.add(valueKind(value))
+      if (typeof value === 'string')
+        column.length = Math.max(column.length, value.length)
+    }
+  }
+
+  return Array.from(columns.values(), ({ name, kinds, seen, length, nullable }) => ({
+    name,
+    kind: mergeKinds(kinds),
+    length,
+    nullable: nullable || seen < items.length,
+  }))
+}
+
+function valueKind(value: unknown): ColumnKind {
+  if (typeof value === 'boolean')
+    return 'boolean'
+  if (typeof value === 'bigint')
+    return 'bigint'
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value))
+      return 'float'
+    return Math.abs(value) > 2147483647 ? 'bigint' : 'integer'
+  }
+  if (value instanceof Date)
+    return 'date'
+  if (value instanceof Uint8Array)
+    return 'binary'
+  if (typeof value === 'object')
+    return 'json'
+  return 'text'
+}
+
+/** Widens integer columns to bigint or float as needed; any other mix falls back to text. */
+function mergeKinds(kinds: Set<ColumnKind>): ColumnKind {
+  if (kinds.size === 0)
+    return 'text'
+  if (kinds.size === 1)
+    return [...kinds][0]
+  const numeric = [...kinds].every(kind => kind === 'integer' || kind === 'bigint' || kind === 'float')
+  if (!numeric)
+    return 'text'
+  return kinds.has('float') ? 'float' : 'bigint'
+}
+
+export function createTableStatement(table: string, columns: readonly ColumnInfo[], keys: readonly string[], dialect: SQLDialect): string {
+  const definitions = columns.map((column) => {
+    let type = columnTypes[dialect][column.kind]
+    // Bounded strings can be indexed, which keys need in MySQL and SQL Server
+    if (column.kind === 'text' && column.length <= 255 && dialect === 'mysql')
+      type = 'VARCHAR(255)'
+    if (column.kind === 'text' && column.length <= 255 && dialect === 'mssql')
+      type = 'NVARCHAR(255)'
+    const notNull = column.nullable && !keys.includes(column.name) ? '' : ' NOT NULL'
+    return `  ${quoteIdentifier(column.name, dialect)} ${type}${notNull}`
+  })
+  if (keys.length)
+    definitions.push(`  PRIMARY KEY (${keys.map(key => quoteIdentifier(key, dialect)).join(', ')})`)
+
+  const body = `${quoteTable(table, dialect)} (\n${definitions.join(',\n')}\n);`
+  if (dialect === 'mssql')
+    return `IF OBJECT_ID(${formatString(table, dialect)}, N'U') IS NULL\nCREATE TABLE ${body}`
+  return `CREATE TABLE IF NOT EXISTS ${body}`
+}
@@ -0,0 +1,142 @@
+import type { Database, SQLQueryBindings, Statement } from 'bun:sqlite'
+import type { CollectionOperations, LazyCollectionOperations, SQLiteParams, SQLiteWriteOptions } from './types'
+import { collect } from './collect'
+import { createLazyOperations } from './lazy'
+import { createTableStatement, inferColumns, onConflictClause, quoteIdentifier, quoteTable, resolveConflict } from './sql'
+
+type ColumnConverter = [name: string, convert: (_value: unknown) => unknown]
+
+/**
+ * Writes items to `table`, creating it with inferred column types when it is
+ * missing, in a single transaction. Returns the number of rows changed.
+ */
+export function writeSQLite<T>(db: Database, items: readonly T[], table: string, options: SQLiteWriteOptions<T> = {}): number {
+  const { mode = 'append', onConflict } = options
+  if (mode !== 'append' && mode !== 'replace')
+    throw new Error(`Unsupported SQLite write mode: ${mode}`)
+
+  const columns = inferColumns(items)
+  const names = columns.map(column => column.name)
+  const { keys, update } = resolveConflict(onConflict, names)
+  const target = quoteTable(table, 'sqlite')
+
+  return db.transaction(() => {
+    if (items.length === 0) {
+      // With no rows there are no columns to recreate the table from, so it is only emptied
+      if (mode === 'replace' && tableExists(db, table))
+        db.run(`DELETE FROM ${target}`)
+      return 0
+    }
+    if (mode === 'replace')
+      db.run(`DROP TABLE IF EXISTS ${target}`)
+    db.run(createTableStatement(table, columns, keys, 'sqlite'))
+
+    const conflict = onConflict ? ` ${onConflictClause(keys, update, 'sqlite')}` : ''
+    const insert = db.prepare(
+      `INSERT INTO ${target} (${names.map(name => quoteIdentifier(name, 'sqlite')).join(', ')}) VALUES (${names.map(() => '?').join(', ')})${conflict}`,
+    )
+
+    let changes = 0
+    for (const item of items)
+      changes += insert.run(...names.map(name => toSQLiteValue((item as any)?.[name]))).changes
+    insert.finalize()
+    return changes
+  })()
+}
+
+function tableExists(db: Database, table: string): boolean {
+  const dot = table.indexOf('.')
+  const schema = dot === -1 ? 'main' : table.slice(0, dot)
+  const name = dot === -1 ? table : table.slice(dot + 1)
+  const statement = db.prepare(`SELECT 1 FROM ${quoteIdentifier(schema, 'sqlite')}.sqlite_master WHERE type = 'table' AND name = ?`)
+  try {
+    return statement.get(name) !== null
+  }
+  finally {
+    statement.finalize()
+  }
+}
+
+/** Runs a query and collects its rows, restoring `BOOLEAN`, `DATETIME` and `JSON` columns. */
+export function fromSQLite<T = Record<string, unknown>>(db: Database, sql: string, params: SQLiteParams = []): CollectionOperations<T> {
+  const statement = db.prepare(sql)
+  try {
+    const restore = createRowRestorer(statement)
+    return collect(statement.all(...bindings(params)).map(row => restore(row) as T))
+  }
+  finally {
+    statement.finalize()
+  }
+}
+
+/**
+ * Runs a query and streams its rows into a lazy collection through a cursor,
+ * so only the rows being processed are in memory. Each pass runs the query
+ * again, and the statement is finalized when the rows run out or the pass
+ * stops early.
+ */
+export function readSQLite<T = Record<string, unknown>>(db: Database, sql: string, params: SQLiteParams = []): LazyCollectionOperations<T> {
+  async function* rows(): AsyncGenerator<T, void, undefined> {
+    const statement = db.prepare(sql)
+    try {
+      const restore = createRowRestorer(statement)
+      for (const row of statement.iterate(...bindings(params)))
+        yield restore(row) as T
+    }
+    finally {
+      statement.finalize()
+    }
+  }
+
+  return createLazyOperations(rows)
+}
+
+function bindings(params: SQLiteParams): SQLQueryBindings[] {
+  return Array.isArray(params) ? params : [params]
+}
+
+function toSQLiteValue(value: unknown): SQLQueryBindings {
+  if (value === undefined || (typeof value === 'number' && !Number.isFinite(value)))
+    return null
+  if (typeof value === 'boolean')
+    return value ? 1 : 0
+  if (value instanceof Date)
+    return Number.isNaN(value.getTime()) ? null : value.toISOString()
+  if (value instanceof Uint8Array)
+    return value
+  if (typeof value === 'object' && value !== null)
+    return JSON.stringify(value)
+  return value as SQLQueryBindings
+}
+
+/**
+ * Builds a converter for the statement's declared column types, which SQLite
+ * only reports once the statement has run. Computed columns are left as
+ * SQLite returns them.
+ */
+function createRowRestorer(statement: Statement): (row: unknown) => unknown {
+  let converters: ColumnConverter[] | undefined
+  const readConverters = () => statement.columnNames.flatMap((name, i): ColumnConverter[] => {
+    const type = statement.declaredTypes[i]?.toUpperCase()
+    if (type === 'BOOLEAN')
+      return [[name, value => Boolean(value)]]
+    if (type === 'DATETIME' || type === 'TIMESTAMP' || type === 'DATE')
+      return [[name, value => new Date(value as string | number)]]
+    if (type === 'JSON')
+      return [[name, value => typeof value === 'string' ? JSON.parse(value) : value]]
+    return []
+  })
+
+  return (row) => {
+    if (!converters)
+      converters = readConverters()
+    if (converters.length === 0)
+      return row
+    const restored = row as Record<string, unknown>
+    for (const [name, convert] of converters) {
+      if (restored[name] !== null && restored[name] !== undefined)
+        restored[name] = convert(restored[name])
+    }
+    return restored
+  }
+}
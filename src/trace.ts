@@ -0,0 +1,149 @@
+import type { CollectionOperations, TraceFormat, TraceStep } from './types'
+import process from 'node:process'
+import { isCollection } from './utils'
+
+/** Methods that are passed through untraced: they read the trace or would wrap the collection again. */
+const untracedMethods = new Set(['explain', 'trace', 'lazy', 'cache', 'versioned', 'instrument'])
+
+const maxArgumentLength = 40
+
+/** What a traced collection knows about the chain that made it. */
+interface TraceState {
+  sourceCount: number
+  steps: readonly TraceStep[]
+}
+
+/**
+ * Wraps a collection so that every method returning a collection records a
+ * step (its name, a summary of its arguments, the item counts going in and
+ * out, its duration and the heap it allocated) and returns a traced
+ * collection carrying the steps so far. Methods run on the unwrapped
+ * collection, so the calls they make themselves are not recorded.
+ */
+export function createTracedCollection<T>(collection: CollectionOperations<T>, state: TraceState): CollectionOperations<T> {
+  return new Proxy(collection, {
+    get(target, property, receiver) {
+      if (property === 'explain')
+        return (format?: TraceFormat) => renderTrace(state.sourceCount, state.steps, format)
+
+      const value = Reflect.get(target, property, receiver)
+      if (typeof value !== 'function' || typeof property !== 'string' || untracedMethods.has(property))
+        return value
+
+      return (...args: unknown[]) => {
+        const inputCount = target.length
+        const heapBefore = process.memoryUsage().heapUsed
+        const start = performance.now()
+
+        const finish = (result: unknown) => {
+          if (!isCollection(result))
+            return result
+          const step: TraceStep = {
+            operation: property,
+            arguments: args.map(summarizeArgument).join(', '),
+            inputCount,
+            outputCount: result.length,
+            durationMs: performance.now() - start,
+            memoryBytes: Math.max(0, process.memoryUsage().heapUsed - heapBefore),
+          }
+          return createTracedCollection(result, { sourceCount: state.sourceCount, steps: [...state.steps, step] })
+        }
+
+        const result = value.apply(target, args)
+        return result instanceof Promise ? result.then(finish) : finish(result)
+      }
+    },
+  })
+}
+
+/** Renders the steps of a trace as an indented plan, JSON, or a Mermaid flowchart. */
+export function renderTrace(sourceCount: number, steps: readonly TraceStep[], format: TraceFormat = 'text'): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ sourceCount, totalMs: totalDuration(steps), steps }, null, 2)
+    case 'mermaid':
+      return renderMermaid(sourceCount, steps)
+    case 'text':
+      return renderText(sourceCount, steps)
+    default:
+      throw new Error(`Unknown explain format ${String(format)}`)
+  }
+}
+
+/** Lists the last step first, with every step indented below the one it feeds, down to the source. */
+function renderText(sourceCount: number, steps: readonly TraceStep[]): string {
+  const total = totalDuration(steps)
+  const lines = [...steps].reverse().map((step, i) => {
+    const share = total > 0 ? ` (${Math.round((step.durationMs / total) * 100)}%)` : ''
+    return `${'  '.repeat(i)}${stepLabel(step)}  ${step.inputCount} → ${step.outputCount} rows, ${formatDuration(step.durationMs)}${share}, ${formatBytes(step.memoryBytes)}`
+  })
+  lines.push(`${'  '.repeat(steps.length)}source  ${sourceCount} rows`)
+  return lines.join('\n')
+}
+
+function renderMermaid(sourceCount: number, steps: readonly TraceStep[]): string {
+  const lines = ['flowchart TD', mermaidNode(0, ['source', `${sourceCount} rows`])]
+  steps.forEach((step, i) => {
+    lines.push(mermaidNode(i + 1, [stepLabel(step), `${step.inputCount} → ${step.outputCount} rows · ${formatDuration(step.durationMs)} · ${formatBytes(step.memoryBytes)}`]))
+    lines.push(`  step${i} --> step${i + 1}`)
+  })
+
+  const slowest = steps.reduce((best, step, i) => step.durationMs > (steps[best]?.durationMs ?? -1) ? i : best, -1)
+  if (steps.length > 1 && slowest >= 0) {
+    lines.push('  classDef slowest stroke:#d33,stroke-width:3px')
+    lines.push(`  class step${slowest + 1} slowest`)
+  }
+  return lines.join('\n')
+}
+
+/** A flowchart node whose label lines are joined with line breaks; quotes are escaped the Mermaid way. */
+function mermaidNode(index: number, label: string[]): string {
+  const text = label.join('<br/>').replaceAll('"', '#quot;')
+  return `  step${index}["${text}"]`
+}
+
+function stepLabel(step: TraceStep): string {
+  return `${step.operation}(${step.arguments})`
+}
+
+function totalDuration(steps: readonly TraceStep[]): number {
+  return steps.reduce((sum, step) => sum + step.durationMs, 0)
+}
+
+function summarizeArgument(value: unknown): string {
+  let summary: string
+  if (typeof value === 'function')
+    summary = value.toString().replace(/\s+/g, ' ')
+  else if (isCollection(value))
+    summary = `Collection(${value.length})`
+  else if (Array.isArray(value) && value.length > 5)
+    summary = `Array(${value.length})`
+  else if (typeof value === 'bigint')
+    summary = `${value}n`
+  else if (typeof value === 'symbol' || value === undefined)
+    summary = String(value)
+  else
+    summary = safeStringify(value)
+  return summary.length > maxArgumentLength ? `${summary.slice(0, maxArgumentLength - 1)}…` : summary
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value)
+  }
+  catch {
+    return Object.prototype.toString.call(value)
+  }
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 100 ? `${ms.toFixed(0)} ms` : `${ms.toFixed(2)} ms`
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024)
+    return `${bytes} B`
+  if (bytes < 1024 * 1024)
+    return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
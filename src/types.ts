@@ -1,3 +1,5 @@
+import type { Database, SQLQueryBindings } from 'bun:sqlite'
+
 /**
  * Type for any function that takes a value and returns a string/number key
  */
@@ -8,6 +10,26 @@ export type KeySelector<T> = (_item: T) => string | number
  */
 export type CompareFunction<T> = (_a: T, _b: T) => number
 
+/**
+ * How set-like operations decide that two items are the same:
+ * - `'reference'` compares with SameValueZero, like a `Set` does
+ * - `'deep'` compares structurally, hashing items so lookups stay O(1)
+ * - a function declaring one parameter returns an item's key, and keys are compared with SameValueZero
+ * - a function declaring two parameters returns whether two items are equal; every pair may be compared
+ */
+export type EqualityStrategy<T> =
+  | 'reference'
+  | 'deep'
+  /** Items are equal when they map to the same key. */
+  | { key: (_item: T) => unknown }
+  /** Items are equal when the function returns a truthy value; compares pairs, so it is quadratic. */
+  | { compare: (_a: T, _b: T) => unknown }
+
+export interface EqualityOptions<T> {
+  /** Defaults to `'reference'`. */
+  equality?: EqualityStrategy<T>
+}
+
 /**
  * Type for when/unless callback
  */
@@ -36,7 +58,44 @@ export interface StandardDeviationResult {
 /**
  * Types for async operations
  */
-export type AsyncCallback<T, U> = (_item: T, _index: number) => Promise<U>
+export type AsyncCallback<T, U> = (_item: T, _index: number, _signal: AbortSignal) => Promise<U>
+
+/** An item whose async callback failed, after any retries. */
+export interface AsyncItemError<T> {
+  item: T
+  index: number
+  error: unknown
+  attempts: number
+}
+
+export interface AsyncRetryOptions {
+  /** How many times to try each item in total, the first try included. */
+  attempts: number
+  /** Milliseconds to wait before a retry, or a function of the attempt that just failed. */
+  backoff?: number | ((_attempt: number) => number)
+}
+
+/**
+ * Controls how async operations run their callbacks. Every attempt receives
+ * an `AbortSignal` that aborts on timeout, on `signal` abort, and when the
+ * operation no longer needs its result.
+ */
+export interface AsyncOptions<T> {
+  /** How many callbacks may run at once. Defaults to every item, or to 1 on lazy collections. */
+  concurrency?: number
+  /** Whether results keep item order (default) or come in completion order. */
+  ordered?: boolean
+  retry?: AsyncRetryOptions
+  /** Milliseconds each attempt may take before it fails with an `AsyncTimeoutError`. */
+  timeout?: number
+  /** Stops starting new items and rejects with the signal's reason. */
+  signal?: AbortSignal
+  /** What to do with an item that failed: reject (default), skip it, or hand it to a callback and skip it. */
+  onError?: 'throw' | 'skip' | ((_error: AsyncItemError<T>) => void)
+}
+
+/** A value or a promise of one, for callbacks that may be sync or async. */
+export type Awaitable<T> = T | Promise<T>
 
 /** Extracts the item type carried by a collection. */
 export type CollectionItem<C> = C extends CollectionOperations<infer T> ? T : never
@@ -93,6 +152,21 @@ export type LeftAssign<T, U> = T extends unknown
     : never
   : never
 
+/** Models a right join, including unmatched right rows. */
+export type RightAssign<T, U> = T extends unknown
+  ? U extends unknown ? Partial<Omit<T, keyof U>> & U : never
+  : never
+
+/** Models a full outer join, where either side may be missing. */
+export type OuterAssign<T, U> = T extends unknown
+  ? U extends unknown
+    ? { [P in keyof T & keyof U]: T[P] | U[P] } & Partial<Omit<T, keyof U>> & Partial<Omit<U, keyof T>>
+    : never
+  : never
+
+/** A join key: one property, or several properties matched together. */
+export type JoinKey<T> = keyof T | readonly (keyof T)[]
+
 /** Narrows collection members to a specific property value. */
 export type WithPropertyValue<T, K extends keyof T, V extends T[K]> = T extends unknown
   ? T extends Record<K, V> ? T : V extends T[K] ? T & Record<K, V> : never
@@ -117,6 +191,65 @@ export type WithNullishProperty<T, K extends keyof T> = T extends unknown
   ? Extract<T[K], null | undefined> extends never ? never : T & Record<K, Extract<T[K], null | undefined>>
   : never
 
+/** Values that dot paths stop at rather than descend into. */
+type PathLeaf = string | number | boolean | bigint | symbol | null | undefined | Date | RegExp | Map<unknown, unknown> | Set<unknown> | ArrayBufferView | ((..._args: any[]) => unknown)
+
+type PathDepth = [never, 0, 1, 2, 3, 4]
+
+/**
+ * Dot paths into `T` such as `'address.city'` or `'items.*.price'`, up to
+ * five levels deep. A `*` segment stands for every element of an array, and a
+ * number picks one element.
+ */
+export type DotPath<T, D extends number = 5> = 0 extends 1 & T
+  ? string
+  : [D] extends [never]
+      ? never
+      : T extends PathLeaf
+        ? never
+        : T extends readonly (infer E)[]
+          ? '*' | `${number}` | `${'*' | number}.${DotPath<NonNullable<E>, PathDepth[D]>}`
+          : { [K in keyof T & (string | number)]: `${K}` | `${K}.${DotPath<NonNullable<T[K]>, PathDepth[D]>}` }[keyof T & (string | number)]
+
+type PathChild<T, K extends string> = T extends null | undefined
+  ? undefined
+  : T extends readonly (infer E)[]
+    ? K extends `${number}` ? E | undefined : undefined
+    : K extends keyof T ? T[K] : undefined
+
+/**
+ * The value a dot path leads to. A `*` segment gives an array of the values
+ * below it, and later `*` segments are flattened into the same array.
+ */
+export type PathValue<T, P extends string> = 0 extends 1 & T
+  ? any
+  : P extends `${infer Head}.${infer Rest}`
+    ? Head extends '*'
+      ? T extends readonly (infer E)[]
+        ? Rest extends `${string}*${string}` ? PathValue<E, Rest> : PathValue<E, Rest>[]
+        : undefined
+      : PathValue<PathChild<T, Head>, Rest>
+    : P extends '*'
+      ? T extends readonly (infer E)[] ? E[] : undefined
+      : PathChild<T, P>
+
+/** Paths that continue below `K`, with `K.` removed. */
+type PathsBelow<P extends string, K extends PropertyKey> = P extends `${K & (string | number)}.${infer Rest}` ? Rest : never
+
+/** Keeps the properties that `P` names, at any depth. */
+export type PickPaths<T, P extends string> = T extends readonly (infer E)[]
+  ? PickPaths<E, PathsBelow<P, '*'>>[]
+  : T extends PathLeaf
+    ? T
+    : { [K in keyof T as K extends P ? K : [PathsBelow<P, K>] extends [never] ? never : K]: K extends P ? T[K] : PickPaths<T[K], PathsBelow<P, K>> }
+
+/** Removes the properties that `P` names, at any depth. */
+export type OmitPaths<T, P extends string> = T extends readonly (infer E)[]
+  ? OmitPaths<E, PathsBelow<P, '*'>>[]
+  : T extends PathLeaf
+    ? T
+    : { [K in keyof T as K extends P ? never : K]: [PathsBelow<P, K>] extends [never] ? T[K] : OmitPaths<T[K], PathsBelow<P, K>> }
+
 /**
  * Represents a collection of items with type safety and chainable methods
  */
@@ -169,6 +302,150 @@ export interface SerializationOptions {
   transform?: Record<string, (value: unknown) => unknown>
 }
 
+/** Characters that shape a CSV file. */
+export interface CSVDialect {
+  /** Field separator, `,` by default. */
+  delimiter?: string
+  /** Character that wraps fields containing delimiters, quotes or line breaks, `"` by default. */
+  quote?: string
+  /** Character that escapes a quote inside a quoted field. Defaults to `quote`, so quotes are doubled. */
+  escape?: string
+}
+
+/**
+ * How a CSV column is coerced. A trailing `?` makes the column nullable, so
+ * empty fields become `null` instead of failing. Dates must be parseable by `Date`.
+ */
+export type CSVColumnType =
+  | 'string' | 'number' | 'boolean' | 'date'
+  | 'string?' | 'number?' | 'boolean?' | 'date?'
+  | ((_value: string) => unknown)
+
+/** A CSV record that could not be read, and where it was. */
+export interface CSVRowError {
+  /** 1-based data row, not counting the header, which is row 0. */
+  row: number
+  /** 1-based line the record starts on. */
+  line: number
+  column?: string
+  message: string
+}
+
+export interface CSVParseOptions extends CSVDialect {
+  /** Whether the first record names the columns. Defaults to `true`. */
+  header?: boolean
+  /** Column names, overriding the header. Without a header or names, rows are returned as arrays. */
+  columns?: string[]
+  /** Coercions by column name, or by index in headerless mode. */
+  types?: Record<string, CSVColumnType>
+  /**
+   * Whether columns without a type turn numbers and `true`/`false` into
+   * values and empty fields into `null`. Defaults to `true`.
+   */
+  inferTypes?: boolean
+  /** What to do with a bad row: throw a `CSVParseError` (default), skip it, or hand it to a callback and skip it. */
+  onError?: 'throw' | 'skip' | ((_error: CSVRowError) => void)
+}
+
+/** A source `readCSV()` can stream from. Bytes are decoded as UTF-8. */
+export type CSVSource = ReadableStream<Uint8Array | string> | AsyncIterable<Uint8Array | string> | Iterable<string>
+
+/** The rows `parseCSV()` read, and the rows it could not. */
+export interface CSVParseResult<T> {
+  items: T[]
+  errors: CSVRowError[]
+}
+
+export interface CSVWriteOptions extends CSVDialect, SerializationOptions {
+  /** Whether to write a header row. Defaults to `true`. */
+  header?: boolean
+  /** Record separator, `\r\n` by default as RFC 4180 specifies. */
+  newline?: string
+}
+
+/** How elements and attributes map to object keys, shared by `toXML()` and `parse(data, 'xml')`. */
+export interface XMLMappingOptions {
+  /** Element holding the items, `items` by default when writing and the document element when reading. */
+  rootTag?: string
+  /** Element wrapping each item and each array entry, `item` by default. */
+  itemTag?: string
+  /** Prefix marking keys that map to attributes, `@` by default, so `{ '@id': 1 }` is `<item id="1">`. */
+  attributePrefix?: string
+  /** Key holding an element's text when it also has attributes or children, `#text` by default. */
+  textKey?: string
+}
+
+export interface XMLWriteOptions extends XMLMappingOptions, SerializationOptions {
+  /** Keys of each item to write as attributes, in addition to prefixed keys. */
+  attributes?: string[]
+  /** Whether to start with an `<?xml ?>` declaration. Defaults to `true`. */
+  declaration?: boolean
+}
+
+export interface XMLParseOptions extends XMLMappingOptions {
+  /** Whether numbers and `true`/`false` in text and attributes become values. CDATA stays text. Defaults to `true`. */
+  inferTypes?: boolean
+  /** Whether to drop namespace prefixes and `xmlns` declarations from names. Defaults to `false`. */
+  stripNamespaces?: boolean
+  /** Element names that are always read as arrays, even with a single entry. */
+  arrays?: string[]
+}
+
+/** An NDJSON line that is not valid JSON, and where it was. */
+export interface NDJSONLineError {
+  /** 1-based line number, counting blank lines. */
+  line: number
+  text: string
+  message: string
+}
+
+export interface NDJSONParseOptions {
+  /** What to do with a malformed line: throw an `NDJSONParseError` (default), skip it, or hand it to a callback and skip it. */
+  onError?: 'throw' | 'skip' | ((_error: NDJSONLineError) => void)
+}
+
+/** A source `readNDJSON()` can stream from. Bytes are decoded as UTF-8. */
+export type NDJSONSource = ReadableStream<Uint8Array | string> | AsyncIterable<Uint8Array | string> | Iterable<string>
+
+/** The items `parseNDJSON()` read, and the lines it could not. */
+export interface NDJSONParseResult<T> {
+  items: T[]
+  errors: NDJSONLineError[]
+}
+
+export type SQLDialect = 'postgres' | 'mysql' | 'sqlite' | 'mssql'
+
+export interface SQLExportOptions<T> {
+  /** Decides identifier quoting, literal syntax, column types and upsert syntax. Defaults to `postgres`. */
+  dialect?: SQLDialect
+  /** Rows per `INSERT`. Defaults to every row, or 1000 for `mssql`, its limit. */
+  batchSize?: number
+  /**
+   * Upserts on conflicts over `keys`, updating the `update` columns (every
+   * other column by default). An empty `update` leaves existing rows as they are.
+   */
+  onConflict?: {
+    keys: Array<keyof T & string>
+    update?: Array<keyof T & string>
+  }
+  /** Whether to start with a `CREATE TABLE` whose column types are inferred from the data. */
+  createTable?: boolean
+}
+
+export interface SQLiteWriteOptions<T> {
+  /**
+   * `append` (default) creates the table when it is missing and adds rows to
+   * it; `replace` drops the table first, or only empties it when there are no
+   * items to recreate it from.
+   */
+  mode?: 'append' | 'replace'
+  /** Upserts on conflicts over `keys`, as in `toSQL()`. With a new table, the keys become its primary key. */
+  onConflict?: SQLExportOptions<T>['onConflict']
+}
+
+/** Positional or named parameters for a SQLite query. */
+export type SQLiteParams = SQLQueryBindings[] | Record<string, string | bigint | number | boolean | null | Uint8Array>
+
 /**
  * Valid comparison operators for the having() method
  */
@@ -219,13 +496,88 @@ export interface VersionStore<T> {
 export interface VersionInfo<T> {
   version: number
   timestamp: Date
-  changes: Array<{
-    type: 'add' | 'update' | 'delete'
-    item: T
-    previousItem?: T
-  }>
+  changes: VersionChange<T>[]
+}
+
+export interface VersionChange<T> {
+  type: 'add' | 'update' | 'delete'
+  /** The item after the change; for a delete, the item that was removed. */
+  item: T
+  /** The item before an update or a delete. */
+  previousItem?: T
+  /** Position of the item: after an add or update, before a delete. */
+  index: number
+}
+
+export interface VersionedOptions<T> {
+  /** Identifies an item across versions, as a property name or a function returning the identity. */
+  key: keyof T | ((_item: T) => unknown)
+}
+
+/** A collection that records every change to its items as a version. */
+export type VersionedCollectionOperations<T> = CollectionOperations<T> & {
+  /** The latest version, counting up from `0` for the items it started with. */
+  readonly currentVersion: number
+  /** Appends an item whose key is not in the collection yet. Returns the new version. */
+  add: (item: T) => number
+  /** Replaces the item with the same key. Returns the new version. */
+  update: (item: T) => number
+  /** Removes the item with this key. Returns the new version. */
+  remove: (key: unknown) => number
+  /** Keeps a copy of the current items, so diffs and rollbacks to this version skip replaying changes. Returns the version. */
+  snapshot: () => number
+  /** The net changes between `version` and now, one per changed item. */
+  diffSince: (version: number) => VersionChange<T>[]
+  /** Restores the items of `version`, recorded as a new version that can itself be undone. Returns the new version. */
+  rollback: (version: number) => number
+  /** Reverts the latest version. Returns false when there is nothing to undo. */
+  undo: () => boolean
+  /** Reapplies the latest undone version. Returns false when there is nothing to redo; any new change clears the redo stack. */
+  redo: () => boolean
+  /** The versions leading to the current items, oldest first. */
+  history: () => VersionInfo<T>[]
+}
+
+export interface ReconcileOptions<T> {
+  /** Matches items on both sides, as a property name or a function returning the identity. */
+  key: keyof T | ((_item: T) => unknown)
+  /**
+   * Decides whether a matched pair is unchanged: the fields to compare, or a
+   * function returning true when the items are equal. Defaults to comparing
+   * every field structurally.
+   */
+  compare?: Array<keyof T> | ((_before: T, _after: T) => boolean)
+}
+
+export interface ReconcileUpdate<T> {
+  before: T
+  after: T
+  /** The top-level fields whose values differ. */
+  changedFields: Array<keyof T>
 }
 
+/** What it takes to turn one collection into another, item by item. */
+export interface ReconcilePlan<T> {
+  /** Items only in the other collection, in its order. */
+  inserted: T[]
+  updated: ReconcileUpdate<T>[]
+  /** Items only in this collection, in its order. */
+  deleted: T[]
+  /** Items of this collection that match their counterpart. */
+  unchanged: T[]
+  /**
+   * The plan as RFC 6902 operations on this collection's items: deletions,
+   * then field changes, then insertions appended at the end.
+   */
+  toJSONPatch: () => JSONPatchOperation[]
+}
+
+/** An RFC 6902 JSON Patch operation. Paths are JSON Pointers into the items, such as `/0/price`. */
+export type JSONPatchOperation =
+  | { op: 'add' | 'replace' | 'test', path: string, value: unknown }
+  | { op: 'remove', path: string }
+  | { op: 'move' | 'copy', from: string, path: string }
+
 /**
  * Interface for collection metrics
  */
@@ -242,52 +594,225 @@ export interface CollectionMetrics {
 /**
  * Type for a lazy evaluation generator
  */
-export type LazyGenerator<T> = Generator<T, void, unknown> | AsyncGenerator<T, void, unknown>
+/**
+ * Where a lazy collection reads its items from. Every terminal operation
+ * starts a new pass, so a factory or a re-iterable source can be consumed
+ * repeatedly, while a generator object only yields on its first pass.
+ */
+export type LazySource<T> = Iterable<T> | AsyncIterable<T> | (() => Iterable<T> | AsyncIterable<T>)
+
+/**
+ * The function a `parallel()` worker module exports. It receives a chunk of
+ * items (a `Float64Array` of numbers with `transfer`) and the chunk's index.
+ * An array or typed array result is spread into the merged collection.
+ */
+export type ParallelWorkerTask<C, R> = (_chunk: C, _chunkIndex: number) => R | Promise<R>
+
+export interface ParallelWorkerOptions {
+  /** How many chunks to split the items into. Defaults to the number of CPU cores. */
+  chunks?: number
+  /** How many worker threads to start. Defaults to the number of CPU cores, and never exceeds the chunk count. */
+  maxConcurrency?: number
+  /** Which export of the worker module to call. Defaults to `default`. */
+  exportName?: string
+  /** Moves typed arrays between threads instead of copying them; chunks of numbers are sent as `Float64Array`s. */
+  transfer?: boolean
+}
+
+/** One key of a multi-key sort. */
+export interface SortKey<T> {
+  key: keyof T | DotPath<T> | ((_item: T) => unknown)
+  /** Defaults to `'asc'`. */
+  direction?: 'asc' | 'desc'
+  /** Null and undefined values come first ascending and last descending unless pinned to one end. */
+  nulls?: 'first' | 'last'
+}
 
 /**
- * Interface for lazy collection operations
+ * How sorts compare strings, through an `Intl.Collator`. `numeric` gives
+ * natural ordering, where `file2` comes before `file10`.
+ */
+export interface SortOptions extends Pick<Intl.CollatorOptions, 'sensitivity' | 'numeric' | 'caseFirst' | 'ignorePunctuation'> {
+  /** Defaults to the locale given to `configure()`, then to the runtime's. */
+  locale?: string | string[]
+}
+
+export interface TopKOptions extends SortOptions {
+  /** The order of a single key; defaults to `'desc'`, so the largest values win. */
+  direction?: 'asc' | 'desc'
+}
+
+/**
+ * Limits how much an operation that has to hold items in memory may buffer.
+ */
+export interface LazyBufferOptions {
+  /** Throws a `RangeError` once the operation would hold more than this many items. */
+  maxItems?: number
+}
+
+/**
+ * Interface for lazy collection operations. Callbacks may return promises,
+ * which are awaited one item at a time.
  */
 export interface LazyCollectionOperations<T> {
   // Core Operations - these build up the computation chain without executing
-  map: <const U>(callback: (item: T, index: number) => U) => LazyCollectionOperations<U>
+  map: <const U>(callback: (item: T, index: number) => Awaitable<U>) => LazyCollectionOperations<U>
   filter: {
     (predicate: BooleanConstructor): LazyCollectionOperations<Exclude<T, Falsy>>
     <S extends T>(predicate: (item: T, index: number) => item is S): LazyCollectionOperations<S>
-    (predicate: (item: T, index: number) => boolean): LazyCollectionOperations<T>
+    (predicate: (item: T, index: number) => Awaitable<boolean>): LazyCollectionOperations<T>
   }
-  flatMap: <const U>(callback: (item: T, index: number) => readonly U[]) => LazyCollectionOperations<U>
+  /** Maps every item and drops the `null` and `undefined` results. */
+  filterMap: <const U>(callback: (item: T, index: number) => Awaitable<U>) => LazyCollectionOperations<NonNullable<U>>
+  reject: {
+    <S extends T>(predicate: (item: T) => item is S): LazyCollectionOperations<Exclude<T, S>>
+    (predicate: (item: T) => Awaitable<boolean>): LazyCollectionOperations<T>
+  }
+  flatMap: <const U>(callback: (item: T, index: number) => Awaitable<readonly U[]>) => LazyCollectionOperations<U>
   take: (count: number) => LazyCollectionOperations<T>
   skip: (count: number) => LazyCollectionOperations<T>
+  takeUntil: (value: T | ((_item: T) => Awaitable<boolean>)) => LazyCollectionOperations<T>
+  takeWhile: {
+    <S extends T>(predicate: (_item: T) => _item is S): LazyCollectionOperations<S>
+    (value: T | ((_item: T) => Awaitable<boolean>)): LazyCollectionOperations<T>
+  }
+  skipUntil: (value: T | ((_item: T) => Awaitable<boolean>)) => LazyCollectionOperations<T>
+  skipWhile: (value: T | ((_item: T) => Awaitable<boolean>)) => LazyCollectionOperations<T>
   chunk: (size: number) => LazyCollectionOperations<T[]>
+  /** Pairs items with `other` by position, stopping with this collection and padding with `undefined`. */
+  zip: <const U>(other: Iterable<U> | AsyncIterable<U>) => LazyCollectionOperations<[T, U | undefined]>
+  concat: <const U = T>(...others: Array<Iterable<U> | AsyncIterable<U>>) => LazyCollectionOperations<T | U>
+  scan: <U>(callback: (acc: U, item: T) => Awaitable<U>, initial: U) => LazyCollectionOperations<U>
+  pluck: {
+    <K extends keyof T>(key: K): LazyCollectionOperations<T[K]>
+    <P extends DotPath<T>>(path: P): LazyCollectionOperations<PathValue<T, P>>
+  }
+  where: {
+    <K extends keyof T, const V extends T[K]>(key: K, value: V): LazyCollectionOperations<WithPropertyValue<T, K, V>>
+    <P extends DotPath<T>>(path: P, value: PathValue<T, P>): LazyCollectionOperations<T>
+  }
+  whereIn: {
+    <K extends keyof T, const V extends T[K]>(key: K, values: readonly V[]): LazyCollectionOperations<WithPropertyValue<T, K, V>>
+    <P extends DotPath<T>>(path: P, values: readonly PathValue<T, P>[]): LazyCollectionOperations<T>
+  }
+  whereNotIn: {
+    <K extends keyof T, const V extends T[K]>(key: K, values: readonly V[]): LazyCollectionOperations<WithoutPropertyValue<T, K, V>>
+    <P extends DotPath<T>>(path: P, values: readonly PathValue<T, P>[]): LazyCollectionOperations<T>
+  }
+  whereNull: {
+    <K extends keyof T>(key: K): LazyCollectionOperations<WithNullishProperty<T, K>>
+    (path: DotPath<T>): LazyCollectionOperations<T>
+  }
+  whereNotNull: {
+    <K extends keyof T>(key: K): LazyCollectionOperations<WithNonNullableProperty<T, K>>
+    (path: DotPath<T>): LazyCollectionOperations<T>
+  }
+
+  /** Runs an async callback over several items at once, streaming results as they are ready. */
+  mapAsync: <U>(callback: AsyncCallback<T, U>, options?: AsyncOptions<T>) => LazyCollectionOperations<Awaited<U>>
+  filterAsync: (callback: AsyncCallback<T, boolean>, options?: AsyncOptions<T>) => LazyCollectionOperations<T>
+
+  // Buffering Operations - these hold items in memory, up to `maxItems` when given
+  /** Remembers every key it has seen, so memory grows with the number of distinct keys. */
+  unique: <K extends keyof T>(key?: K, options?: LazyBufferOptions) => LazyCollectionOperations<T>
+  sort: (compareFunction?: CompareFunction<T>, options?: LazyBufferOptions) => LazyCollectionOperations<T>
+  sortBy: {
+    (key: keyof T | DotPath<T>, direction?: 'asc' | 'desc', options?: SortOptions & LazyBufferOptions): LazyCollectionOperations<T>
+    (keys: readonly SortKey<T>[], options?: SortOptions & LazyBufferOptions): LazyCollectionOperations<T>
+  }
+  sortByDesc: (key: keyof T | DotPath<T>, options?: SortOptions & LazyBufferOptions) => LazyCollectionOperations<T>
+  topK: (n: number, by?: keyof T | DotPath<T> | ((_item: T) => unknown) | readonly SortKey<T>[], options?: TopKOptions) => LazyCollectionOperations<T>
+  reverse: (options?: LazyBufferOptions) => LazyCollectionOperations<T>
 
   // Terminal Operations - these execute the chain
   toArray: () => Promise<T[]>
   toCollection: () => Promise<CollectionOperations<T>>
-  forEach: (callback: (item: T) => void) => Promise<void>
-  reduce: <U>(callback: (accumulator: U, current: T) => U, initial: U) => Promise<U>
+  forEach: (callback: (item: T) => Awaitable<void>) => Promise<void>
+  reduce: <U>(callback: (accumulator: U, current: T) => Awaitable<U>, initial: U) => Promise<U>
   count: () => Promise<number>
   first: () => Promise<T | undefined>
   last: () => Promise<T | undefined>
   nth: (n: number) => Promise<T | undefined>
+  contains: {
+    (item: T | undefined): Promise<boolean>
+    <K extends keyof T>(key: K, value: T[K]): Promise<boolean>
+  }
+  isEmpty: () => Promise<boolean>
+  isNotEmpty: () => Promise<boolean>
+  sum: (key?: keyof T | DotPath<T>) => Promise<number>
+  avg: (key?: keyof T | DotPath<T>) => Promise<number>
+  min: (key?: keyof T | DotPath<T>) => Promise<T | undefined>
+  max: (key?: keyof T | DotPath<T>) => Promise<T | undefined>
+  countBy: {
+    <K extends keyof T>(key: K): Promise<Map<T[K], number>>
+    <U extends string | number>(callback: (item: T) => Awaitable<U>): Promise<Map<U, number>>
+  }
+  keyBy: <K extends keyof T>(key: K) => Promise<Map<T[K], T>>
+  partition: {
+    <S extends T>(predicate: (item: T) => item is S): Promise<[CollectionOperations<S>, CollectionOperations<Exclude<T, S>>]>
+    (predicate: (item: T) => Awaitable<boolean>): Promise<[CollectionOperations<T>, CollectionOperations<T>]>
+  }
+  /** Buffers every item, up to `maxItems` when given, and groups them like `groupBy()` on a collection. */
+  groupBy: {
+    <K extends keyof T>(key: K, options?: LazyBufferOptions): Promise<GroupedCollection<T, T[K], SelectProperties<T, K>>>
+    <const K extends readonly (keyof T)[]>(keys: K, options?: LazyBufferOptions): Promise<GroupedCollection<T, { -readonly [I in keyof K]: T[K[I]] }, SelectProperties<T, K[number]>>>
+    <U extends string | number>(callback: (item: T) => Awaitable<U>, options?: LazyBufferOptions): Promise<GroupedCollection<T, U, { key: U }>>
+  }
+  join: (this: LazyCollectionOperations<string>, separator?: string) => Promise<string>
+  implode: <K extends keyof T>(key: K, separator?: string) => Promise<string>
 
   // Utility Operations
-  cache: () => LazyCollectionOperations<T>
+  /**
+   * Stores the pipeline's items the first time a pass runs, and replays them
+   * while fresh. The key is a fingerprint of the source and every step, so
+   * equal pipelines share an entry, in the same store eager `cache()` uses.
+   */
+  cache: (options?: CacheOptions) => LazyCollectionOperations<T>
+  /** Drops the cached items of this pipeline and of every pipeline built on it. */
+  invalidate: (store?: CacheStore) => void
   batch: (size: number) => LazyCollectionOperations<T>
   pipe: <U>(callback: (lazy: LazyCollectionOperations<T>) => LazyCollectionOperations<U>) => LazyCollectionOperations<U>
+
+  /** Runs a new pass over the pipeline, so `for await` works on a lazy collection. */
+  [Symbol.asyncIterator]: () => AsyncIterator<T>
 }
 
+/**
+ * Methods added to every collection with `registerMacro()`. Declaring a macro
+ * here types it on every collection:
+ *
+ * ```ts
+ * declare module 'ts-collect' {
+ *   interface CollectionMacros<T> {
+ *     evens: () => CollectionOperations<T>
+ *   }
+ * }
+ * ```
+ */
+export interface CollectionMacros<T> {}
+
+/**
+ * The function registered for macro `K`, typed from its declaration in
+ * `CollectionMacros` when it has one.
+ */
+export type MacroImplementation<K extends string> = K extends keyof CollectionMacros<any>
+  ? CollectionMacros<any>[K] extends (...args: infer A) => infer R ? (this: CollectionOperations<any>, ..._args: A) => R : never
+  : (this: CollectionOperations<any>, ..._args: any[]) => unknown
+
 /**
  * All available collection operations
  */
-export interface CollectionOperations<T> extends Collection<T> {
+export interface CollectionOperations<T> extends Collection<T>, CollectionMacros<T> {
   // Laravel-like
   all: () => T[]
-  average: (key?: keyof T) => number // alias for avg
+  average: (key?: keyof T | DotPath<T>) => number // alias for avg
   collapse: () => CollectionOperations<ArrayValue<T>>
   combine: <const U>(values: readonly U[]) => CollectionOperations<Record<Extract<T, string | number>, U | undefined>>
   contains: {
     (item: T | undefined): boolean
-    <K extends keyof T>(key: K, value: T[K]): boolean
+    <K extends keyof T>(key: K, value: T[K], options?: EqualityOptions<T[K]>): boolean
+    /** Only object items take options this way; two arguments are a key and a value otherwise. */
+    (item: T & object, options: EqualityOptions<T>): boolean
   }
   containsOneItem: () => boolean
   containsAll: {
@@ -298,16 +823,33 @@ export interface CollectionOperations<T> extends Collection<T> {
     <K extends keyof T>(key: K): Map<T[K], number>
     <U extends string | number>(callback: (item: T) => U): Map<U, number>
   }
-  diffAssoc: (other: readonly T[] | CollectionOperations<T>) => CollectionOperations<T>
+  /** Keeps the items that differ from the item at the same position in `other`, compared deeply by default. */
+  diffAssoc: (other: readonly T[] | CollectionOperations<T>, options?: EqualityOptions<T>) => CollectionOperations<T>
   diffKeys: <K extends keyof T>(other: Record<K, T[K]>[]) => CollectionOperations<T>
   diffUsing: (other: readonly T[], callback: (a: T, b: T) => number) => CollectionOperations<T>
+  /**
+   * Matches items with `other` by key and sorts them into inserted, updated,
+   * deleted and unchanged ones, taking this collection as the current state.
+   */
+  reconcile: (other: readonly T[] | CollectionOperations<T>, options: ReconcileOptions<T>) => ReconcilePlan<T>
+  /** Applies RFC 6902 operations to a copy of the items. When one fails, `JSONPatchError` is thrown and nothing changes. */
+  applyPatch: (patch: readonly JSONPatchOperation[]) => CollectionOperations<T>
   doesntContain: ((_item: T) => boolean) & (<K extends keyof T>(key: K, value: T[K]) => boolean)
-  duplicates: <K extends keyof T>(key?: K) => CollectionOperations<T>
+  duplicates: {
+    (options?: EqualityOptions<T>): CollectionOperations<T>
+    <K extends keyof T>(key: K, options?: EqualityOptions<T[K]>): CollectionOperations<T>
+  }
   each: (callback: (item: T) => void) => CollectionOperations<T>
   eachSpread: (callback: (...args: SpreadArguments<T>) => void) => CollectionOperations<T>
-  except: <K extends keyof T>(...keys: K[]) => CollectionOperations<RemoveProperties<T, K>>
+  except: {
+    <K extends keyof T>(...keys: K[]): CollectionOperations<RemoveProperties<T, K>>
+    <const P extends DotPath<T>>(...paths: P[]): CollectionOperations<OmitPaths<T, P>>
+  }
   firstOrFail: () => T
-  firstWhere: <K extends keyof T, const V extends T[K]>(key: K, value: V) => WithPropertyValue<T, K, V> | undefined
+  firstWhere: {
+    <K extends keyof T, const V extends T[K]>(key: K, value: V): WithPropertyValue<T, K, V> | undefined
+    <P extends DotPath<T>>(path: P, value: PathValue<T, P>): T | undefined
+  }
   flatten: {
     (): CollectionOperations<DeepArrayValue<T>>
     <D extends number>(depth: D): CollectionOperations<ArrayValueAtDepth<T, D>>
@@ -321,7 +863,10 @@ export interface CollectionOperations<T> extends Collection<T> {
     <K extends keyof T, const D>(key: K, defaultValue: D): Exclude<T[K], undefined> | D
   }
   has: <K extends keyof T>(key: K) => boolean
-  keyBy: <K extends keyof T>(key: K) => Map<T[K], T>
+  keyBy: {
+    <K extends keyof T>(key: K): Map<T[K], T>
+    <P extends DotPath<T>>(path: P): Map<PathValue<T, P>, T>
+  }
   macro: (name: string, callback: (...args: any[]) => any) => void
   make: <const U>(items: readonly U[]) => CollectionOperations<U>
   mapInto: <U extends Record<string, any>>(constructor: new () => U) => CollectionOperations<U>
@@ -333,7 +878,11 @@ export interface CollectionOperations<T> extends Collection<T> {
   ) => Map<K, V>
   merge: <const U>(other: readonly U[] | CollectionOperations<U>) => CollectionOperations<T | U>
   mergeRecursive: <U>(other: readonly U[] | CollectionOperations<U>) => CollectionOperations<RecordMerge<T, U>>
-  only: <const K extends PropertyKey>(...keys: K[]) => CollectionOperations<SelectProperties<T, K>>
+  only: {
+    <const K extends keyof T>(...keys: K[]): CollectionOperations<SelectProperties<T, K>>
+    <const P extends DotPath<T>>(...paths: P[]): CollectionOperations<PickPaths<T, P>>
+    <const K extends PropertyKey>(...keys: K[]): CollectionOperations<SelectProperties<T, K>>
+  }
   // eslint-disable-next-line ts/method-signature-style
   pad<const U = T>(size: number, value: U): CollectionOperations<T | U>
   pop: () => T | undefined
@@ -393,11 +942,14 @@ export interface CollectionOperations<T> extends Collection<T> {
   mapUntil: <U>(callback: (item: T, index: number) => U, predicate: (item: U) => boolean) => CollectionOperations<U>
 
   // Async Operations
-  mapAsync: <U>(callback: AsyncCallback<T, U>) => Promise<CollectionOperations<Awaited<U>>>
-  filterAsync: (callback: AsyncCallback<T, boolean>) => Promise<CollectionOperations<T>>
-  reduceAsync: <U>(callback: (acc: U, item: T) => Promise<U>, initialValue: U) => Promise<U>
-  everyAsync: (callback: AsyncCallback<T, boolean>) => Promise<boolean>
-  someAsync: (callback: AsyncCallback<T, boolean>) => Promise<boolean>
+  mapAsync: <U>(callback: AsyncCallback<T, U>, options?: AsyncOptions<T>) => Promise<CollectionOperations<Awaited<U>>>
+  filterAsync: (callback: AsyncCallback<T, boolean>, options?: AsyncOptions<T>) => Promise<CollectionOperations<T>>
+  /** Runs one item at a time, so `concurrency` and `ordered` do not apply; a skipped item leaves the accumulator as it was. */
+  reduceAsync: <U>(callback: (acc: U, item: T, signal: AbortSignal) => Promise<U>, initialValue: U, options?: AsyncOptions<T>) => Promise<U>
+  /** Resolves `false` as soon as one item fails the check, aborting the callbacks still running. */
+  everyAsync: (callback: AsyncCallback<T, boolean>, options?: AsyncOptions<T>) => Promise<boolean>
+  /** Resolves `true` as soon as one item passes the check, aborting the callbacks still running. */
+  someAsync: (callback: AsyncCallback<T, boolean>, options?: AsyncOptions<T>) => Promise<boolean>
 
   // Accessing Elements
   // eslint-disable-next-line ts/method-signature-style
@@ -413,10 +965,10 @@ export interface CollectionOperations<T> extends Collection<T> {
   skip: (count: number) => CollectionOperations<T>
 
   // Aggregations
-  sum: (key?: keyof T) => number
-  avg: (key?: keyof T) => number
-  min: (key?: keyof T) => T | undefined
-  max: (key?: keyof T) => T | undefined
+  sum: (key?: keyof T | DotPath<T>) => number
+  avg: (key?: keyof T | DotPath<T>) => number
+  min: (key?: keyof T | DotPath<T>) => T | undefined
+  max: (key?: keyof T | DotPath<T>) => T | undefined
   median: (key?: keyof T) => number | undefined
   mode: (key?: keyof T) => T | undefined
 
@@ -480,23 +1032,51 @@ export interface CollectionOperations<T> extends Collection<T> {
 
   // Grouping & Chunking
   chunk: (size: number) => CollectionOperations<T[]>
-  groupBy: (<K extends keyof T>(_key: K) => Map<T[K], CollectionOperations<T>>) & ((callback: KeySelector<T>) => Map<string | number, CollectionOperations<T>>)
+  /**
+   * Groups items by a key, several keys, or a callback. The result is a `Map`
+   * of groups that can be chained further, e.g. `.agg({ revenue: ['sum', 'total'] })`.
+   * Grouping by several keys uses tuple keys, so `get(['north', 'paid'])` finds a group by value.
+   */
+  groupBy: {
+    <K extends keyof T>(key: K): GroupedCollection<T, T[K], SelectProperties<T, K>>
+    <P extends DotPath<T>>(path: P): GroupedCollection<T, PathValue<T, P>, Record<P, PathValue<T, P>>>
+    <const K extends readonly (keyof T)[]>(keys: K): GroupedCollection<T, { -readonly [I in keyof K]: T[K[I]] }, SelectProperties<T, K[number]>>
+    <U extends string | number>(callback: (item: T) => U): GroupedCollection<T, U, { key: U }>
+  }
   partition: {
     <S extends T>(predicate: (item: T) => item is S): [CollectionOperations<S>, CollectionOperations<Exclude<T, S>>]
     (predicate: (item: T) => boolean): [CollectionOperations<T>, CollectionOperations<T>]
   }
 
   // Advanced Grouping
-  groupByMultiple: <K extends keyof T>(...keys: K[]) => Map<string, CollectionOperations<T>>
+  groupByMultiple: <K extends keyof T>(...keys: K[]) => GroupedCollection<T, string, SelectProperties<T, K>>
   pivot: <K extends keyof T, V extends keyof T>(keyField: K, valueField: V) => Map<T[K], T[V]>
 
   // Filtering & Searching
-  where: <K extends keyof T, const V extends T[K]>(key: K, value: V) => CollectionOperations<WithPropertyValue<T, K, V>>
-  whereIn: <K extends keyof T, const V extends T[K]>(key: K, values: readonly V[]) => CollectionOperations<WithPropertyValue<T, K, V>>
-  whereNotIn: <K extends keyof T, const V extends T[K]>(key: K, values: readonly V[]) => CollectionOperations<WithoutPropertyValue<T, K, V>>
-  whereBetween: <K extends keyof T>(key: K, min: T[K], max: T[K]) => CollectionOperations<T>
-  whereNotBetween: <K extends keyof T>(key: K, min: T[K], max: T[K]) => CollectionOperations<T>
-  unique: <K extends keyof T>(key?: K) => CollectionOperations<T>
+  where: {
+    <K extends keyof T, const V extends T[K]>(key: K, value: V): CollectionOperations<WithPropertyValue<T, K, V>>
+    <P extends DotPath<T>>(path: P, value: PathValue<T, P>): CollectionOperations<T>
+  }
+  whereIn: {
+    <K extends keyof T, const V extends T[K]>(key: K, values: readonly V[]): CollectionOperations<WithPropertyValue<T, K, V>>
+    <P extends DotPath<T>>(path: P, values: readonly PathValue<T, P>[]): CollectionOperations<T>
+  }
+  whereNotIn: {
+    <K extends keyof T, const V extends T[K]>(key: K, values: readonly V[]): CollectionOperations<WithoutPropertyValue<T, K, V>>
+    <P extends DotPath<T>>(path: P, values: readonly PathValue<T, P>[]): CollectionOperations<T>
+  }
+  whereBetween: {
+    <K extends keyof T>(key: K, min: T[K], max: T[K]): CollectionOperations<T>
+    <P extends DotPath<T>>(path: P, min: PathValue<T, P>, max: PathValue<T, P>): CollectionOperations<T>
+  }
+  whereNotBetween: {
+    <K extends keyof T>(key: K, min: T[K], max: T[K]): CollectionOperations<T>
+    <P extends DotPath<T>>(path: P, min: PathValue<T, P>, max: PathValue<T, P>): CollectionOperations<T>
+  }
+  unique: {
+    (options?: EqualityOptions<T>): CollectionOperations<T>
+    <K extends keyof T>(key: K, options?: EqualityOptions<T[K]>): CollectionOperations<T>
+  }
   when: {
     <const C extends boolean, U = T>(condition: C, callback: (collection: CollectionOperations<T>) => CollectionOperations<U>): CollectionOperations<C extends true ? U : T>
     <U = T>(condition: ConditionalCallback<T>, callback: (collection: CollectionOperations<T>) => CollectionOperations<U>): CollectionOperations<T | U>
@@ -508,19 +1088,32 @@ export interface CollectionOperations<T> extends Collection<T> {
   }
 
   // Advanced Filtering
-  whereNull: <K extends keyof T>(key: K) => CollectionOperations<WithNullishProperty<T, K>>
-  whereNotNull: <K extends keyof T>(key: K) => CollectionOperations<WithNonNullableProperty<T, K>>
-  whereLike: <K extends keyof T>(key: K, pattern: string) => CollectionOperations<T>
-  whereRegex: <K extends keyof T>(key: K, regex: RegExp) => CollectionOperations<T>
+  whereNull: {
+    <K extends keyof T>(key: K): CollectionOperations<WithNullishProperty<T, K>>
+    (path: DotPath<T>): CollectionOperations<T>
+  }
+  whereNotNull: {
+    <K extends keyof T>(key: K): CollectionOperations<WithNonNullableProperty<T, K>>
+    (path: DotPath<T>): CollectionOperations<T>
+  }
+  whereLike: (key: keyof T | DotPath<T>, pattern: string) => CollectionOperations<T>
+  whereRegex: (key: keyof T | DotPath<T>, regex: RegExp) => CollectionOperations<T>
   whereInstanceOf: <U>(constructor: abstract new (...args: never[]) => U) => CollectionOperations<InstanceOf<T, U>>
 
   // Sorting
   sort: (compareFunction?: CompareFunction<T>) => CollectionOperations<T>
-  sortBy: <K extends keyof T>(key: K, direction?: 'asc' | 'desc') => CollectionOperations<T>
-  sortByDesc: <K extends keyof T>(key: K) => CollectionOperations<T>
+  sortBy: {
+    (key: keyof T | DotPath<T>, direction?: 'asc' | 'desc', options?: SortOptions): CollectionOperations<T>
+    (keys: readonly SortKey<T>[], options?: SortOptions): CollectionOperations<T>
+  }
+  sortByDesc: (key: keyof T | DotPath<T>, options?: SortOptions) => CollectionOperations<T>
+  topK: (n: number, by?: keyof T | DotPath<T> | ((_item: T) => unknown) | readonly SortKey<T>[], options?: TopKOptions) => CollectionOperations<T>
 
   // Data Extraction
-  pluck: <K extends keyof T>(key: K) => CollectionOperations<T[K]>
+  pluck: {
+    <K extends keyof T>(key: K): CollectionOperations<T[K]>
+    <P extends DotPath<T>>(path: P): CollectionOperations<PathValue<T, P>>
+  }
   values: () => CollectionOperations<T>
   keys: <K extends keyof T>(key: K) => CollectionOperations<T[K]>
 
@@ -537,13 +1130,13 @@ export interface CollectionOperations<T> extends Collection<T> {
   slug: (this: CollectionOperations<string>) => CollectionOperations<string>
 
   // Set Operations
-  symmetricDiff: <const U = T>(other: readonly U[] | CollectionOperations<U>) => CollectionOperations<T | U>
+  symmetricDiff: <const U = T>(other: readonly U[] | CollectionOperations<U>, options?: EqualityOptions<T | U>) => CollectionOperations<T | U>
   cartesianProduct: <const U>(other: readonly U[] | CollectionOperations<U>) => CollectionOperations<[T, U]>
   power: () => CollectionOperations<CollectionOperations<T>>
 
   // Set Operations
-  intersect: <const U>(other: readonly U[] | CollectionOperations<U>) => CollectionOperations<Overlap<T, U>>
-  union: <const U>(other: readonly U[] | CollectionOperations<U>) => CollectionOperations<T | U>
+  intersect: <const U>(other: readonly U[] | CollectionOperations<U>, options?: EqualityOptions<T | U>) => CollectionOperations<Overlap<T, U>>
+  union: <const U>(other: readonly U[] | CollectionOperations<U>, options?: EqualityOptions<T | U>) => CollectionOperations<T | U>
 
   // Analysis and Statistics
   describe: <K extends keyof T>(key?: K) => Map<string, number>
@@ -564,9 +1157,13 @@ export interface CollectionOperations<T> extends Collection<T> {
   toSet: () => Set<T>
 
   // Debugging and Development
-  debug: () => CollectionOperations<T>
-  dump: () => void
-  dd: () => never
+  /** Prints the collection like `dump()` with the heap in use, and returns it for chaining. */
+  debug: (options?: DumpOptions) => CollectionOperations<T>
+  /** Prints the collection as a table, or as a tree for nested data. */
+  dump: (options?: DumpOptions) => void
+  dd: (options?: DumpOptions) => never
+  /** Prints the changes from this collection to `other` side by side. */
+  dumpDiff: (other: CollectionOperations<T> | T[], options?: DumpDiffOptions<T>) => void
 
   // Time Series Operations
   timeSeries: (options: TimeSeriesOptions) => CollectionOperations<TimeSeriesPoint>
@@ -582,14 +1179,42 @@ export interface CollectionOperations<T> extends Collection<T> {
   sanitize: (rules: { [K in keyof T]?: (value: T[K]) => T[K] }) => CollectionOperations<T>
 
   // Advanced Querying
-  query: (sql: string, params?: unknown[]) => CollectionOperations<T>
+  /**
+   * Run a SQL query against the collection, e.g.
+   * `SELECT name, SUM(total) AS revenue FROM self WHERE status IN (?, ?) GROUP BY name ORDER BY revenue DESC LIMIT 10`.
+   * The `SELECT ... FROM` part is optional, so `where age > ?` filters the items as-is.
+   * @throws {QuerySyntaxError} with the line and column of the offending token
+   */
+  query: <U = T>(sql: string, params?: readonly unknown[]) => CollectionOperations<U>
   having: <K extends keyof T>(key: K, op: HavingOperator, value: T[K]) => CollectionOperations<T>
   crossJoin: <U>(other: CollectionOperations<U>) => CollectionOperations<Assign<T, U>>
-  leftJoin: <U, K extends keyof T>(
-    other: CollectionOperations<U>,
-    key: K,
-    otherKey: keyof U
-  ) => CollectionOperations<LeftAssign<T, U>>
+  /**
+   * Joins every item with each matching item of `other`, dropping items without a match.
+   * Pass arrays to match on several keys, and `merge` to resolve name collisions.
+   */
+  innerJoin: {
+    <U>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>): CollectionOperations<Assign<T, U>>
+    <U, R>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>, merge: (left: T, right: U) => R): CollectionOperations<R>
+  }
+  /** Like `innerJoin`, but keeps items without a match once, with `right` undefined. */
+  leftJoin: {
+    <U>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>): CollectionOperations<LeftAssign<T, U>>
+    <U, R>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>, merge: (left: T, right: U | undefined) => R): CollectionOperations<R>
+  }
+  /** Like `innerJoin`, but keeps items of `other` without a match once, with `left` undefined. */
+  rightJoin: {
+    <U>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>): CollectionOperations<RightAssign<T, U>>
+    <U, R>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>, merge: (left: T | undefined, right: U) => R): CollectionOperations<R>
+  }
+  /** Keeps unmatched items from both sides: left rows in order, then unmatched right rows. */
+  fullOuterJoin: {
+    <U>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>): CollectionOperations<OuterAssign<T, U>>
+    <U, R>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>, merge: (left: T | undefined, right: U | undefined) => R): CollectionOperations<R>
+  }
+  /** Keeps the items that have at least one match in `other`, unchanged and without fan-out. */
+  semiJoin: <U>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>) => CollectionOperations<T>
+  /** Keeps the items that have no match in `other`. */
+  antiJoin: <U>(other: CollectionOperations<U>, key: JoinKey<T>, otherKey: JoinKey<U>) => CollectionOperations<T>
 
   // Streaming Operations
   stream: () => ReadableStream<T>
@@ -598,12 +1223,26 @@ export interface CollectionOperations<T> extends Collection<T> {
 
   // Serialization & Deserialization
   toJSON: (options?: SerializationOptions) => string
-  toCSV: (options?: SerializationOptions) => string
-  toXML: (options?: SerializationOptions) => string
-  parse: (data: string, format: 'json' | 'csv' | 'xml') => CollectionOperations<T>
+  /** Writes one JSON document per item, each on its own line. */
+  toNDJSON: (options?: SerializationOptions) => string
+  /** Writes RFC 4180 CSV. Objects and arrays are written as JSON, dates as ISO strings and nullish values as empty fields. */
+  toCSV: (options?: CSVWriteOptions) => string
+  /** Writes XML that `parse(data, 'xml')` reads back, except for the cases listed in the docs. Objects become nested elements, arrays `itemTag` entries and `null` an empty element. */
+  toXML: (options?: XMLWriteOptions) => string
+  parse: {
+    (data: string, format: 'csv', options?: CSVParseOptions): CollectionOperations<T>
+    (data: string, format: 'xml', options?: XMLParseOptions): CollectionOperations<T>
+    (data: string, format: 'ndjson', options?: NDJSONParseOptions): CollectionOperations<T>
+    (data: string, format: 'json'): CollectionOperations<T>
+  }
 
   // Caching & Performance
-  cache: (ttl?: number) => CollectionOperations<T>
+  /**
+   * Caches every collection derived from this one, keyed by a fingerprint of
+   * the items and the calls that derived it. Callbacks are recognized by
+   * reference, so pass the same function to reuse a result.
+   */
+  cache: (ttlOrOptions?: number | CacheOptions) => CachedCollectionOperations<T>
   memoize: <K extends keyof T>(key: K) => CollectionOperations<T>
   prefetch: () => Promise<CollectionOperations<Awaited<T>>>
   lazy: () => LazyCollectionOperations<T>
@@ -645,6 +1284,12 @@ export interface CollectionOperations<T> extends Collection<T> {
   zipWith: <U, R>(other: CollectionOperations<U>, fn: (a: T, b: U) => R) => CollectionOperations<R>
   scan: <U>(callback: (acc: U, item: T) => U, initial: U) => CollectionOperations<U>
   unfold: <U>(fn: (seed: U) => [T, U] | null, initial: U) => CollectionOperations<T>
+  /**
+   * Adds window-function columns to every item, computed within partitions in
+   * `orderBy` order, e.g. `window({ partitionBy: 'region', orderBy: 'date' }, { running: ['sum', 'total'] })`.
+   * Items keep their original order.
+   */
+  window: <const C extends Record<string, WindowFunction<T>>>(options: WindowOptions<T>, columns: C) => CollectionOperations<Assign<T, { -readonly [P in keyof C]: WindowValue<T, C[P]> }>>
 
   // Monitoring & Metrics
   metrics: () => CollectionMetrics
@@ -681,22 +1326,12 @@ export interface CollectionOperations<T> extends Collection<T> {
   removeOutliers: <K extends keyof T>(key: K, threshold?: number) => CollectionOperations<T>
 
   // Versioning & History
-  // readonly currentVersion: number
-  // snapshot: () => Promise<number>
-  // hasVersion: (version: number) => boolean
-  // getVersion: (version: number) => CollectionOperations<T> | null
-  // diff: (version1: number, version2: number) => CollectionOperations<VersionInfo<T>>
-  // diffSummary: (version1: number, version2: number) => {
-  //   added: number
-  //   removed: number
-  //   updated: number
-  //   changes: Array<{
-  //     type: 'add' | 'update' | 'delete'
-  //     field?: keyof T
-  //     oldValue?: any
-  //     newValue?: any
-  //   }>
-  // }
+  /**
+   * Copies the collection into one whose `add()`, `update()`, `remove()`,
+   * `pop()` and `shift()` are recorded as versions that can be diffed,
+   * undone, redone and rolled back. Items are matched by `key`.
+   */
+  versioned: (options: VersionedOptions<T>) => VersionedCollectionOperations<T>
   // setDiff: (other: T[] | CollectionOperations<T>) => CollectionOperations<T>
 
   // Advanced Querying & Search
@@ -724,15 +1359,22 @@ export interface CollectionOperations<T> extends Collection<T> {
   ) => Map<T[R], Map<T[C], number>>
 
   // Performance Optimizations
-  parallel: <U>(
-    callback: (chunk: CollectionOperations<T>) => Promise<U>,
-    options?: { chunks?: number, maxConcurrency?: number }
-  ) => Promise<CollectionOperations<U>>
+  /**
+   * Processes the items in chunks, either with a callback on the main thread or,
+   * given a worker module path or URL, on a pool of worker threads for CPU-bound work.
+   */
+  parallel: {
+    <U>(callback: (chunk: CollectionOperations<T>) => Promise<U>, options?: { chunks?: number, maxConcurrency?: number }): Promise<CollectionOperations<U>>
+    <U = unknown>(worker: string | URL, options?: ParallelWorkerOptions): Promise<CollectionOperations<U>>
+  }
   index: <K extends keyof T>(keys: K[]) => CollectionOperations<T>
   optimize: () => CollectionOperations<T>
 
   // Export & Integration
-  toSQL: (table: string) => string
+  /** Writes `INSERT` statements for `table`, split into batches, with optional upserts and `CREATE TABLE`. */
+  toSQL: (table: string, options?: SQLExportOptions<T>) => string
+  /** Writes the items to a SQLite table in one transaction, creating it with inferred column types when missing. Returns the rows changed. */
+  toSQLite: (db: Database, table: string, options?: SQLiteWriteOptions<T>) => number
   /**
    * Convert collection to GraphQL-formatted string
    * @param typename The GraphQL type name for the objects
@@ -742,13 +1384,22 @@ export interface CollectionOperations<T> extends Collection<T> {
   toPandas: () => string // Returns Python code for pandas DataFrame
 
   // Developer Experience
-  playground: () => void // Opens collection in interactive playground
-  explain: () => string // Explains the current collection pipeline
-  benchmark: () => Promise<{
-    timing: Record<string, number>
-    memory: Record<string, number>
-    complexity: Record<string, string>
-  }>
+  /** Opens an interactive table inspector in the terminal; resolves with the pipeline built in it. */
+  playground: (options?: PlaygroundOptions) => Promise<PlaygroundResult>
+  /** Renders the steps recorded since `trace()`; an untraced collection has none. */
+  explain: (format?: TraceFormat) => string
+  /** Starts recording every chained operation, for `explain()` to render. */
+  trace: () => CollectionOperations<T>
+  benchmark: {
+    /** Times filter, map, reduce and sort on the collection once each. */
+    (): Promise<{
+      timing: Record<string, number>
+      memory: Record<string, number>
+      complexity: Record<string, string>
+    }>
+    /** Runs `pipeline` on inputs of several sizes, reports median and p95 timings and fits a growth class. */
+    (pipeline: (_collection: CollectionOperations<T>) => unknown, options?: BenchmarkOptions<T>): Promise<BenchmarkReport>
+  }
 
   // Advanced Mathematical Operations
   /**
@@ -777,12 +1428,7 @@ export interface CollectionOperations<T> extends Collection<T> {
   ) => CollectionOperations<SetProperty<T, 'formatted', string>>
 
   // Configuration & Metadata
-  configure: (options: {
-    precision?: number
-    timezone?: string
-    locale?: string
-    errorHandling?: 'strict' | 'loose'
-  }) => void
+  configure: (options: CollectionConfig) => void
   // metadata: () => {
   //   schema: Record<keyof T, string>
   //   constraints: Record<keyof T, string[]>
@@ -791,11 +1437,239 @@ export interface CollectionOperations<T> extends Collection<T> {
   // }
 }
 
+/**
+ * A `window()` column. Ranking functions and `ntile` ignore the frame, `lag`
+ * and `lead` look an offset (default 1) away with an optional default, and
+ * the rest aggregate the rows in the frame, skipping null values.
+ */
+export type WindowFunction<T> =
+  | 'row_number'
+  | 'rank'
+  | 'dense_rank'
+  | readonly ['ntile', number]
+  | readonly ['lag' | 'lead', keyof T]
+  | readonly ['lag' | 'lead', keyof T, number]
+  | readonly ['lag' | 'lead', keyof T, number, unknown]
+  | readonly ['first_value' | 'last_value', keyof T]
+  | readonly ['count' | 'sum' | 'avg' | 'min' | 'max', keyof T]
+
+/** The value a `WindowFunction` produces for each item. */
+export type WindowValue<T, F> = F extends 'row_number' | 'rank' | 'dense_rank' | readonly ['ntile' | 'count' | 'sum', unknown]
+  ? number
+  : F extends readonly ['avg', keyof T]
+    ? number | undefined
+    : F extends readonly ['lag' | 'lead', infer K extends keyof T, number, infer D]
+      ? T[K] | D
+      : F extends readonly [string, infer K extends keyof T, ...unknown[]]
+        ? T[K] | undefined
+        : never
+
+/**
+ * The rows a window aggregate sees, relative to the current row: `preceding`
+ * rows before it and `following` rows after it, or the partition edge for
+ * `'unbounded'`. Also accepts SQL such as `'ROWS BETWEEN 3 PRECEDING AND CURRENT ROW'`.
+ */
+export type WindowFrame = { preceding?: number | 'unbounded', following?: number | 'unbounded' } | string
+
+export interface WindowOptions<T> {
+  partitionBy?: keyof T | readonly (keyof T)[]
+  orderBy?: keyof T
+  direction?: 'asc' | 'desc'
+  /** Defaults to the partition start through the current row and its peers, or the whole partition without `orderBy`. */
+  frame?: WindowFrame
+}
+
+/** Aggregations available to `GroupedCollection.agg()`. */
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'median' | 'min' | 'max' | 'first' | 'last'
+
+/**
+ * One output column of `agg()`: `'count'` for the group size, `[fn, key]` to
+ * aggregate a property or dot path while skipping null values, or a callback over the group.
+ */
+export type AggregateSpec<T> = 'count' | readonly [AggregateFunction, keyof T | DotPath<T>] | ((_group: CollectionOperations<T>) => unknown)
+
+/** The value an `AggregateSpec` produces for each group. */
+export type AggregateValue<T, S> = S extends 'count' | readonly ['count' | 'sum', unknown]
+  ? number
+  : S extends readonly ['avg' | 'median', unknown]
+    ? number | undefined
+    : S extends readonly [AggregateFunction, infer K extends keyof T]
+      ? T[K] | undefined
+      : S extends readonly [AggregateFunction, infer P extends DotPath<T>]
+        ? PathValue<T, P> | undefined
+        : S extends (_group: CollectionOperations<T>) => infer V ? V : never
+
+/** A row produced by `agg()`: the group's key fields followed by one field per aggregate. */
+export type AggregateRow<R, T, S> = {
+  [P in keyof R | keyof S]: P extends keyof S ? AggregateValue<T, S[P]> : P extends keyof R ? R[P] : never
+}
+
+/**
+ * The groups produced by `groupBy()`, keyed by `K`. `R` holds the key fields
+ * every `agg()` row starts with.
+ */
+export interface GroupedCollection<T, K, R = { key: K }> extends Map<K, CollectionOperations<T>> {
+  agg: <const S extends Record<string, AggregateSpec<T>>>(spec: S) => CollectionOperations<AggregateRow<R, T, S>>
+  having: (predicate: (group: CollectionOperations<T>, key: K) => boolean) => GroupedCollection<T, K, R>
+  /** Sorts the groups by `by`, or by their keys when omitted. */
+  sortBy: (by?: (group: CollectionOperations<T>, key: K) => unknown, direction?: 'asc' | 'desc') => GroupedCollection<T, K, R>
+  map: <U>(callback: (group: CollectionOperations<T>, key: K) => CollectionOperations<U> | readonly U[]) => GroupedCollection<U, K, R>
+  ungroup: () => CollectionOperations<T>
+  toMap: () => Map<K, CollectionOperations<T>>
+}
+
 export interface CacheEntry<T> {
   data: T[]
+  /** When the entry goes stale, in milliseconds since the epoch. */
   expiry: number
 }
 
+/**
+ * Where `cache()` keeps its entries. Stores only hold entries; freshness is
+ * checked by the caller. See `createMemoryStore()` and `createFileStore()`.
+ */
+export interface CacheStore {
+  get: (key: string) => CacheEntry<unknown> | undefined
+  set: (key: string, entry: CacheEntry<unknown>) => void
+  delete: (key: string) => boolean
+  /** Removes every entry, or the entry for `prefix` and every entry built on it. */
+  clear: (prefix?: string) => void
+}
+
+export interface CacheOptions {
+  /** How long entries stay fresh, in milliseconds. Defaults to one minute. */
+  ttl?: number
+  /** Defaults to a shared in-memory store holding the 100 most recently used entries. */
+  store?: CacheStore
+  /**
+   * Names the pipeline instead of fingerprinting it. Callbacks are only
+   * recognized within one process, so a key lets other processes sharing a
+   * file store find the entries.
+   */
+  key?: string
+}
+
+/** How `explain()` renders a trace. */
+export type TraceFormat = 'text' | 'json' | 'mermaid'
+
+/** One operation recorded by a traced collection. */
+export interface TraceStep {
+  operation: string
+  /** A short summary of the arguments, with functions shown by their source. */
+  arguments: string
+  inputCount: number
+  outputCount: number
+  durationMs: number
+  /** The growth of the heap during the operation, or 0 when it shrank. */
+  memoryBytes: number
+}
+
+/** A growth class `benchmark()` can fit to its measurements. */
+export type ComplexityClass = 'O(1)' | 'O(log n)' | 'O(n)' | 'O(n log n)' | 'O(n²)' | 'O(n³)'
+
+export interface BenchmarkOptions<T> {
+  /** The input sizes to run the pipeline on. Defaults to `[1e3, 1e4, 1e5]`. */
+  sizes?: number[]
+  /** Measured runs per size. Defaults to 10. */
+  runs?: number
+  /** Unmeasured runs per size before the measured ones. Defaults to 2. */
+  warmup?: number
+  /** Makes the input of a given size. Defaults to repeating the collection's items. */
+  generator?: (_size: number) => Iterable<T>
+}
+
+/** The timings of the runs on one input size. */
+export interface BenchmarkMeasurement {
+  size: number
+  runs: number
+  medianMs: number
+  /** The 95th percentile, by nearest rank. */
+  p95Ms: number
+  minMs: number
+  maxMs: number
+  /** The median growth of the heap during a run, or 0 when it shrank. */
+  heapBytes: number
+}
+
+/** What a benchmark report saves as JSON, and what it compares against. */
+export interface BenchmarkData {
+  measurements: BenchmarkMeasurement[]
+  /** The growth class that fits the median timings best; undefined with fewer than two sizes. */
+  complexity: ComplexityClass | undefined
+  /** The slope of the median timings against size on a log-log scale. */
+  exponent: number | undefined
+}
+
+export interface BenchmarkReport extends BenchmarkData {
+  /** The measurements without the methods, so `JSON.stringify(report)` saves a baseline. */
+  toJSON: () => BenchmarkData
+  /** Renders a Markdown table of the timings next to those of a saved baseline. */
+  compare: (_baseline: BenchmarkData) => string
+}
+
+/** Settings given to `configure()`, kept by the collections derived from the configured one. */
+export interface CollectionConfig {
+  precision?: number
+  timezone?: string
+  /** Default locale for `sortBy()` and `topK()`. */
+  locale?: string
+  errorHandling?: 'strict' | 'loose'
+  /** Defaults for `dump()`, `dd()`, `debug()` and `dumpDiff()`. */
+  dump?: DumpOptions
+}
+
+/** How `dump()` and its siblings render a collection. Set defaults with `configure({ dump })`. */
+export interface DumpOptions {
+  /** The widest a line may get. Defaults to the terminal's width, or 100 columns. */
+  width?: number
+  /** Rows, and entries per level of a tree, shown before the rest are counted. Defaults to 20. */
+  maxRows?: number
+  /** Longer table cells are cut off. Defaults to 24. */
+  maxColumnWidth?: number
+  /** Levels of a tree shown before nested values are collapsed. Defaults to 3. */
+  depth?: number
+  /** Defaults to whether stdout is a TTY, unless `NO_COLOR` is set. */
+  colors?: boolean
+}
+
+export interface DumpDiffOptions<T> extends DumpOptions {
+  /** Pairs items by this key instead of by position. */
+  key?: keyof T | DotPath<T>
+}
+
+export interface PlaygroundOptions {
+  /** Where commands are read from. Defaults to `process.stdin`. */
+  input?: NodeJS.ReadableStream
+  /** Where tables are written to. Defaults to `process.stdout`; line editing and history need a TTY. */
+  output?: NodeJS.WritableStream
+  /** Rows per page. Defaults to 20. */
+  pageSize?: number
+  /** Longer cells are cut off. Defaults to 30. */
+  maxColumnWidth?: number
+  /** The expression the exported code starts from. Defaults to `collect(items)`. */
+  source?: string
+}
+
+/** What a `playground()` session built. */
+export interface PlaygroundResult {
+  /** The result of the pipeline. */
+  collection: CollectionOperations<unknown>
+  /** The chains that make up the pipeline, in order. */
+  steps: string[]
+  /** The pipeline as TypeScript. */
+  code: string
+  /** Every line typed in the session, commands included. */
+  history: string[]
+}
+
+/** A collection whose derived collections are answered from a cache while fresh. */
+export type CachedCollectionOperations<T> = CollectionOperations<T> & {
+  /** The key its entries are stored under. */
+  readonly fingerprint: string
+  /** Drops the cached results built from this collection. */
+  invalidate: () => void
+}
+
 export interface ClusterResult<T> {
   cluster: number
   data: T
@@ -70,30 +70,95 @@ export function validateCoordinates(lat: number, lon: number): boolean {
   return lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180
 }
 
-// function deepEqual(a: any, b: any): boolean {
-//   if (a === b)
-//     return true
+/**
+ * Compares two values structurally: arrays and typed arrays item by item,
+ * dates by time, maps and sets by their entries, and other objects by
+ * prototype and own enumerable keys. Cycles are followed once.
+ */
+export function deepEqual(a: any, b: any, seen: Map<object, Set<object>> = new Map()): boolean {
+  if (Object.is(a, b))
+    return true
+
+  if (typeof a !== 'object' || typeof b !== 'object')
+    return false
+  if (a === null || b === null)
+    return false
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b))
+    return false
+  // A pair already being compared further up is assumed equal until proven
+  // otherwise. One object can be paired with several others when the two
+  // sides have cycles of different lengths.
+  let partners = seen.get(a)
+  if (partners?.has(b))
+    return true
+  if (!partners) {
+    partners = new Set()
+    seen.set(a, partners)
+  }
+  partners.add(b)
+
+  try {
+    if (a instanceof Date)
+      return Object.is(a.getTime(), b.getTime())
+
+    if (ArrayBuffer.isView(a)) {
+      const left = a as unknown as ArrayLike<unknown>
+      const right = b as ArrayLike<unknown>
+      if (left.length !== right.length)
+        return false
+      for (let i = 0; i < left.length; i++) {
+        if (!Object.is(left[i], right[i]))
+          return false
+      }
+      return true
+    }
+
+    if (a instanceof Map) {
+      if (a.size !== b.size)
+        return false
+      for (const [key, value] of a) {
+        if (!b.has(key) || !deepEqual(value, b.get(key), seen))
+          return false
+      }
+      return true
+    }
 
-//   if (typeof a !== 'object' || typeof b !== 'object')
-//     return false
-//   if (a === null || b === null)
-//     return false
+    if (a instanceof Set) {
+      if (a.size !== b.size)
+        return false
+      const unmatched = [...b].filter(value => !a.has(value))
+      for (const value of a) {
+        if (b.has(value))
+          continue
+        const match = unmatched.findIndex(other => deepEqual(value, other, seen))
+        if (match === -1)
+          return false
+        unmatched.splice(match, 1)
+      }
+      return true
+    }
 
-//   const keysA = Object.keys(a)
-//   const keysB = Object.keys(b)
+    const keysA = Object.keys(a)
+    const keysB = Object.keys(b)
 
-//   if (keysA.length !== keysB.length)
-//     return false
+    if (keysA.length !== keysB.length)
+      return false
 
-//   for (const key of keysA) {
-//     if (!keysB.includes(key))
-//       return false
-//     if (!deepEqual(a[key], b[key]))
-//       return false
-//   }
+    for (const key of keysA) {
+      if (!Object.hasOwn(b, key))
+        return false
+      if (!deepEqual(a[key], b[key], seen))
+        return false
+    }
 
-//   return true
-// }
+    return true
+  }
+  finally {
+    partners.delete(b)
+    if (partners.size === 0)
+      seen.delete(a)
+  }
+}
 
 // function getItemKey(item: any): string {
 //   if ('id' in item)
@@ -0,0 +1,192 @@
+import type { CollectionOperations, VersionChange, VersionedCollectionOperations, VersionedOptions, VersionInfo, VersionStore } from './types'
+import { invalidateIndex } from './collect'
+
+/**
+ * Wraps a collection so that every change to its items is recorded as a
+ * version. Changes remember the position and the item they replaced, so any
+ * version in the history can be rebuilt by reverting changes from the current
+ * items, and a rollback is just those reverts recorded as one new version.
+ */
+export function createVersionedCollection<T>(collection: CollectionOperations<T>, options: VersionedOptions<T>): VersionedCollectionOperations<T> {
+  const { key } = options
+  const keyOf = typeof key === 'function' ? key as (item: T) => unknown : (item: T) => (item as any)?.[key]
+  const items = collection.items
+  const store: VersionStore<T> = {
+    currentVersion: 0,
+    snapshots: new Map([[0, { items: [...items], timestamp: new Date() }]]),
+    changes: [],
+  }
+  const undone: VersionInfo<T>[] = []
+  let nextVersion = 1
+
+  const keys = new Set(items.map(keyOf))
+  if (keys.size !== items.length)
+    throw new Error('Versioned collections need a unique key for every item')
+
+  const positionOf = (itemKey: unknown) => items.findIndex(item => Object.is(keyOf(item), itemKey))
+
+  function record(changes: VersionChange<T>[]): number {
+    for (const change of changes)
+      applyChange(items, change)
+    const info: VersionInfo<T> = { version: nextVersion++, timestamp: new Date(), changes }
+    store.changes.push(info)
+    store.currentVersion = info.version
+    undone.length = 0
+    invalidateIndex(collection)
+    return info.version
+  }
+
+  function removeAt(index: number): VersionChange<T> {
+    const item = items[index]
+    return { type: 'delete', item, previousItem: item, index }
+  }
+
+  function takeAt(index: number): T | undefined {
+    if (index < 0 || index >= items.length)
+      return undefined
+    const item = items[index]
+    record([removeAt(index)])
+    return item
+  }
+
+  /** Where `version` sits in the history; version `0` comes before every entry. */
+  function historyPosition(version: number): number {
+    const position = version === 0 ? 0 : store.changes.findIndex(info => info.version === version) + 1
+    if (position === 0 && version !== 0)
+      throw new Error(`Version ${version} is not in the history`)
+    return position
+  }
+
+  /** The changes that turn the current items back into those of `version`, in the order they apply. */
+  function revertsTo(version: number): VersionChange<T>[] {
+    return store.changes
+      .slice(historyPosition(version))
+      .reverse()
+      .flatMap(info => [...info.changes].reverse().map(invertChange))
+  }
+
+  function itemsAt(version: number): T[] {
+    historyPosition(version)
+    const snapshot = store.snapshots.get(version)
+    if (snapshot)
+      return [...snapshot.items]
+    const rebuilt = [...items]
+    for (const change of revertsTo(version))
+      applyChange(rebuilt, change)
+    return rebuilt
+  }
+
+  const members: Omit<VersionedCollectionOperations<T>, keyof CollectionOperations<T> | 'currentVersion'> = {
+    add(item) {
+      if (positionOf(keyOf(item)) !== -1)
+        throw new Error(`An item with key ${String(keyOf(item))} already exists`)
+      return record([{ type: 'add', item, index: items.length }])
+    },
+
+    update(item) {
+      const index = positionOf(keyOf(item))
+      if (index === -1)
+        throw new Error(`No item with key ${String(keyOf(item))}`)
+      return record([{ type: 'update', item, previousItem: items[index], index }])
+    },
+
+    remove(itemKey) {
+      const index = positionOf(itemKey)
+      if (index === -1)
+        throw new Error(`No item with key ${String(itemKey)}`)
+      return record([removeAt(index)])
+    },
+
+    snapshot() {
+      store.snapshots.set(store.currentVersion, { items: [...items], timestamp: new Date() })
+      return store.currentVersion
+    },
+
+    diffSince(version) {
+      const before = new Map(itemsAt(version).map((item, index) => [keyOf(item), { item, index }]))
+      const after = new Set(items.map(keyOf))
+      const changes: VersionChange<T>[] = []
+
+      for (const [itemKey, { item, index }] of before) {
+        if (!after.has(itemKey))
+          changes.push({ type: 'delete', item, previousItem: item, index })
+      }
+      items.forEach((item, index) => {
+        const previous = before.get(keyOf(item))
+        if (!previous)
+          changes.push({ type: 'add', item, index })
+        else if (!Object.is(previous.item, item))
+          changes.push({ type: 'update', item, previousItem: previous.item, index })
+      })
+      return changes
+    },
+
+    rollback(version) {
+      const reverts = revertsTo(version)
+      return reverts.length === 0 ? store.currentVersion : record(reverts)
+    },
+
+    undo() {
+      const info = store.changes.pop()
+      if (!info)
+        return false
+      for (const change of [...info.changes].reverse())
+        applyChange(items, invertChange(change))
+      undone.push(info)
+      store.currentVersion = store.changes.at(-1)?.version ?? 0
+      invalidateIndex(collection)
+      return true
+    },
+
+    redo() {
+      const info = undone.pop()
+      if (!info)
+        return false
+      for (const change of info.changes)
+        applyChange(items, change)
+      store.changes.push(info)
+      store.currentVersion = info.version
+      invalidateIndex(collection)
+      return true
+    },
+
+    history() {
+      return store.changes.map(info => ({ ...info, changes: [...info.changes] }))
+    },
+  }
+
+  // `pop()` and `shift()` are the collection's own in-place changes, so they are recorded too
+  const removals = {
+    pop: () => takeAt(items.length - 1),
+    shift: () => takeAt(0),
+  }
+
+  return new Proxy(collection as VersionedCollectionOperations<T>, {
+    get(target, property, receiver) {
+      if (property === 'currentVersion')
+        return store.currentVersion
+      if (Object.hasOwn(members, property))
+        return members[property as keyof typeof members]
+      if (Object.hasOwn(removals, property))
+        return removals[property as keyof typeof removals]
+      return Reflect.get(target, property, receiver)
+    },
+  })
+}
+
+function applyChange<T>(items: T[], change: VersionChange<T>): void {
+  if (change.type === 'add')
+    items.splice(change.index, 0, change.item)
+  else if (change.type === 'update')
+    items[change.index] = change.item
+  else
+    items.splice(change.index, 1)
+}
+
+function invertChange<T>(change: VersionChange<T>): VersionChange<T> {
+  if (change.type === 'add')
+    return { type: 'delete', item: change.item, previousItem: change.item, index: change.index }
+  if (change.type === 'update')
+    return { type: 'update', item: change.previousItem as T, previousItem: change.item, index: change.index }
+  return { type: 'add', item: change.previousItem ?? change.item, index: change.index }
+}
@@ -0,0 +1,220 @@
+import type { CollectionOperations, WindowFrame, WindowFunction, WindowOptions } from './types'
+import { collect } from './collect'
+import { compareValues } from './sort'
+
+/** Tags each row with its position in the source collection while it is partitioned and sorted. */
+const sourcePosition = Symbol('sourcePosition')
+
+interface FrameBounds {
+  /** Rows before the current row; negative values start after it. */
+  preceding: number
+  /** Rows after the current row; negative values end before it. */
+  following: number
+  /** Ends the frame at the current row's last peer instead, as SQL's default `RANGE` frame does. */
+  throughPeers?: boolean
+}
+
+/**
+ * Computes window-function columns for every item of `source`. Partitions come
+ * from `groupBy` and are ordered with `sortBy`, then each item is returned in
+ * its original position with the computed columns added.
+ */
+export function applyWindow<T>(
+  source: CollectionOperations<T>,
+  options: WindowOptions<T>,
+  columns: Record<string, WindowFunction<T>>,
+): unknown[] {
+  const { partitionBy, orderBy, direction = 'asc' } = options
+  const bounds = parseFrame(options.frame, orderBy !== undefined)
+
+  const rows = collect(source.items.map((item, position) => ({ ...item, [sourcePosition]: position })))
+  const partitionKeys = partitionBy === undefined ? [] : Array.isArray(partitionBy) ? [...partitionBy] : [partitionBy]
+  const partitions = partitionKeys.length
+    ? Array.from(rows.groupBy(partitionKeys as Array<keyof T>).values())
+    : [rows]
+
+  const result: unknown[] = Array.from({ length: source.items.length })
+  for (const partition of partitions) {
+    const ordered = orderBy === undefined ? partition.items : partition.sortBy(orderBy, direction).items
+    const computed = ordered.map(() => ({}) as Record<string, unknown>)
+
+    for (const [name, fn] of Object.entries(columns)) {
+      const values = computeColumn(ordered, fn, orderBy, bounds)
+      values.forEach((value, i) => {
+        computed[i][name] = value
+      })
+    }
+
+    ordered.forEach((row, i) => {
+      const position = row[sourcePosition]
+      result[position] = { ...source.items[position], ...computed[i] }
+    })
+  }
+
+  return result
+}
+
+function computeColumn<T>(
+  rows: readonly T[],
+  fn: WindowFunction<T>,
+  orderBy: keyof T | undefined,
+  bounds: FrameBounds,
+): unknown[] {
+  const count = rows.length
+
+  if (fn === 'row_number')
+    return rows.map((_, i) => i + 1)
+
+  if (fn === 'rank' || fn === 'dense_rank') {
+    // Rows with equal `orderBy` values are peers and share a rank
+    const ranks: number[] = []
+    let dense = 0
+    rows.forEach((row, i) => {
+      const tied = i > 0 && (orderBy === undefined || isPeer(rows[i - 1][orderBy], row[orderBy]))
+      if (tied) {
+        ranks.push(ranks[i - 1])
+        return
+      }
+      dense++
+      ranks.push(fn === 'rank' ? i + 1 : dense)
+    })
+    return ranks
+  }
+
+  const [name, arg, offset = 1, fallback] = fn as readonly [string, unknown, number?, unknown?]
+
+  if (name === 'ntile') {
+    const buckets = arg as number
+    if (!Number.isInteger(buckets) || buckets < 1)
+      throw new Error('ntile bucket count must be a positive integer')
+    // The first `count % buckets` buckets take one extra row
+    const size = Math.floor(count / buckets)
+    const larger = count % buckets
+    return rows.map((_, i) => i < larger * (size + 1)
+      ? Math.floor(i / (size + 1)) + 1
+      : larger + Math.floor((i - larger * (size + 1)) / size) + 1)
+  }
+
+  const key = arg as keyof T
+
+  if (name === 'lag' || name === 'lead') {
+    const step = name === 'lag' ? -offset : offset
+    return rows.map((_, i) => {
+      const target = i + step
+      return target >= 0 && target < count ? rows[target][key] : fallback
+    })
+  }
+
+  const values = rows.map(row => row[key])
+  const lastPeers = bounds.throughPeers ? lastPeerPositions(rows, orderBy) : undefined
+  const frameOf = (i: number): [number, number] => [
+    Math.max(0, i - bounds.preceding),
+    lastPeers ? lastPeers[i] : Math.min(count - 1, i + bounds.following),
+  ]
+
+  if (name === 'first_value' || name === 'last_value') {
+    return rows.map((_, i) => {
+      const [start, end] = frameOf(i)
+      if (start > end)
+        return undefined
+      return values[name === 'first_value' ? start : end]
+    })
+  }
+
+  if (name === 'count' || name === 'sum' || name === 'avg') {
+    // Prefix sums keep running and rolling frames linear
+    const sums = [0]
+    const counts = [0]
+    for (const value of values) {
+      const present = value !== null && value !== undefined
+      sums.push(sums[sums.length - 1] + (present ? Number(value) : 0))
+      counts.push(counts[counts.length - 1] + (present ? 1 : 0))
+    }
+    return rows.map((_, i) => {
+      const [start, end] = frameOf(i)
+      const frameCount = start > end ? 0 : counts[end + 1] - counts[start]
+      const frameSum = start > end ? 0 : sums[end + 1] - sums[start]
+      if (name === 'count')
+        return frameCount
+      if (name === 'sum')
+        return frameSum
+      return frameCount ? frameSum / frameCount : undefined
+    })
+  }
+
+  if (name === 'min' || name === 'max') {
+    // Frame edges only move forward, so a monotonic queue of candidates keeps
+    // this linear; with an unbounded start it holds the running extreme
+    const sign = name === 'min' ? 1 : -1
+    const candidates: number[] = []
+    let head = 0
+    let next = 0
+    return rows.map((_, i) => {
+      const [start, end] = frameOf(i)
+      for (; next <= end; next++) {
+        const value = values[next]
+        if (value === null || value === undefined)
+          continue
+        while (candidates.length > head && sign * compareValues(values[candidates[candidates.length - 1]], value) > 0)
+          candidates.pop()
+        candidates.push(next)
+      }
+      while (head < candidates.length && candidates[head] < start)
+        head++
+      return head < candidates.length ? values[candidates[head]] : undefined
+    })
+  }
+
+  throw new Error(`Unsupported window function: ${name}`)
+}
+
+function parseFrame(frame: WindowFrame | undefined, ordered: boolean): FrameBounds {
+  const unbounded = Number.POSITIVE_INFINITY
+  if (frame === undefined)
+    return ordered ? { preceding: unbounded, following: 0, throughPeers: true } : { preceding: unbounded, following: unbounded }
+
+  if (typeof frame !== 'string') {
+    const toBound = (bound: number | 'unbounded' | undefined) => bound === 'unbounded' ? unbounded : bound ?? 0
+    return { preceding: toBound(frame.preceding), following: toBound(frame.following) }
+  }
+
+  const match = frame.trim().match(/^ROWS\s+BETWEEN\s+(.+?)\s+AND\s+(.+)$/i)
+  const start = match && parseFrameBound(match[1])
+  const end = match && parseFrameBound(match[2])
+  if (start === null || end === null)
+    throw new Error(`Invalid window frame: ${frame}`)
+
+  // Bounds are offsets from the current row, negative before it
+  return { preceding: -start, following: end }
+}
+
+function parseFrameBound(bound: string): number | null {
+  const normalized = bound.trim().toUpperCase().replace(/\s+/g, ' ')
+  if (normalized === 'CURRENT ROW')
+    return 0
+  if (normalized === 'UNBOUNDED PRECEDING')
+    return Number.NEGATIVE_INFINITY
+  if (normalized === 'UNBOUNDED FOLLOWING')
+    return Number.POSITIVE_INFINITY
+
+  const match = normalized.match(/^(\d+) (PRECEDING|FOLLOWING)$/)
+  if (!match)
+    return null
+  return match[2] === 'PRECEDING' ? -Number(match[1]) : Number(match[1])
+}
+
+/** The position of each row's last peer, for frames that end at the current row's peers. */
+function lastPeerPositions<T>(rows: readonly T[], orderBy: keyof T | undefined): number[] {
+  const positions: number[] = Array.from({ length: rows.length })
+  for (let i = rows.length - 1; i >= 0; i--) {
+    const tied = i < rows.length - 1 && (orderBy === undefined || isPeer(rows[i][orderBy], rows[i + 1][orderBy]))
+    positions[i] = tied ? positions[i + 1] : i
+  }
+  return positions
+}
+
+function isPeer(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date)
+    return a.getTime() === b.getTime()
+  return Object.is(a, b)
+}
@@ -0,0 +1,390 @@
+import type { XMLParseOptions, XMLWriteOptions } from './types'
+
+export class XMLParseError extends SyntaxError {
+  readonly line: number
+  readonly column: number
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`)
+    this.name = 'XMLParseError'
+    this.line = line
+    this.column = column
+  }
+}
+
+interface XMLElement {
+  name: string
+  attributes: Array<[string, string]>
+  children: XMLNode[]
+  selfClosing: boolean
+}
+
+interface XMLText {
+  text: string
+  cdata: boolean
+}
+
+type XMLNode = XMLElement | XMLText
+
+const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' }
+
+/**
+ * Reads the items of an XML document: the element children of `rootTag`
+ * (the document element by default), limited to `itemTag` when it is given.
+ */
+export function parseXML<T>(text: string, options: XMLParseOptions = {}): T[] {
+  const document = readDocument(text)
+  const { rootTag, itemTag } = options
+  const nameOf = (element: XMLElement) => options.stripNamespaces ? localName(element.name) : element.name
+
+  const root = rootTag === undefined ? document : findElement(document, element => nameOf(element) === rootTag)
+  if (!root)
+    throw new Error(`No <${rootTag}> element found in the XML document`)
+
+  return root.children
+    .filter((node): node is XMLElement => 'name' in node && (itemTag === undefined || nameOf(node) === itemTag))
+    .map(element => elementValue(element, options) as T)
+}
+
+/**
+ * Writes items as an XML document that `parseXML()` reads back with the same
+ * mapping options. Three cases don't survive the trip: an empty array reads
+ * back as `''`, an object whose only key is `itemTag` reads back as an array,
+ * and attribute values that look like numbers or booleans are inferred.
+ */
+export function formatXML<T>(items: readonly T[], options: XMLWriteOptions = {}): string {
+  const {
+    rootTag = 'items',
+    itemTag = 'item',
+    attributePrefix = '@',
+    textKey = '#text',
+    attributes = [],
+    exclude = [],
+    include,
+    pretty = true,
+    declaration = true,
+  } = options
+  const newline = pretty ? '\n' : ''
+  const indentOf = (depth: number) => pretty ? '  '.repeat(depth) : ''
+  const isAttribute = (key: string) => attributePrefix !== '' && key.startsWith(attributePrefix)
+
+  function writeElement(name: string, value: unknown, depth: number, attributeKeys: readonly string[] = []): string {
+    const indent = indentOf(depth)
+    const tag = checkName(name)
+
+    if (value === null)
+      return `${indent}<${tag}/>`
+    if (Array.isArray(value)) {
+      if (value.length === 0)
+        return `${indent}<${tag}></${tag}>`
+      const entries = value.filter(entry => entry !== undefined).map(entry => writeElement(itemTag, entry, depth + 1))
+      return `${indent}<${tag}>${newline}${entries.join(newline)}${newline}${indent}</${tag}>`
+    }
+    if (typeof value !== 'object' || value instanceof Date)
+      return `${indent}<${tag}>${formatElementText(value)}</${tag}>`
+
+    let attrs = ''
+    let text: string | undefined
+    const children: string[] = []
+    for (const [key, child] of Object.entries(value)) {
+      if (child === undefined)
+        continue
+      if (key === textKey)
+        text = formatElementText(child)
+      else if (isAttribute(key) || attributeKeys.includes(key))
+        attrs += child === null ? '' : ` ${checkName(isAttribute(key) ? key.slice(attributePrefix.length) : key)}="${escapeXML(formatText(child))}"`
+      else
+        children.push(writeElement(key, child, depth + 1))
+    }
+
+    if (children.length === 0)
+      return text === undefined && attrs ? `${indent}<${tag}${attrs}/>` : `${indent}<${tag}${attrs}>${text ?? ''}</${tag}>`
+    const body = text === undefined ? children : [`${indentOf(depth + 1)}${text}`, ...children]
+    return `${indent}<${tag}${attrs}>${newline}${body.join(newline)}${newline}${indent}</${tag}>`
+  }
+
+  const written = items.map((item) => {
+    if (item === null || typeof item !== 'object' || Array.isArray(item) || item instanceof Date)
+      return writeElement(itemTag, item, 1)
+    const keys = (include ?? Object.keys(item)).filter(key => !exclude.includes(key))
+    const fields = Object.fromEntries(keys.map(key => [key, (item as any)[key]]))
+    return writeElement(itemTag, fields, 1, attributes)
+  })
+
+  const tag = checkName(rootTag)
+  const body = written.length ? `<${tag}>${newline}${written.join(newline)}${newline}</${tag}>` : `<${tag}></${tag}>`
+  return declaration ? `<?xml version="1.0" encoding="UTF-8"?>${newline}${body}` : body
+}
+
+function formatText(value: unknown): string {
+  if (value instanceof Date)
+    return Number.isNaN(value.getTime()) ? '' : value.toISOString()
+  if (typeof value === 'object' && value !== null)
+    return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Escapes a value for element text. Strings that would be read back as a
+ * number or boolean are wrapped in CDATA, which `parseXML()` keeps as text.
+ */
+function formatElementText(value: unknown): string {
+  const text = formatText(value)
+  return typeof value === 'string' && typeof inferText(text) !== 'string'
+    ? `<![CDATA[${text}]]>`
+    : escapeXML(text)
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function checkName(name: string): string {
+  if (!/^[A-Z_a-z\u00C0-\uFFFF][\w.:\-\u00B7\u00C0-\uFFFF]*$/.test(name))
+    throw new Error(`"${name}" is not a valid XML name`)
+  return name
+}
+
+/**
+ * Converts an element to a value. Leaf elements become their text, `<x/>`
+ * becomes `null`, and elements whose children are all `itemTag` become
+ * arrays. Anything else becomes an object of attributes, child elements
+ * (repeated names collect into arrays) and `textKey` for mixed text.
+ */
+function elementValue(element: XMLElement, options: XMLParseOptions): unknown {
+  const { itemTag = 'item', attributePrefix = '@', textKey = '#text', inferTypes = true, stripNamespaces = false, arrays = [] } = options
+  const nameOf = (name: string) => stripNamespaces ? localName(name) : name
+  const readText = (text: string, cdata = false) => inferTypes && !cdata ? inferText(text) : text
+
+  const attributes = stripNamespaces
+    ? element.attributes.filter(([name]) => name !== 'xmlns' && !name.startsWith('xmlns:'))
+    : element.attributes
+  const elements = element.children.filter((node): node is XMLElement => 'name' in node)
+  const texts = element.children.filter((node): node is XMLText => 'text' in node)
+
+  if (attributes.length === 0 && elements.length === 0) {
+    if (element.selfClosing)
+      return null
+    const text = texts.map(node => node.text).join('')
+    return readText(text, texts.some(node => node.cdata))
+  }
+
+  if (attributes.length === 0 && elements.every(child => nameOf(child.name) === itemTag) && !texts.some(node => node.text.trim()))
+    return elements.map(child => elementValue(child, options))
+
+  const result: Record<string, unknown> = {}
+  for (const [name, value] of attributes)
+    result[attributePrefix + nameOf(name)] = readText(value)
+
+  const collected = new Set<string>()
+  for (const child of elements) {
+    const name = nameOf(child.name)
+    const value = elementValue(child, options)
+    if (!arrays.includes(name) && !(name in result)) {
+      result[name] = value
+      continue
+    }
+    if (!collected.has(name)) {
+      result[name] = name in result ? [result[name]] : []
+      collected.add(name)
+    }
+    (result[name] as unknown[]).push(value)
+  }
+
+  // Text beside child elements is trimmed, since it is usually indentation
+  const text = elements.length ? texts.map(node => node.text).join('').trim() : texts.map(node => node.text).join('')
+  if (text !== '')
+    result[textKey] = readText(text, texts.some(node => node.cdata))
+  return result
+}
+
+function inferText(text: string): unknown {
+  if (text === 'true' || text === 'false')
+    return text === 'true'
+  // Leading zeros are kept as text, so codes like "007" survive
+  if (/^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:e[+-]?\d+)?$/i.test(text))
+    return Number(text)
+  return text
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1)
+}
+
+function findElement(element: XMLElement, match: (element: XMLElement) => boolean): XMLElement | undefined {
+  if (match(element))
+    return element
+  for (const child of element.children) {
+    const found = 'name' in child ? findElement(child, match) : undefined
+    if (found)
+      return found
+  }
+  return undefined
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (reference, name: string) => {
+    if (name[0] !== '#')
+      return entities[name] ?? reference
+    const code = name[1] === 'x' || name[1] === 'X' ? Number.parseInt(name.slice(2), 16) : Number(name.slice(1))
+    return code <= 0x10FFFF ? String.fromCodePoint(code) : reference
+  })
+}
+
+/** Parses a document into its root element, skipping the prolog, comments, processing instructions and DOCTYPE. */
+function readDocument(text: string): XMLElement {
+  const namePattern = /[^\s/>=<!?\x22\x27]+/y
+  let pos = text.charCodeAt(0) === 0xFEFF ? 1 : 0
+
+  function fail(message: string, at: number = pos): never {
+    const before = text.slice(0, at).split(/\r\n|\r|\n/)
+    throw new XMLParseError(message, before.length, before[before.length - 1].length + 1)
+  }
+
+  function skipPast(terminator: string, what: string): void {
+    const end = text.indexOf(terminator, pos)
+    if (end === -1)
+      fail(`Unterminated ${what}`)
+    pos = end + terminator.length
+  }
+
+  function skipWhitespace(): void {
+    while (pos < text.length && /\s/.test(text[pos]))
+      pos++
+  }
+
+  function readName(): string {
+    namePattern.lastIndex = pos
+    const match = namePattern.exec(text)
+    if (!match)
+      fail(text[pos] === undefined ? 'Unexpected end of input' : `Unexpected "${text[pos]}"`)
+    pos += match[0].length
+    return match[0]
+  }
+
+  /** Skips comments and processing instructions, and a DOCTYPE when `doctype` is set. */
+  function skipMisc(doctype: boolean): void {
+    for (;;) {
+      skipWhitespace()
+      if (text.startsWith('<?', pos)) {
+        skipPast('?>', 'processing instruction')
+      }
+      else if (text.startsWith('<!--', pos)) {
+        skipPast('-->', 'comment')
+      }
+      else if (doctype && text.startsWith('<!DOCTYPE', pos)) {
+        // The internal subset may contain `>` inside brackets
+        let depth = 0
+        for (; pos < text.length; pos++) {
+          if (text[pos] === '[')
+            depth++
+          else if (text[pos] === ']')
+            depth--
+          else if (text[pos] === '>' && depth === 0)
+            break
+        }
+        if (pos >= text.length)
+          fail('Unterminated DOCTYPE')
+        pos++
+      }
+      else {
+        return
+      }
+    }
+  }
+
+  function readElement(): XMLElement {
+    const start = pos
+    pos++
+    const name = readName()
+    const attributes: Array<[string, string]> = []
+
+    for (;;) {
+      skipWhitespace()
+      if (text.startsWith('/>', pos)) {
+        pos += 2
+        return { name, attributes, children: [], selfClosing: true }
+      }
+      if (text[pos] === '>') {
+        pos++
+        break
+      }
+      if (pos >= text.length)
+        fail(`Unterminated <${name}> tag`, start)
+
+      const attributeStart = pos
+      const attribute = readName()
+      skipWhitespace()
+      if (text[pos] !== '=')
+        fail(`Expected "=" after attribute "${attribute}"`)
+      pos++
+      skipWhitespace()
+      const quote = text[pos]
+      if (quote !== '"' && quote !== '\'')
+        fail(`Expected a quoted value for attribute "${attribute}"`)
+      const end = text.indexOf(quote, pos + 1)
+      if (end === -1)
+        fail(`Unterminated value for attribute "${attribute}"`)
+      if (attributes.some(([existing]) => existing === attribute))
+        fail(`Duplicate attribute "${attribute}"`, attributeStart)
+      attributes.push([attribute, decodeEntities(text.slice(pos + 1, end))])
+      pos = end + 1
+    }
+
+    const children: XMLNode[] = []
+    for (;;) {
+      if (pos >= text.length)
+        fail(`Unclosed <${name}> element`, start)
+
+      if (text.startsWith('</', pos)) {
+        const closeStart = pos
+        pos += 2
+        const closing = readName()
+        if (closing !== name)
+          fail(`Expected </${name}> but found </${closing}>`, closeStart)
+        skipWhitespace()
+        if (text[pos] !== '>')
+          fail(`Expected ">" to close </${name}>`)
+        pos++
+        return { name, attributes, children, selfClosing: false }
+      }
+
+      if (text.startsWith('<![CDATA[', pos)) {
+        const end = text.indexOf(']]>', pos)
+        if (end === -1)
+          fail('Unterminated CDATA section')
+        children.push({ text: text.slice(pos + 9, end), cdata: true })
+        pos = end + 3
+      }
+      else if (text.startsWith('<!--', pos)) {
+        skipPast('-->', 'comment')
+      }
+      else if (text.startsWith('<?', pos)) {
+        skipPast('?>', 'processing instruction')
+      }
+      else if (text[pos] === '<') {
+        children.push(readElement())
+      }
+      else {
+        const end = text.indexOf('<', pos)
+        const raw = text.slice(pos, end === -1 ? text.length : end)
+        children.push({ text: decodeEntities(raw), cdata: false })
+        pos += raw.length
+      }
+    }
+  }
+
+  skipMisc(true)
+  if (text[pos] !== '<')
+    fail(pos >= text.length ? 'Expected a root element' : `Unexpected "${text[pos]}" before the root element`)
+  const root = readElement()
+  skipMisc(false)
+  if (pos < text.length)
+    fail('Unexpected content after the root element')
+  return root
+}
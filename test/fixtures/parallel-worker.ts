@@ -0,0 +1,24 @@
+import type { ParallelWorkerTask } from '../../src/types'
+
+const square: ParallelWorkerTask<number[], number[]> = chunk => chunk.map(n => n * n)
+
+export default square
+
+/** Doubles a `Float64Array` chunk in place and sends it back. */
+export const double: ParallelWorkerTask<Float64Array, Float64Array> = (chunk) => {
+  for (let i = 0; i < chunk.length; i++)
+    chunk[i] *= 2
+  return chunk
+}
+
+export const chunkInfo: ParallelWorkerTask<unknown[], { index: number, size: number, typed: boolean }> = (chunk, index) => ({
+  index,
+  size: chunk.length,
+  typed: ArrayBuffer.isView(chunk),
+})
+
+export const failOnSecondChunk: ParallelWorkerTask<number[], number[]> = (chunk, index) => {
+  if (index === 1)
+    throw new RangeError(`cannot handle ${chunk[0]}`)
+  return chunk
+}
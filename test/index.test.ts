@@ -1,8 +1,28 @@
 import type { CollectionOperations } from '../src/types'
 import { afterEach, describe, expect, it, mock, setSystemTime, spyOn } from 'bun:test'
+import { Database } from 'bun:sqlite'
 import { Buffer } from 'node:buffer'
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import process from 'node:process'
+import { PassThrough } from 'node:stream'
+import { AsyncTimeoutError } from '../src/async'
+import { fitComplexity } from '../src/benchmark'
+import { createFileStore, createMemoryStore } from '../src/cache'
 import { collect } from '../src/collect'
-import { calculateFuzzyScore } from '../src/utils'
+import { CSVParseError, parseCSV, readCSV } from '../src/csv'
+import { createLazyOperations } from '../src/lazy'
+import { registerMacro, unregisterMacro } from '../src/macros'
+import { NDJSONParseError, parseNDJSON, readNDJSON } from '../src/ndjson'
+import { ParallelChunkError } from '../src/parallel'
+import { JSONPatchError } from '../src/patch'
+import { dataGet, dataSet } from '../src/path'
+import { renderTable } from '../src/playground'
+import { QuerySyntaxError } from '../src/query'
+import { fromSQLite, readSQLite } from '../src/sqlite'
+import { parseXML, XMLParseError } from '../src/xml'
+import { calculateFuzzyScore, range } from '../src/utils'
 
 describe('Collection Core Operations', () => {
   describe('collect()', () => {
@@ -436,6 +456,325 @@ describe('Collection Core Operations', () => {
     })
   })
 
+  describe('reconcile()', () => {
+    interface Product { sku: string, name: string, price: number, tags?: string[] }
+    const database: Product[] = [
+      { sku: 'A', name: 'Lamp', price: 20 },
+      { sku: 'B', name: 'Desk', price: 150, tags: ['office'] },
+      { sku: 'C', name: 'Chair', price: 80 },
+      { sku: 'D', name: 'Rug', price: 60 },
+    ]
+    const feed: Product[] = [
+      { sku: 'B', name: 'Desk', price: 150, tags: ['office'] },
+      { sku: 'D', name: 'Rug', price: 55, tags: ['sale'] },
+      { sku: 'E', name: 'Shelf', price: 90 },
+      { sku: 'A', name: 'Lamp', price: 20 },
+    ]
+
+    it('should sort items into inserted, updated, deleted and unchanged', () => {
+      const plan = collect(database).reconcile(feed, { key: 'sku' })
+      expect(plan.inserted).toEqual([{ sku: 'E', name: 'Shelf', price: 90 }])
+      expect(plan.deleted).toEqual([{ sku: 'C', name: 'Chair', price: 80 }])
+      expect(plan.unchanged.map(item => item.sku)).toEqual(['B', 'A'])
+      expect(plan.updated).toEqual([{ before: database[3], after: feed[1], changedFields: ['price', 'tags'] }])
+    })
+
+    it('should compare only the given fields', () => {
+      const plan = collect(database).reconcile(collect(feed), { key: item => item.sku.toLowerCase(), compare: ['name', 'tags'] })
+      expect(plan.updated.map(update => update.changedFields)).toEqual([['tags']])
+    })
+
+    it('should accept an equality function', () => {
+      const plan = collect(database).reconcile(feed, { key: 'sku', compare: (a, b) => a.price === b.price })
+      expect(plan.updated.map(update => update.after.sku)).toEqual(['D'])
+      expect(plan.unchanged).toHaveLength(2)
+    })
+
+    it('should reject duplicate keys', () => {
+      expect(() => collect(database).reconcile([...feed, feed[0]], { key: 'sku' })).toThrow('B appears twice')
+    })
+
+    it('should export a JSON Patch that turns one side into the other', () => {
+      const plan = collect(database).reconcile(feed, { key: 'sku' })
+      expect(plan.toJSONPatch()).toEqual([
+        { op: 'remove', path: '/2' },
+        { op: 'replace', path: '/2/price', value: 55 },
+        { op: 'add', path: '/2/tags', value: ['sale'] },
+        { op: 'add', path: '/-', value: { sku: 'E', name: 'Shelf', price: 90 } },
+      ])
+
+      const patched = collect(database).applyPatch(plan.toJSONPatch())
+      expect(patched.sortBy('sku').all()).toEqual(collect(feed).sortBy('sku').all())
+      expect(patched.reconcile(feed, { key: 'sku' }).toJSONPatch()).toEqual([])
+    })
+
+    it('should patch fields that were not compared', () => {
+      const before = [{ id: 1, a: 1, b: 1 }]
+      const after = [{ id: 1, a: 2, b: 2 }]
+      const plan = collect(before).reconcile(after, { key: 'id', compare: ['a'] })
+      expect(plan.updated.map(update => update.changedFields)).toEqual([['a']])
+      expect(plan.toJSONPatch()).toEqual([
+        { op: 'replace', path: '/0/a', value: 2 },
+        { op: 'replace', path: '/0/b', value: 2 },
+      ])
+      expect(collect(before).applyPatch(plan.toJSONPatch()).all()).toEqual(after)
+    })
+
+    it('should replace whole items that are not objects', () => {
+      const plan = collect([1, 2]).reconcile([3, 4], { key: n => n % 2, compare: () => false })
+      expect(plan.toJSONPatch()).toEqual([{ op: 'replace', path: '/0', value: 3 }, { op: 'replace', path: '/1', value: 4 }])
+    })
+  })
+
+  describe('applyPatch()', () => {
+    it('should apply every RFC 6902 operation', () => {
+      const items = [{ id: 1, tags: ['a'] }, { id: 2, tags: [] as string[] }]
+      const patched = collect(items).applyPatch([
+        { op: 'test', path: '/0/id', value: 1 },
+        { op: 'add', path: '/0/tags/0', value: 'first' },
+        { op: 'copy', from: '/0/tags', path: '/1/tags' },
+        { op: 'move', from: '/1/id', path: '/1/key' },
+        { op: 'replace', path: '/0/id', value: 10 },
+        { op: 'remove', path: '/0/tags/1' },
+        { op: 'add', path: '/-', value: { id: 3 } },
+      ])
+
+      expect(patched.all()).toEqual([{ id: 10, tags: ['first'] }, { key: 2, tags: ['first', 'a'] } as any, { id: 3 }])
+      expect(items).toEqual([{ id: 1, tags: ['a'] }, { id: 2, tags: [] }])
+    })
+
+    it('should decode escaped pointer tokens', () => {
+      const patched = collect([{ 'a/b': 1, 'c~d': 2 }]).applyPatch([
+        { op: 'replace', path: '/0/a~1b', value: 3 },
+        { op: 'remove', path: '/0/c~0d' },
+      ])
+      expect(patched.all()).toEqual([{ 'a/b': 3 } as any])
+    })
+
+    it('should fail without changing anything', () => {
+      const items = [{ id: 1 }]
+      const patch = [
+        { op: 'replace', path: '/0/id', value: 2 },
+        { op: 'test', path: '/0/id', value: 1 },
+      ] as const
+
+      try {
+        collect(items).applyPatch(patch)
+        expect.unreachable()
+      }
+      catch (error) {
+        expect(error).toBeInstanceOf(JSONPatchError)
+        expect((error as JSONPatchError).index).toBe(1)
+        expect((error as Error).message).toBe('Patch operation 1 (test /0/id) failed: the value does not match')
+      }
+      expect(items).toEqual([{ id: 1 }])
+    })
+
+    it('should report missing paths and bad indexes', () => {
+      const collection = collect([{ id: 1 }])
+      expect(() => collection.applyPatch([{ op: 'remove', path: '/0/name' }])).toThrow('name does not exist')
+      expect(() => collection.applyPatch([{ op: 'replace', path: '/3', value: {} }])).toThrow('index 3 is out of bounds')
+      expect(() => collection.applyPatch([{ op: 'add', path: '/01', value: {} }])).toThrow('01 is not an array index')
+      expect(() => collection.applyPatch([{ op: 'add', path: 'id', value: 1 }])).toThrow('id is not a JSON Pointer')
+      expect(() => collection.applyPatch([{ op: 'move', from: '/0', path: '/0/self' }])).toThrow('cannot be moved into itself')
+      expect(() => collection.applyPatch([{ op: 'replace', path: '', value: {} }])).toThrow('must still be an array')
+    })
+  })
+
+  describe('equality strategies', () => {
+    it('should compare by reference by default', () => {
+      const a = { id: 1 }
+      expect(collect([a, a, { id: 1 }]).unique().count()).toBe(2)
+      expect(collect([a]).contains({ id: 1 })).toBe(false)
+      expect(collect([Number.NaN, Number.NaN]).unique().all()).toEqual([Number.NaN])
+    })
+
+    it('should compare deeply', () => {
+      const items = [
+        { id: 1, at: new Date(0), tags: new Set(['a', 'b']), meta: new Map([['x', [1]]]) },
+        { id: 1, at: new Date(0), tags: new Set(['b', 'a']), meta: new Map([['x', [1]]]) },
+        { id: 1, at: new Date(1), tags: new Set(['a', 'b']), meta: new Map([['x', [1]]]) },
+        { id: 1, at: new Date(0), tags: new Set(['a', 'b']), meta: new Map([['x', [2]]]) },
+      ]
+      expect(collect(items).unique({ equality: 'deep' }).all()).toEqual([items[0], items[2], items[3]])
+      expect(collect([new Uint8Array([1, 2]), new Uint8Array([1, 2]), new Int8Array([1, 2])]).unique({ equality: 'deep' }).count()).toBe(2)
+      expect(collect([{ a: 1, b: 2 }, { b: 2, a: 1 }, { a: 1 }]).unique({ equality: 'deep' }).count()).toBe(2)
+    })
+
+    it('should handle cycles', () => {
+      const first: any = { name: 'node' }
+      first.self = first
+      const second: any = { name: 'node' }
+      second.self = second
+      const third: any = { name: 'other' }
+      third.self = third
+
+      expect(collect([first, second, third]).unique({ equality: 'deep' }).all()).toEqual([first, third])
+      expect(collect([first]).contains(second, { equality: 'deep' })).toBe(true)
+    })
+
+    it('should compare cycles of different lengths', () => {
+      const short: any = { name: 'node' }
+      short.self = short
+      const long: any = { name: 'node', self: { name: 'node' } }
+      long.self.self = long
+      const other: any = { name: 'node', self: { name: 'other' } }
+      other.self.self = other
+
+      expect(collect([short]).contains(long, { equality: 'deep' })).toBe(true)
+      expect(collect([short]).contains(other, { equality: 'deep' })).toBe(false)
+    })
+
+    it('should read two arguments after a key as a key and a value', () => {
+      const value = { equality: 'deep' }
+      const items = [{ a: value, tags: ['x'] }]
+      expect(collect(items).contains('a', value)).toBe(true)
+      expect(collect(items).contains('tags', ['x'])).toBe(false)
+      expect(collect(items).contains('tags', ['x'], { equality: 'deep' })).toBe(true)
+      expect(collect(items).index(['tags']).contains('tags', ['x'], { equality: 'deep' })).toBe(true)
+    })
+
+    it('should accept key functions and comparators', () => {
+      const users = [{ id: 1, email: 'A@x.io' }, { id: 2, email: 'a@x.io' }, { id: 3, email: 'b@x.io' }]
+      expect(collect(users).unique({ equality: { key: user => user.email.toLowerCase() } }).pluck('id').all()).toEqual([1, 3])
+      expect(collect(users).unique({ equality: { compare: (a, b) => a.email.toLowerCase() === b.email.toLowerCase() } }).pluck('id').all()).toEqual([1, 3])
+      expect(collect(users).duplicates({ equality: { key: user => user.email.toLowerCase() } }).pluck('id').all()).toEqual([1, 2])
+    })
+
+    it('should not tell key functions from comparators by their parameters', () => {
+      const keyOf = (item: { id: number }, _unused?: unknown) => item.id
+      expect(collect([{ id: 1 }, { id: 2 }, { id: 1 }]).unique({ equality: { key: keyOf } }).count()).toBe(2)
+      expect(() => collect([1]).unique({ equality: keyOf as any })).toThrow('Unknown equality strategy')
+    })
+
+    it('should apply to the values of a key', () => {
+      const posts = [{ id: 1, tags: ['a'] }, { id: 2, tags: ['a'] }, { id: 3, tags: ['b'] }]
+      expect(collect(posts).unique('tags', { equality: 'deep' }).pluck('id').all()).toEqual([1, 3])
+      expect(collect(posts).duplicates('tags', { equality: 'deep' }).pluck('id').all()).toEqual([1, 2])
+      expect(collect(posts).unique('tags').count()).toBe(3)
+    })
+
+    it('should apply to set operations', () => {
+      const left = collect([{ id: 1 }, { id: 2 }])
+      const right = [{ id: 2 }, { id: 3 }]
+
+      expect(left.intersect(right).count()).toBe(0)
+      expect(left.intersect(right, { equality: 'deep' }).all()).toEqual([{ id: 2 }])
+      expect(left.union(right, { equality: 'deep' }).all()).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }])
+      expect(left.symmetricDiff(right, { equality: { key: item => item.id } }).all()).toEqual([{ id: 1 }, { id: 3 }])
+    })
+
+    it('should compare positions deeply in diffAssoc() unless told otherwise', () => {
+      const collection = collect([{ id: 1, at: new Date(0) }, { id: 2, at: new Date(0) }])
+      const other = [{ id: 1, at: new Date(0) }, { id: 2, at: new Date(5) }]
+      expect(collection.diffAssoc(other).pluck('id').all()).toEqual([2])
+      expect(collection.diffAssoc(other, { equality: 'reference' }).pluck('id').all()).toEqual([1, 2])
+      expect(collection.diffAssoc(other, { equality: { key: item => item.id } }).count()).toBe(0)
+    })
+
+    it('should keep the key and value form of contains()', () => {
+      const collection = collect([{ name: 'equality', value: 1 }])
+      expect(collection.contains('name', 'equality')).toBe(true)
+      expect(collection.contains({ name: 'equality', value: 1 }, { equality: 'deep' })).toBe(true)
+    })
+  })
+
+  describe('dot paths', () => {
+    const customers = [
+      { id: 1, name: 'Ann', address: { city: 'Paris', zip: '75001' }, orders: [{ sku: 'A', price: 10 }, { sku: 'B', price: 5 }] },
+      { id: 2, name: 'Ben', address: { city: 'Berlin', zip: '10115' }, orders: [{ sku: 'C', price: 30 }] },
+      { id: 3, name: 'Cid', address: { city: 'Paris', zip: '75002' }, orders: [] as Array<{ sku: string, price: number }> },
+    ]
+
+    it('should filter with where* methods', () => {
+      const collection = collect(customers)
+      expect(collection.where('address.city', 'Paris').pluck('id').all()).toEqual([1, 3])
+      expect(collection.whereIn('address.zip', ['10115', '75002']).pluck('id').all()).toEqual([2, 3])
+      expect(collection.whereNotIn('address.city', ['Paris']).pluck('id').all()).toEqual([2])
+      expect(collection.whereBetween('address.zip', '75000', '75999').pluck('id').all()).toEqual([1, 3])
+      expect(collection.whereLike('address.city', 'ber%').pluck('id').all()).toEqual([2])
+      expect(collection.whereRegex('address.zip', /^750/).pluck('id').all()).toEqual([1, 3])
+      expect(collection.whereNull('orders.0.sku').pluck('id').all()).toEqual([3])
+      expect(collection.firstWhere('address.city', 'Berlin')?.id).toBe(2)
+    })
+
+    it('should pluck nested values and expand wildcards', () => {
+      const collection = collect(customers)
+      expect(collection.pluck('address.city').all()).toEqual(['Paris', 'Berlin', 'Paris'])
+      expect(collection.pluck('orders.*.price').all()).toEqual([[10, 5], [30], []])
+      expect(collection.pluck('orders.0.sku').all()).toEqual(['A', 'C', undefined])
+    })
+
+    it('should sort, group, key and aggregate by paths', () => {
+      const collection = collect(customers)
+      expect(collection.sortBy('address.zip').pluck('id').all()).toEqual([2, 1, 3])
+      expect(collection.sortByDesc('address.zip').pluck('id').all()).toEqual([3, 1, 2])
+      expect([...collection.groupBy('address.city').keys()]).toEqual(['Paris', 'Berlin'])
+      expect(collection.groupBy('address.city').agg({ people: 'count' }).all()).toEqual([
+        { 'address.city': 'Paris', 'people': 2 },
+        { 'address.city': 'Berlin', 'people': 1 },
+      ])
+      expect(collection.keyBy('address.zip').get('10115')?.name).toBe('Ben')
+      expect(collection.sum('orders.0.price')).toBe(40)
+      expect(collection.avg('orders.0.price')).toBe(40 / 3)
+      expect(collection.max('orders.0.price')?.id).toBe(2)
+      expect(collection.min('address.zip')?.id).toBe(2)
+    })
+
+    it('should prefer a property whose name contains a dot', () => {
+      const collection = collect([{ 'a.b': 1, 'a': { b: 2 } }])
+      expect(collection.pluck('a.b').all()).toEqual([1])
+    })
+
+    it('should pick and drop nested paths with only() and except()', () => {
+      const collection = collect(customers)
+      expect(collection.only('id', 'address.city').first()).toEqual({ id: 1, address: { city: 'Paris' } })
+      expect(collection.only('orders.*.sku').first()).toEqual({ orders: [{ sku: 'A' }, { sku: 'B' }] })
+
+      const trimmed = collection.except('address.zip', 'orders')
+      expect(trimmed.first()).toEqual({ id: 1, name: 'Ann', address: { city: 'Paris' } })
+      expect(customers[0].address.zip).toBe('75001')
+      expect(collection.except('orders.*.price').last()!.orders).toEqual([])
+      expect(collection.except('orders.*.price').first()!.orders).toEqual([{ sku: 'A' }, { sku: 'B' }])
+    })
+  })
+
+  describe('dataGet()', () => {
+    const data = { user: { name: 'Ann', tags: ['a', 'b'] }, teams: [{ members: [{ id: 1 }, { id: 2 }] }, { members: [{ id: 3 }] }] }
+
+    it('should read paths and fall back when they lead nowhere', () => {
+      expect(dataGet(data, 'user.name')).toBe('Ann')
+      expect(dataGet(data, 'user.tags.1')).toBe('b')
+      expect(dataGet(data, ['user', 'name'])).toBe('Ann')
+      expect(dataGet(data, 'user.email', 'none')).toBe('none')
+      expect(dataGet(null, 'user.name', 'none')).toBe('none')
+    })
+
+    it('should expand and flatten wildcards', () => {
+      expect(dataGet(data, 'teams.*.members')).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]])
+      expect(dataGet(data, 'teams.*.members.*.id')).toEqual([1, 2, 3])
+      expect(dataGet(new Map([['a', { n: 1 }]]), '*.n')).toEqual([1])
+      expect(dataGet(data, 'user.name.*', 'none')).toBe('none')
+    })
+  })
+
+  describe('dataSet()', () => {
+    it('should create missing objects and arrays along the path', () => {
+      const target: Record<string, any> = {}
+      dataSet(target, 'user.address.city', 'Paris')
+      dataSet(target, 'items.0.name', 'Lamp')
+      expect(target).toEqual({ user: { address: { city: 'Paris' } }, items: [{ name: 'Lamp' }] })
+    })
+
+    it('should write through wildcards and respect overwrite', () => {
+      const target = { items: [{ price: 1 }, { price: 2, sale: true }] }
+      expect(dataSet(target, 'items.*.sale', false, false)).toBe(target)
+      expect(target.items).toEqual([{ price: 1, sale: false }, { price: 2, sale: true }])
+      dataSet(target, 'items.*.price', 0)
+      expect(target.items.map(item => item.price)).toEqual([0, 0])
+    })
+  })
+
   describe('doesntContain()', () => {
     it('should check direct value non-containment', () => {
       const collection = collect([1, 2, 3])
@@ -771,6 +1110,61 @@ describe('Collection Core Operations', () => {
     })
   })
 
+  describe('registerMacro()', () => {
+    afterEach(() => {
+      unregisterMacro('evens')
+      unregisterMacro('scaled')
+    })
+
+    it('should add the macro to every collection, including derived ones', () => {
+      const before = collect([1, 2, 3, 4])
+      registerMacro('evens', function () {
+        return this.filter((n: number) => n % 2 === 0)
+      })
+      expect((before as any).evens().all()).toEqual([2, 4])
+      expect((collect([5, 6]).map(n => n * 2) as any).evens().all()).toEqual([10, 12])
+      expect((range(1, 6).filter(n => n > 2) as any).evens().all()).toEqual([4, 6])
+      expect((before as any).evens().evens().all()).toEqual([2, 4])
+    })
+
+    it('should pass arguments and the collection as this', () => {
+      registerMacro('scaled', function (factor: number) {
+        return this.map((n: number) => n * factor)
+      })
+      expect((collect([1, 2]) as any).scaled(3).all()).toEqual([3, 6])
+      expect((collect([1, 2]).versioned({ key: n => n }) as any).scaled(2).all()).toEqual([2, 4])
+    })
+
+    it('should not show up among the items or keys of a collection', () => {
+      registerMacro('evens', function () {
+        return this
+      })
+      const collection = collect([1])
+      const enumerated: string[] = []
+      for (const key in collection)
+        enumerated.push(key)
+      expect('evens' in collection).toBe(true)
+      expect(enumerated).not.toContain('evens')
+    })
+
+    it('should reject names of built-in members and registered macros', () => {
+      expect(() => registerMacro('map', () => null)).toThrow('Cannot register macro map: collections already have a map member')
+      expect(() => registerMacro('items', () => null)).toThrow('already have a items member')
+      expect(() => registerMacro('toString', () => null)).toThrow('already have a toString member')
+      registerMacro('evens', () => null)
+      expect(() => registerMacro('evens', () => null)).toThrow('A macro named evens is already registered')
+    })
+
+    it('should unregister macros', () => {
+      registerMacro('evens', () => null)
+      expect(unregisterMacro('evens')).toBe(true)
+      expect(unregisterMacro('evens')).toBe(false)
+      expect((collect([1]) as any).evens).toBeUndefined()
+      registerMacro('evens', () => 'again')
+      expect((collect([1]) as any).evens()).toBe('again')
+    })
+  })
+
   describe('make()', () => {
     it('should create new collection with given items', () => {
       const collection = collect([1, 2, 3])
@@ -2286,6 +2680,100 @@ describe('Collection Grouping Operations', () => {
       expect(groupedByKey.size).toBe(0)
       expect(groupedByCallback.size).toBe(0)
     })
+
+    describe('grouped collections', () => {
+      const orders = [
+        { region: 'north', status: 'paid', total: 100, discount: 5 },
+        { region: 'south', status: 'paid', total: 50, discount: null },
+        { region: 'north', status: 'open', total: 30, discount: null },
+        { region: 'north', status: 'paid', total: 70, discount: 15 },
+      ]
+
+      it('should aggregate each group into a row', () => {
+        const rows = collect(orders).groupBy('region').agg({
+          revenue: ['sum', 'total'],
+          orders: 'count',
+          avgDiscount: ['avg', 'discount'],
+          largest: ['max', 'total'],
+        })
+
+        expect(rows.toArray()).toEqual([
+          { region: 'north', revenue: 200, orders: 3, avgDiscount: 10, largest: 100 },
+          { region: 'south', revenue: 50, orders: 1, avgDiscount: undefined, largest: 50 },
+        ])
+      })
+
+      it('should aggregate nested properties by dot path', () => {
+        const nested = collect(orders.map(({ region, total }) => ({ region, order: { amount: total } })))
+        const rows = nested.groupBy('region').agg({ total: ['sum', 'order.amount'], largest: ['max', 'order.amount'] })
+
+        expect(rows.toArray()).toEqual([
+          { region: 'north', total: 200, largest: 100 },
+          { region: 'south', total: 50, largest: 50 },
+        ])
+      })
+
+      it('should group by several keys', () => {
+        const grouped = collect(orders).groupBy(['region', 'status'])
+
+        expect(grouped.size).toBe(3)
+        expect(grouped.get(['north', 'paid'])?.count()).toBe(2)
+        expect(grouped.has(['south', 'open'])).toBe(false)
+        expect(grouped.agg({ revenue: ['sum', 'total'] }).toArray()).toEqual([
+          { region: 'north', status: 'paid', revenue: 170 },
+          { region: 'south', status: 'paid', revenue: 50 },
+          { region: 'north', status: 'open', revenue: 30 },
+        ])
+      })
+
+      it('should filter, sort and ungroup groups', () => {
+        const result = collect(orders)
+          .groupBy('region')
+          .having(group => group.sum('total') > 60)
+          .sortBy(group => group.count(), 'desc')
+
+        expect(Array.from(result.keys())).toEqual(['north'])
+        expect(result.ungroup().pluck('total').toArray()).toEqual([100, 30, 70])
+        expect(Array.from(collect(orders).groupBy('region').sortBy(undefined, 'desc').keys())).toEqual(['south', 'north'])
+      })
+
+      it('should map each group', () => {
+        const result = collect(orders)
+          .groupBy('region')
+          .map(group => group.sortByDesc('total').take(1))
+
+        expect(result.ungroup().pluck('total').toArray()).toEqual([100, 50])
+        expect(result.toMap()).toBeInstanceOf(Map)
+        expect(result.toMap().get('south')?.first()?.total).toBe(50)
+      })
+
+      it('should follow groups set or deleted on the map', () => {
+        const grouped = collect(orders).groupBy(['region', 'status'])
+        grouped.delete(['north', 'open'])
+        grouped.set(['west', 'paid'], collect([{ ...orders[1], region: 'west', total: 10 }]))
+
+        expect(grouped.size).toBe(3)
+        expect(grouped.agg({ revenue: ['sum', 'total'] }).toArray()).toEqual([
+          { region: 'north', status: 'paid', revenue: 170 },
+          { region: 'south', status: 'paid', revenue: 50 },
+          { region: 'west', status: 'paid', revenue: 10 },
+        ])
+        expect(grouped.ungroup().pluck('total').toArray()).toEqual([100, 70, 50, 10])
+        expect(Array.from(grouped.having(group => group.count() === 1).toMap().keys())).toEqual([['south', 'paid'], ['west', 'paid']])
+        expect(grouped.sortBy(group => group.sum('total')).get(['west', 'paid'])?.count()).toBe(1)
+      })
+
+      it('should key callback groups under key', () => {
+        const rows = collect([1, 2, 3, 4, 5])
+          .groupBy(num => num % 2 === 0 ? 'even' : 'odd')
+          .agg({ total: group => group.sum() })
+
+        expect(rows.toArray()).toEqual([
+          { key: 'odd', total: 9 },
+          { key: 'even', total: 6 },
+        ])
+      })
+    })
   })
 
   describe('partition()', () => {
@@ -2768,6 +3256,102 @@ describe('Collection Sorting Methods', () => {
         .toEqual(['John', 'Bob', 'Alice'])
     })
   })
+
+  describe('multi-key sorting', () => {
+    const people = [
+      { first: 'Ann', last: 'Smith', age: 30, joined: new Date('2021-03-01') },
+      { first: 'Bob', last: 'Jones', age: null, joined: new Date('2019-07-15') },
+      { first: 'Cid', last: 'Smith', age: 41, joined: new Date('2020-01-10') },
+      { first: 'Dee', last: 'Jones', age: 25, joined: new Date('2022-11-30') },
+    ]
+
+    it('should sort by each key in turn', () => {
+      const sorted = collect(people).sortBy([{ key: 'last' }, { key: 'age', direction: 'desc', nulls: 'last' }])
+      expect(sorted.pluck('first').all()).toEqual(['Dee', 'Bob', 'Cid', 'Ann'])
+    })
+
+    it('should pin nulls to either end', () => {
+      expect(collect(people).sortBy([{ key: 'age', nulls: 'last' }]).pluck('first').all()).toEqual(['Dee', 'Ann', 'Cid', 'Bob'])
+      expect(collect(people).sortBy([{ key: 'age', direction: 'desc', nulls: 'first' }]).pluck('first').all()).toEqual(['Bob', 'Cid', 'Ann', 'Dee'])
+    })
+
+    it('should accept key functions', () => {
+      const sorted = collect(people).sortBy([{ key: person => person.first.length }, { key: person => person.first, direction: 'desc' }])
+      expect(sorted.pluck('first').all()).toEqual(['Dee', 'Cid', 'Bob', 'Ann'])
+    })
+
+    it('should compare dates chronologically', () => {
+      expect(collect(people).sortBy('joined').pluck('first').all()).toEqual(['Bob', 'Cid', 'Ann', 'Dee'])
+      expect(collect(people).sortByDesc('joined').first()?.first).toBe('Dee')
+    })
+
+    it('should keep the order of equal items', () => {
+      const rows = Array.from({ length: 50 }, (_, id) => ({ id, group: id % 3 }))
+      const sorted = collect(rows).sortBy('group').all()
+      for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i].group === sorted[i - 1].group)
+          expect(sorted[i].id).toBeGreaterThan(sorted[i - 1].id)
+      }
+    })
+
+    it('should sort naturally and with collator options', () => {
+      const files = collect([{ name: 'file10' }, { name: 'file2' }, { name: 'File1' }])
+      expect(files.sortBy('name').pluck('name').all()).toEqual(['File1', 'file10', 'file2'])
+      expect(files.sortBy('name', 'asc', { numeric: true }).pluck('name').all()).toEqual(['File1', 'file2', 'file10'])
+      expect(files.sortBy([{ key: 'name', direction: 'desc' }], { numeric: true }).pluck('name').all()).toEqual(['file10', 'file2', 'File1'])
+    })
+
+    it('should use the configured locale', () => {
+      const words = collect([{ word: 'ä' }, { word: 'z' }, { word: 'a' }])
+      expect(words.sortBy('word').pluck('word').all()).toEqual(['a', 'ä', 'z'])
+      words.configure({ locale: 'sv' })
+      expect(words.sortBy('word').pluck('word').all()).toEqual(['a', 'z', 'ä'])
+      expect(words.sortBy('word', 'asc', { locale: 'de' }).pluck('word').all()).toEqual(['a', 'ä', 'z'])
+    })
+
+    it('should sort lazily with the same options', async () => {
+      const lazy = collect(people).lazy()
+      expect(await lazy.sortBy([{ key: 'last', direction: 'desc' }, { key: 'first' }]).pluck('first').toArray()).toEqual(['Ann', 'Cid', 'Bob', 'Dee'])
+      await expect(lazy.sortBy('age', 'asc', { maxItems: 2 }).toArray()).rejects.toThrow('sortBy() would hold more than 2 items in memory')
+    })
+  })
+
+  describe('topK()', () => {
+    const scores = [
+      { player: 'ann', score: 40 },
+      { player: 'bob', score: 95 },
+      { player: 'cid', score: 70 },
+      { player: 'dee', score: 95 },
+      { player: 'eve', score: null },
+    ]
+
+    it('should return the largest items first', () => {
+      expect(collect(scores).topK(3, 'score').pluck('player').all()).toEqual(['bob', 'dee', 'cid'])
+      expect(collect([5, 1, 9, 3]).topK(2).all()).toEqual([9, 5])
+    })
+
+    it('should take the smallest items with an ascending direction', () => {
+      expect(collect(scores).topK(2, 'score', { direction: 'asc' }).pluck('player').all()).toEqual(['eve', 'ann'])
+      expect(collect(scores).topK(2, [{ key: 'score', nulls: 'last' }]).pluck('player').all()).toEqual(['ann', 'cid'])
+    })
+
+    it('should match a full sort', () => {
+      const values = Array.from({ length: 200 }, (_, id) => ({ id, value: (id * 37) % 101 }))
+      const collection = collect(values)
+      expect(collection.topK(15, 'value').all()).toEqual(collection.sortBy('value', 'desc').take(15).all())
+      expect(collection.topK(500, item => item.value).count()).toBe(200)
+      expect(collection.topK(0, 'value').all()).toEqual([])
+    })
+
+    it('should hold only n items on a lazy collection', async () => {
+      async function* stream() {
+        for (let i = 0; i < 1000; i++)
+          yield { id: i, value: (i * 7919) % 1000 }
+      }
+      const top = await createLazyOperations(stream).topK(3, 'value').pluck('value').toArray()
+      expect(top).toEqual([999, 998, 997])
+    })
+  })
 })
 
 describe('Collection Set Operations', () => {
@@ -3168,6 +3752,14 @@ describe('Collection Async Operations', () => {
       expect(result.toArray()).toEqual([2, 4, 6])
     })
 
+    it('should handle each settled item once with unlimited concurrency', async () => {
+      const items = Array.from({ length: 20000 }, (_, i) => i)
+      const result = await collect(items).mapAsync(async num => num * 2)
+
+      expect(result.count()).toBe(20000)
+      expect(result.last()).toBe(39998)
+    })
+
     it('should maintain order', async () => {
       const collection = collect([3, 1, 4])
 
@@ -3359,6 +3951,164 @@ describe('Collection Async Operations', () => {
       expect(result.toArray()).toEqual([2, 4])
     })
   })
+
+  describe('async options', () => {
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+    it('should run at most `concurrency` callbacks at once', async () => {
+      let running = 0
+      let peak = 0
+      const result = await collect([1, 2, 3, 4, 5, 6]).mapAsync(async (n) => {
+        peak = Math.max(peak, ++running)
+        await sleep(5)
+        running--
+        return n * 2
+      }, { concurrency: 2 })
+
+      expect(result.toArray()).toEqual([2, 4, 6, 8, 10, 12])
+      expect(peak).toBe(2)
+    })
+
+    it('should return results in completion order when not ordered', async () => {
+      const result = await collect([30, 10, 20]).mapAsync(async (ms) => {
+        await sleep(ms)
+        return ms
+      }, { ordered: false })
+
+      expect(result.toArray()).toEqual([10, 20, 30])
+    })
+
+    it('should retry failed items with backoff', async () => {
+      const backoff = mock((attempt: number) => attempt)
+      const tries = new Map<number, number>()
+      const result = await collect([1, 2]).mapAsync(async (n) => {
+        tries.set(n, (tries.get(n) ?? 0) + 1)
+        if (n === 2 && tries.get(n)! < 3)
+          throw new Error('flaky')
+        return n
+      }, { retry: { attempts: 3, backoff } })
+
+      expect(result.toArray()).toEqual([1, 2])
+      expect(tries.get(2)).toBe(3)
+      expect(backoff.mock.calls).toEqual([[1], [2]])
+    })
+
+    it('should time out slow attempts and abort their signal', async () => {
+      let aborted: unknown
+      const failures: unknown[] = []
+      const result = await collect([5, 200]).mapAsync(async (ms, _index, signal) => {
+        signal.addEventListener('abort', () => {
+          aborted = signal.reason
+        })
+        await sleep(ms)
+        return ms
+      }, { timeout: 50, onError: failure => failures.push(failure) })
+
+      expect(result.toArray()).toEqual([5])
+      expect(aborted).toBeInstanceOf(AsyncTimeoutError)
+      expect(failures).toEqual([{ item: 200, index: 1, error: aborted, attempts: 1 }])
+      await expect(collect([200]).mapAsync(async (ms) => {
+        await sleep(ms)
+        return ms
+      }, { timeout: 10 })).rejects.toThrow('Item 0 timed out after 10ms')
+    })
+
+    it('should collect or skip failures instead of rejecting', async () => {
+      const failing = async (n: number) => {
+        if (n % 2 === 0)
+          throw new Error(`bad ${n}`)
+        return n
+      }
+      const failures: Array<{ index: number, error: unknown }> = []
+
+      const collected = await collect([1, 2, 3, 4]).mapAsync(failing, { onError: failure => failures.push(failure) })
+      expect(collected.toArray()).toEqual([1, 3])
+      expect(failures.map(failure => failure.index)).toEqual([1, 3])
+      expect((await collect([1, 2, 3]).filterAsync(async n => (await failing(n)) > 1, { onError: 'skip' })).toArray()).toEqual([3])
+      await expect(collect([1, 2]).mapAsync(failing)).rejects.toThrow('bad 2')
+    })
+
+    it('should stop starting items once the signal aborts', async () => {
+      const controller = new AbortController()
+      const started: number[] = []
+      const pending = collect([1, 2, 3, 4]).mapAsync(async (n) => {
+        started.push(n)
+        if (n === 2)
+          controller.abort(new Error('cancelled'))
+        await sleep(5)
+        return n
+      }, { concurrency: 1, signal: controller.signal, onError: 'skip' })
+
+      await expect(pending).rejects.toThrow('cancelled')
+      expect(started).toEqual([1, 2])
+      await expect(collect([1]).mapAsync(async n => n, { signal: controller.signal })).rejects.toThrow('cancelled')
+    })
+
+    it('should short-circuit everyAsync() and someAsync()', async () => {
+      const checked: number[] = []
+      const check = async (n: number) => {
+        checked.push(n)
+        return n < 3
+      }
+
+      expect(await collect([1, 2, 3, 4, 5]).everyAsync(check, { concurrency: 1 })).toBe(false)
+      expect(checked).toEqual([1, 2, 3])
+
+      let abandoned = false
+      const found = await collect([10, 200]).someAsync(async (ms, _index, signal) => {
+        signal.addEventListener('abort', () => {
+          abandoned = true
+        })
+        await sleep(ms)
+        return true
+      })
+      expect(found).toBe(true)
+      expect(abandoned).toBe(true)
+      expect(await collect<number>([]).someAsync(check)).toBe(false)
+    })
+
+    it('should retry and skip in reduceAsync()', async () => {
+      let tries = 0
+      const total = await collect([1, 2, 3]).reduceAsync(async (sum, n) => {
+        if (n === 2 && tries++ < 1)
+          throw new Error('flaky')
+        if (n === 3)
+          throw new Error('broken')
+        return sum + n
+      }, 0, { retry: { attempts: 2 }, onError: 'skip' })
+
+      expect(total).toBe(3)
+      expect(tries).toBe(2)
+    })
+
+    it('should stream lazy results as they are ready', async () => {
+      let pulled = 0
+      const source = createLazyOperations(function* () {
+        for (let i = 1; i <= 100; i++) {
+          pulled++
+          yield i
+        }
+      })
+
+      const firstTwo = await source.mapAsync(async (n) => {
+        await sleep(1)
+        return n * 10
+      }, { concurrency: 3 }).take(2).toArray()
+      expect(firstTwo).toEqual([10, 20])
+      expect(pulled).toBeLessThanOrEqual(5)
+
+      const byCompletion = await collect([30, 5, 15]).lazy().mapAsync(async (ms) => {
+        await sleep(ms)
+        return ms
+      }, { concurrency: 3, ordered: false }).toArray()
+      expect(byCompletion).toEqual([5, 15, 30])
+      expect(await collect([1, 2, 3, 4]).lazy().filterAsync(async n => n > 2, { concurrency: 2 }).toArray()).toEqual([3, 4])
+    })
+
+    it('should reject a concurrency below 1', async () => {
+      await expect(collect([1]).mapAsync(async n => n, { concurrency: 0 })).rejects.toThrow('Concurrency must be greater than 0')
+    })
+  })
 })
 
 describe('Collection Advanced Features', () => {
@@ -3899,7 +4649,7 @@ describe('Collection Serialization', () => {
       const collection = collect(simpleData)
       const csv = collection.toCSV()
       const expectedHeader = 'id,name,age'
-      const firstRow = '1,"John",30'
+      const firstRow = '1,John,30'
 
       expect(csv).toContain(expectedHeader)
       expect(csv).toContain(firstRow)
@@ -3909,20 +4659,20 @@ describe('Collection Serialization', () => {
       const collection = collect(complexData)
       const csv = collection.toCSV()
       expect(csv).toContain('id,name,address,hobbies')
-      expect(csv).toContain(`1,"John",{"street":"123 Main St","city":"Boston"},["reading","gaming"]`)
+      expect(csv).toContain(`1,John,"{""street"":""123 Main St"",""city"":""Boston""}","[""reading"",""gaming""]"`)
     })
 
     it('should escape special characters', () => {
       const collection = collect(specialCharsData)
       const csv = collection.toCSV()
-      expect(csv).toContain('"John \\"Johnny\\" Doe"')
+      expect(csv).toContain('"John ""Johnny"" Doe"')
       expect(csv).toContain('"Likes to use, commas"')
     })
 
     it('should handle arrays in CSV conversion', () => {
       const collection = collect(complexData)
       const csv = collection.toCSV()
-      expect(csv).toContain('["reading","gaming"]')
+      expect(csv).toContain('"[""reading"",""gaming""]"')
     })
 
     it('should respect exclude option', () => {
@@ -3952,11 +4702,10 @@ describe('Collection Serialization', () => {
       ]
       const collection = collect(data)
       const csv = collection.toCSV()
-      // Update expectations to match actual CSV output
-      const lines = csv.split('\n')
+      const lines = csv.split('\r\n')
       expect(lines[0]).toBe('id,name,age')
-      expect(lines[1]).toContain('1,null,') // undefined becomes empty
-      expect(lines[2]).toContain('2,"Jane",null')
+      expect(lines[1]).toBe('1,,')
+      expect(lines[2]).toBe('2,Jane,')
     })
   })
 
@@ -3980,12 +4729,34 @@ describe('Collection Serialization', () => {
       expect(xml).toContain('&lt;test&gt;')
     })
 
-    it('should handle nested objects by stringifying them', () => {
+    it('should write nested objects and arrays as elements', () => {
       const collection = collect(complexData)
       const xml = collection.toXML()
-      // Update expectations to match actual XML output
-      expect(xml).toContain('<address>[object Object]</address>')
-      expect(xml).toContain('<hobbies>reading,gaming</hobbies>')
+      expect(xml).toContain('<address>\n      <street>123 Main St</street>\n      <city>Boston</city>\n    </address>')
+      expect(xml).toContain('<hobbies>\n      <item>reading</item>\n      <item>gaming</item>\n    </hobbies>')
+    })
+
+    it('should write null as an empty element and skip undefined', () => {
+      const xml = collect([{ id: 1, name: null, age: undefined }]).toXML({ pretty: false, declaration: false })
+      expect(xml).toBe('<items><item><id>1</id><name/></item></items>')
+    })
+
+    it('should use custom root and item tags and map attributes', () => {
+      const users = collect([
+        { '@id': 1, 'name': 'John', 'role': 'admin' },
+        { '@id': 2, 'name': 'Jane', 'role': 'user' },
+      ])
+      const xml = users.toXML({ rootTag: 'users', itemTag: 'user', attributes: ['role'], pretty: false, declaration: false })
+      expect(xml).toBe('<users><user id="1" role="admin"><name>John</name></user><user id="2" role="user"><name>Jane</name></user></users>')
+    })
+
+    it('should write text beside attributes with the text key', () => {
+      const xml = collect([{ price: { '@currency': 'USD', '#text': 9.99 } }]).toXML({ pretty: false, declaration: false })
+      expect(xml).toBe('<items><item><price currency="USD">9.99</price></item></items>')
+    })
+
+    it('should reject keys that are not XML names', () => {
+      expect(() => collect([{ 'first name': 'John' }]).toXML()).toThrow('"first name" is not a valid XML name')
     })
 
     it('should respect exclude option', () => {
@@ -4042,50 +4813,312 @@ describe('Collection Serialization', () => {
     })
   })
 
-  describe('serialization edge cases', () => {
-    it('should handle objects with methods', () => {
-      const dataWithMethod = [
-        {
-          id: 1,
-          name: 'Test',
-          getMessage() { return 'Hello' },
-        },
+  describe('XML', () => {
+    const reader = collect<any>([])
+
+    it('should round-trip toXML output', () => {
+      const data = [
+        { id: 1, name: 'John & "Jo" <Doe>', zip: '02134', active: true, address: { city: 'Boston' }, tags: ['a'], note: null, empty: '' },
+        { id: 2, name: 'Jane', zip: '02139', active: false, address: { city: 'Cambridge' }, tags: ['b', 'c'], note: null, empty: '' },
       ]
-      const collection = collect(dataWithMethod)
-      const json = collection.toJSON()
-      expect(JSON.parse(json)[0]).not.toHaveProperty('getMessage')
+      const collection = collect(data)
+      expect(collection.parse(collection.toXML(), 'xml').toArray()).toEqual(data)
+      expect(collection.parse(collection.toXML({ pretty: false }), 'xml').toArray()).toEqual(data)
+    })
+
+    it('should keep strings that look like numbers or booleans as strings', () => {
+      const data = [{ count: '42', flag: 'true', price: { '@currency': 'USD', '#text': '9.99' } }, '7']
+      const collection = collect<any>(data)
+      const xml = collection.toXML({ pretty: false, declaration: false })
+
+      expect(xml).toContain('<count><![CDATA[42]]></count>')
+      expect(collection.parse(xml, 'xml').toArray()).toEqual(data)
+    })
+
+    it('should read back empty arrays, itemTag-only objects and attributes lossily', () => {
+      const collection = collect<any>([{ tags: [], wrapper: { item: 1 }, '@code': '42' }])
+
+      expect(collection.parse(collection.toXML(), 'xml').first()).toEqual({ tags: '', wrapper: [1], '@code': 42 })
+      expect(collection.parse(collection.toXML(), 'xml', { inferTypes: false }).first()['@code']).toBe('42')
+    })
+
+    it('should round-trip custom tags and attributes', () => {
+      const users = collect([{ '@id': 1, 'name': 'John' }, { '@id': 2, 'name': 'Jane' }])
+      const options = { rootTag: 'users', itemTag: 'user' }
+      expect(users.parse(users.toXML(options), 'xml', options).toArray()).toEqual(users.toArray())
+    })
+
+    it('should read attributes, repeated elements, CDATA and entities', () => {
+      const xml = `<?xml version="1.0"?>
+<!DOCTYPE catalog [<!ELEMENT catalog ANY>]>
+<!-- exported nightly -->
+<catalog>
+  <product sku="A-1" featured="true">
+    <title><![CDATA[Fish & <Chips>]]></title>
+    <code><![CDATA[42]]></code>
+    <tag>food</tag>
+    <tag>hot</tag>
+    <price currency="GBP">7.5</price>
+    <note>&#169; caf&#xE9; &amp; bar &unknown;</note>
+  </product>
+</catalog>`
+
+      expect(reader.parse(xml, 'xml').first()).toEqual({
+        '@sku': 'A-1',
+        '@featured': true,
+        'title': 'Fish & <Chips>',
+        'code': '42',
+        'tag': ['food', 'hot'],
+        'price': { '@currency': 'GBP', '#text': 7.5 },
+        'note': '© café & bar &unknown;',
+      })
     })
 
-    it('should handle deeply nested objects', () => {
-      const deeplyNested = [
-        {
-          level1: {
-            level2: {
-              level3: {
-                level4: {
-                  value: 'deep',
-                },
-              },
-            },
-          },
-        },
-      ]
-      const collection = collect(deeplyNested)
-      const json = collection.toJSON()
-      const parsed = JSON.parse(json)
-      expect(parsed[0].level1.level2.level3.level4.value).toBe('deep')
+    it('should select the root and item tags', () => {
+      const xml = '<feed><meta><count>2</count></meta><entries><entry>1</entry><skip>x</skip><entry>2</entry></entries></feed>'
+      expect(reader.parse(xml, 'xml', { rootTag: 'entries', itemTag: 'entry' }).toArray()).toEqual([1, 2])
+      expect(() => reader.parse(xml, 'xml', { rootTag: 'missing' })).toThrow('No <missing> element found in the XML document')
     })
 
-    it('should handle special number values', () => {
-      const specialNumbers = [
-        { id: 1, value: Infinity },
-        { id: 2, value: -Infinity },
-        { id: 3, value: Number.NaN },
-      ]
-      const collection = collect(specialNumbers)
-      const json = collection.toJSON()
-      const parsed = JSON.parse(json)
-      expect(parsed[0].value).toBe(null)
+    it('should keep or strip namespaces', () => {
+      const xml = '<a:list xmlns:a="urn:a"><a:row a:id="1"><a:name>John</a:name></a:row></a:list>'
+      expect(reader.parse(xml, 'xml').first()).toEqual({ '@a:id': 1, 'a:name': 'John' })
+      expect(reader.parse(xml, 'xml', { stripNamespaces: true }).first()).toEqual({ '@id': 1, 'name': 'John' })
+    })
+
+    it('should honour attribute, text, array and inference options', () => {
+      const xml = '<rows><row id="007"><tag>x</tag><value unit="kg">12</value></row></rows>'
+      expect(reader.parse(xml, 'xml', { attributePrefix: '', textKey: 'amount', arrays: ['tag'], inferTypes: false }).first()).toEqual({
+        id: '007',
+        tag: ['x'],
+        value: { unit: 'kg', amount: '12' },
+      })
+    })
+
+    it('should report malformed documents with a position', () => {
+      const parse = (xml: string) => () => parseXML(xml)
+      expect(parse('<a>\n  <b></c>\n</a>')).toThrow(XMLParseError)
+      expect(parse('<a>\n  <b></c>\n</a>')).toThrow('Expected </b> but found </c> at line 2, column 6')
+      expect(parse('<a><b>')).toThrow('Unclosed <b> element at line 1, column 4')
+      expect(parse('<a x="1" x="2"/>')).toThrow('Duplicate attribute "x"')
+      expect(parse('<a/><b/>')).toThrow('Unexpected content after the root element')
+    })
+  })
+
+  describe('NDJSON', () => {
+    it('should write one JSON document per line', () => {
+      const collection = collect(simpleData)
+      expect(collection.toNDJSON()).toBe(`${simpleData.map(item => JSON.stringify(item)).join('\n')}\n`)
+      expect(collection.toNDJSON({ include: ['name'] })).toBe('{"name":"John"}\n{"name":"Jane"}\n{"name":"Bob"}\n')
+      expect(collect([]).toNDJSON()).toBe('')
+    })
+
+    it('should keep line breaks inside values on one line', () => {
+      const ndjson = collect([{ text: 'line one\nline two' }]).toNDJSON()
+      expect(ndjson.split('\n')).toHaveLength(2)
+      expect(collect<{ text: string }>([]).parse(ndjson, 'ndjson').toArray()).toEqual([{ text: 'line one\nline two' }])
+    })
+
+    it('should round-trip through parse()', () => {
+      const collection = collect(complexData)
+      expect(collection.parse(collection.toNDJSON(), 'ndjson').toArray()).toEqual(complexData)
+    })
+
+    it('should skip blank lines and accept CRLF and a BOM', () => {
+      expect(parseNDJSON('\uFEFF{"a":1}\r\n\r\n  \n[2]\r\n"three"').items).toEqual([{ a: 1 }, [2], 'three'])
+    })
+
+    it('should report malformed lines with their line numbers', () => {
+      const { items, errors } = parseNDJSON('{"id":1}\n\n{"id":\n{"id":4}')
+      expect(items).toEqual([{ id: 1 }, { id: 4 }])
+      expect(errors).toHaveLength(1)
+      expect(errors[0]).toMatchObject({ line: 3, text: '{"id":' })
+    })
+
+    it('should throw, skip or report malformed lines when parsing', () => {
+      const ndjson = '{"id":1}\nnope\n{"id":3}'
+      const reported: number[] = []
+
+      expect(() => collect([]).parse(ndjson, 'ndjson')).toThrow(NDJSONParseError)
+      expect(() => collect([]).parse(ndjson, 'ndjson')).toThrow(/^Line 2: /)
+      expect(collect([]).parse(ndjson, 'ndjson', { onError: 'skip' }).count()).toBe(2)
+      expect(collect([]).parse(ndjson, 'ndjson', { onError: error => reported.push(error.line) }).count()).toBe(2)
+      expect(reported).toEqual([2])
+    })
+
+    it('should stream items into a lazy collection', async () => {
+      const encoder = new TextEncoder()
+      const chunks = ['{"id":1,"type":"cli', 'ck"}\r', '\n{"id":2,"type":"view"}\n{"id":3,', '"type":"click","label":"é"}']
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          // Split the multi-byte character across chunks
+          const bytes = chunks.map(chunk => encoder.encode(chunk))
+          const last = bytes.pop()!
+          bytes.forEach(chunk => controller.enqueue(chunk))
+          controller.enqueue(last.slice(0, -3))
+          controller.enqueue(last.slice(-3))
+          controller.close()
+        },
+      })
+
+      const clicks = await readNDJSON<{ id: number, type: string, label?: string }>(stream)
+        .filter(event => event.type === 'click')
+        .toArray()
+
+      expect(clicks).toEqual([{ id: 1, type: 'click' }, { id: 3, type: 'click', label: 'é' }])
+    })
+
+    it('should apply the error policy while streaming', async () => {
+      const lines = ['{"id":1}\n', '{oops}\n', '{"id":3}\n']
+      const reported: number[] = []
+
+      expect(await readNDJSON(lines, { onError: 'skip' }).toArray()).toEqual([{ id: 1 }, { id: 3 }])
+      expect(await readNDJSON(lines, { onError: error => reported.push(error.line) }).count()).toBe(2)
+      expect(reported).toEqual([2])
+      await expect(readNDJSON(lines).toArray()).rejects.toThrow(NDJSONParseError)
+    })
+  })
+
+  describe('CSV', () => {
+    it('should round-trip quotes, delimiters and line breaks', () => {
+      const collection = collect(specialCharsData)
+      const parsed = collection.parse(collection.toCSV(), 'csv')
+      expect(parsed.toArray()).toEqual(specialCharsData)
+    })
+
+    it('should read CRLF files with a BOM and quoted line breaks', () => {
+      const csv = '\uFEFFid,note\r\n1,"first\r\nsecond"\r\n\r\n2,plain\r\n'
+      expect(parseCSV(csv).items).toEqual([
+        { id: 1, note: 'first\r\nsecond' },
+        { id: 2, note: 'plain' },
+      ])
+    })
+
+    it('should support custom delimiter, quote and escape characters', () => {
+      const items = [{ name: 'Semi;colon', quote: 'It\'s \\ fine' }]
+      const options = { delimiter: ';', quote: '\'', escape: '\\' }
+      const csv = collect(items).toCSV(options)
+
+      expect(csv).toBe('name;quote\r\n\'Semi;colon\';\'It\\\'s \\\\ fine\'')
+      expect(collect(items).parse(csv, 'csv', options).toArray()).toEqual(items)
+    })
+
+    it('should read headerless files as arrays or named columns', () => {
+      const csv = 'a,1\nb,2'
+      expect(parseCSV<unknown[]>(csv, { header: false }).items).toEqual([['a', 1], ['b', 2]])
+      expect(parseCSV(csv, { header: false, columns: ['letter', 'number'], inferTypes: false }).items).toEqual([
+        { letter: 'a', number: '1' },
+        { letter: 'b', number: '2' },
+      ])
+    })
+
+    it('should coerce columns with a type map', () => {
+      const csv = 'id,zip,active,joined,score\n007,02134,yes,2024-01-02,\n8,10001,false,2024-02-03,4.5'
+      const { items, errors } = parseCSV(csv, {
+        types: { id: 'number', zip: 'string', active: 'boolean', joined: 'date', score: 'number?' },
+      })
+
+      expect(errors).toEqual([])
+      expect(items).toEqual([
+        { id: 7, zip: '02134', active: true, joined: new Date('2024-01-02'), score: null },
+        { id: 8, zip: '10001', active: false, joined: new Date('2024-02-03'), score: 4.5 },
+      ])
+    })
+
+    it('should report bad rows with row and line numbers', () => {
+      const csv = 'id,age\n1,30\n2,old\n3,40,extra\n4,"unterminated'
+      const { items, errors } = parseCSV(csv, { types: { age: 'number' } })
+
+      expect(items).toEqual([{ id: 1, age: 30 }])
+      expect(errors).toEqual([
+        { row: 2, line: 3, column: 'age', message: 'Expected a number, got "old"' },
+        { row: 3, line: 4, message: 'Expected 2 fields, found 3' },
+        { row: 4, line: 5, message: 'Unterminated quoted field' },
+      ])
+    })
+
+    it('should throw, skip or report bad rows when parsing', () => {
+      const csv = 'id,age\n1,30\n2,old'
+      const options = { types: { age: 'number' as const } }
+      const reported: number[] = []
+
+      expect(() => collect([]).parse(csv, 'csv', options)).toThrow(CSVParseError)
+      expect(() => collect([]).parse(csv, 'csv', options)).toThrow('Row 2 (line 3), column "age": Expected a number, got "old"')
+      expect(collect([]).parse(csv, 'csv', { ...options, onError: 'skip' }).count()).toBe(1)
+      expect(collect([]).parse(csv, 'csv', { ...options, onError: error => reported.push(error.row) }).count()).toBe(1)
+      expect(reported).toEqual([2])
+    })
+
+    it('should stream rows into a lazy collection', async () => {
+      const encoder = new TextEncoder()
+      const chunks = ['id,na', 'me\r', '\n1,"Jo', 'hn"\r\n2,Ja', 'ne\r\n3,Bob']
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+          controller.close()
+        },
+      })
+
+      const names = await readCSV<{ id: number, name: string }>(stream)
+        .filter(row => row.id > 1)
+        .map(row => row.name)
+        .toArray()
+
+      expect(names).toEqual(['Jane', 'Bob'])
+    })
+
+    it('should apply the error policy while streaming', async () => {
+      const rows = readCSV(['id\n1\nx\n3'], { types: { id: 'number' }, onError: 'skip' })
+      expect(await rows.toArray()).toEqual([{ id: 1 }, { id: 3 }])
+
+      await expect(readCSV(['id\n1\nx'], { types: { id: 'number' } }).toArray()).rejects.toThrow(CSVParseError)
+    })
+  })
+
+  describe('serialization edge cases', () => {
+    it('should handle objects with methods', () => {
+      const dataWithMethod = [
+        {
+          id: 1,
+          name: 'Test',
+          getMessage() { return 'Hello' },
+        },
+      ]
+      const collection = collect(dataWithMethod)
+      const json = collection.toJSON()
+      expect(JSON.parse(json)[0]).not.toHaveProperty('getMessage')
+    })
+
+    it('should handle deeply nested objects', () => {
+      const deeplyNested = [
+        {
+          level1: {
+            level2: {
+              level3: {
+                level4: {
+                  value: 'deep',
+                },
+              },
+            },
+          },
+        },
+      ]
+      const collection = collect(deeplyNested)
+      const json = collection.toJSON()
+      const parsed = JSON.parse(json)
+      expect(parsed[0].level1.level2.level3.level4.value).toBe('deep')
+    })
+
+    it('should handle special number values', () => {
+      const specialNumbers = [
+        { id: 1, value: Infinity },
+        { id: 2, value: -Infinity },
+        { id: 3, value: Number.NaN },
+      ]
+      const collection = collect(specialNumbers)
+      const json = collection.toJSON()
+      const parsed = JSON.parse(json)
+      expect(parsed[0].value).toBe(null)
       expect(parsed[1].value).toBe(null)
       expect(parsed[2].value).toBe(null)
     })
@@ -4219,6 +5252,264 @@ describe('Collection Performance Features', () => {
       expect(computeSpy).toHaveBeenCalledTimes(2)
       expect(secondResult.length).toBe(firstResult.length + 1)
     })
+    it('should reuse derived collections by pipeline fingerprint', () => {
+      const spy = mock((n: number) => n * 2)
+      const numbers = collect([1, 2, 3, 4]).cache()
+
+      expect(numbers.map(spy).filter(n => n > 4).toArray()).toEqual([6, 8])
+      expect(numbers.map(spy).toArray()).toEqual([2, 4, 6, 8])
+      expect(spy).toHaveBeenCalledTimes(4)
+
+      // Equal items share entries, while a different callback is a different pipeline
+      expect(collect([1, 2, 3, 4]).cache().map(spy).sum()).toBe(20)
+      expect(spy).toHaveBeenCalledTimes(4)
+      expect(numbers.map(n => n * 2).count()).toBe(4)
+    })
+
+    it('should not read the store for methods returning other values', () => {
+      const store = createMemoryStore()
+      const get = spyOn(store, 'get')
+      const numbers = collect([1, 2, 3]).cache({ store })
+
+      numbers.sum()
+      numbers.count()
+      get.mockClear()
+      expect(numbers.sum()).toBe(6)
+      expect(numbers.count()).toBe(3)
+      expect(get).not.toHaveBeenCalled()
+
+      numbers.map(value => value * 2)
+      expect(get).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep the index on results read from the cache', () => {
+      const store = createMemoryStore()
+      const items = [{ id: 1, k: 'a' }, { id: 2, k: 'b' }, { id: 3, k: 'a' }]
+      const cached = collect(items).index(['k']).cache({ store })
+
+      cached.sortBy('id', 'desc')
+      const hit = cached.sortBy('id', 'desc')
+
+      expect((hit as any).__indexes?.keys).toEqual(['k'])
+      expect(hit.where('k', 'a').pluck('id').toArray()).toEqual([3, 1])
+    })
+
+    it('should recompute once the TTL has passed', () => {
+      const start = new Date('2024-01-01T00:00:00.000Z')
+      setSystemTime(start)
+      const spy = mock((n: number) => n + 1)
+      const numbers = collect([1, 2, 3]).cache({ ttl: 50, store: createMemoryStore() })
+
+      numbers.map(spy)
+      setSystemTime(new Date(start.getTime() + 40))
+      numbers.map(spy)
+      expect(spy).toHaveBeenCalledTimes(3)
+
+      setSystemTime(new Date(start.getTime() + 60))
+      expect(numbers.map(spy).toArray()).toEqual([2, 3, 4])
+      expect(spy).toHaveBeenCalledTimes(6)
+    })
+
+    it('should recompute after invalidate() and in-place changes', () => {
+      const spy = mock((n: number) => n)
+      const numbers = collect([3, 1, 2]).cache({ store: createMemoryStore() })
+
+      numbers.map(spy)
+      numbers.invalidate()
+      numbers.map(spy)
+      expect(spy).toHaveBeenCalledTimes(6)
+
+      expect(numbers.pop()).toBe(2)
+      expect(numbers.map(spy).toArray()).toEqual([3, 1])
+      expect(spy).toHaveBeenCalledTimes(8)
+    })
+
+    it('should drop the least recently used entries', () => {
+      const store = createMemoryStore({ maxEntries: 2 })
+      store.set('a', { data: [1], expiry: Infinity })
+      store.set('b', { data: [2], expiry: Infinity })
+      store.get('a')
+      store.set('c', { data: [3], expiry: Infinity })
+
+      expect(store.get('b')).toBeUndefined()
+      expect(store.get('a')?.data).toEqual([1])
+      expect(store.get('c')?.data).toEqual([3])
+    })
+
+    it('should clear an entry and the entries built on it', () => {
+      const store = createMemoryStore()
+      for (const key of ['root', 'root.map(1)', 'root.map(1).filter(2)', 'root.map(12)', 'other'])
+        store.set(key, { data: [], expiry: Infinity })
+
+      store.clear('root.map(1)')
+      expect(['root', 'root.map(1)', 'root.map(1).filter(2)', 'root.map(12)', 'other'].map(key => store.get(key) !== undefined))
+        .toEqual([true, false, false, true, true])
+    })
+
+    it('should keep entries in files that outlive the store', () => {
+      const directory = mkdtempSync(join(tmpdir(), 'ts-collect-cache-'))
+      try {
+        const first = createFileStore(directory, { maxEntries: 2 })
+        const spy = mock((n: number) => n * 10)
+        collect([1, 2]).cache({ key: 'scores', store: first }).map(spy)
+
+        const second = createFileStore(directory, { maxEntries: 2 })
+        expect(collect([9]).cache({ key: 'scores', store: second }).map(spy).toArray()).toEqual([10, 20])
+        expect(spy).toHaveBeenCalledTimes(2)
+
+        second.set('a', { data: [1], expiry: Infinity })
+        second.set('b', { data: [2], expiry: Infinity })
+        expect(readdirSync(directory)).toHaveLength(2)
+        expect(second.delete('b')).toBe(true)
+        second.clear()
+        expect(readdirSync(directory)).toHaveLength(0)
+      }
+      finally {
+        rmSync(directory, { recursive: true, force: true })
+      }
+    })
+
+    it('should share the store with lazy pipelines', async () => {
+      const store = createMemoryStore()
+      const spy = mock((n: number) => n * 3)
+      const pipeline = () => collect([1, 2, 3]).lazy().map(spy).cache({ store })
+
+      expect(await pipeline().toArray()).toEqual([3, 6, 9])
+      expect(await pipeline().filter(n => n > 3).toArray()).toEqual([6, 9])
+      expect(spy).toHaveBeenCalledTimes(3)
+
+      pipeline().invalidate()
+      expect(await pipeline().count()).toBe(3)
+      expect(spy).toHaveBeenCalledTimes(6)
+
+      collect([1, 2, 3]).lazy().invalidate(store)
+      expect(await pipeline().count()).toBe(3)
+      expect(spy).toHaveBeenCalledTimes(9)
+    })
+  })
+
+  describe('versioned()', () => {
+    interface Account { id: number, name: string, active: boolean }
+    const accounts = (): Account[] => [
+      { id: 1, name: 'Chris', active: true },
+      { id: 2, name: 'Avery', active: false },
+    ]
+
+    it('should record every change with the previous item', () => {
+      const versioned = collect(accounts()).versioned({ key: 'id' })
+      expect(versioned.currentVersion).toBe(0)
+
+      expect(versioned.add({ id: 3, name: 'Blake', active: true })).toBe(1)
+      expect(versioned.update({ id: 2, name: 'Avery', active: true })).toBe(2)
+      expect(versioned.remove(1)).toBe(3)
+
+      expect(versioned.pluck('id').all()).toEqual([2, 3])
+      expect(versioned.history().map(info => info.changes)).toEqual([
+        [{ type: 'add', item: { id: 3, name: 'Blake', active: true }, index: 2 }],
+        [{ type: 'update', item: { id: 2, name: 'Avery', active: true }, previousItem: { id: 2, name: 'Avery', active: false }, index: 1 }],
+        [{ type: 'delete', item: { id: 1, name: 'Chris', active: true }, previousItem: { id: 1, name: 'Chris', active: true }, index: 0 }],
+      ])
+    })
+
+    it('should leave the source collection alone', () => {
+      const source = collect(accounts())
+      const versioned = source.versioned({ key: item => item.name })
+      versioned.remove('Chris')
+      expect(source.count()).toBe(2)
+      expect(versioned.count()).toBe(1)
+    })
+
+    it('should reject duplicate and missing keys', () => {
+      expect(() => collect([{ id: 1 }, { id: 1 }]).versioned({ key: 'id' })).toThrow('unique key')
+      const versioned = collect(accounts()).versioned({ key: 'id' })
+      expect(() => versioned.add({ id: 1, name: 'Again', active: true })).toThrow('An item with key 1 already exists')
+      expect(() => versioned.update({ id: 9, name: 'Nobody', active: true })).toThrow('No item with key 9')
+      expect(() => versioned.remove(9)).toThrow('No item with key 9')
+      expect(versioned.currentVersion).toBe(0)
+    })
+
+    it('should undo and redo changes in place', () => {
+      const versioned = collect(accounts()).versioned({ key: 'id' })
+      versioned.remove(1)
+      versioned.update({ id: 2, name: 'Avery Jones', active: false })
+
+      expect(versioned.undo()).toBe(true)
+      expect(versioned.currentVersion).toBe(1)
+      expect(versioned.first()?.name).toBe('Avery')
+      expect(versioned.undo()).toBe(true)
+      expect(versioned.all()).toEqual(accounts())
+      expect(versioned.undo()).toBe(false)
+
+      expect(versioned.redo()).toBe(true)
+      expect(versioned.redo()).toBe(true)
+      expect(versioned.redo()).toBe(false)
+      expect(versioned.all()).toEqual([{ id: 2, name: 'Avery Jones', active: false }])
+    })
+
+    it('should clear the redo stack on a new change', () => {
+      const versioned = collect(accounts()).versioned({ key: 'id' })
+      versioned.remove(2)
+      versioned.undo()
+      expect(versioned.add({ id: 3, name: 'Blake', active: true })).toBe(2)
+      expect(versioned.redo()).toBe(false)
+      expect(versioned.history().map(info => info.version)).toEqual([2])
+    })
+
+    it('should record pop() and shift()', () => {
+      const versioned = collect(accounts()).versioned({ key: 'id' })
+      expect(versioned.pop()?.id).toBe(2)
+      expect(versioned.shift()?.id).toBe(1)
+      expect(versioned.shift()).toBeUndefined()
+      expect(versioned.currentVersion).toBe(2)
+
+      versioned.undo()
+      versioned.undo()
+      expect(versioned.all()).toEqual(accounts())
+    })
+
+    it('should diff net changes since a version', () => {
+      const versioned = collect(accounts()).versioned({ key: 'id' })
+      versioned.update({ id: 1, name: 'Chris', active: false })
+      const checkpoint = versioned.snapshot()
+      versioned.update({ id: 1, name: 'Christopher', active: false })
+      versioned.add({ id: 3, name: 'Blake', active: true })
+      versioned.remove(3)
+      versioned.remove(2)
+
+      expect(versioned.diffSince(checkpoint)).toEqual([
+        { type: 'delete', item: { id: 2, name: 'Avery', active: false }, previousItem: { id: 2, name: 'Avery', active: false }, index: 1 },
+        { type: 'update', item: { id: 1, name: 'Christopher', active: false }, previousItem: { id: 1, name: 'Chris', active: false }, index: 0 },
+      ])
+      expect(versioned.diffSince(0).map(change => change.type)).toEqual(['delete', 'update'])
+      expect(versioned.diffSince(versioned.currentVersion)).toEqual([])
+      expect(() => versioned.diffSince(42)).toThrow('Version 42 is not in the history')
+    })
+
+    it('should roll back as a new version that can be undone', () => {
+      const versioned = collect(accounts()).versioned({ key: 'id' })
+      versioned.add({ id: 3, name: 'Blake', active: true })
+      versioned.remove(1)
+      versioned.update({ id: 2, name: 'Avery', active: true })
+
+      expect(versioned.rollback(1)).toBe(4)
+      expect(versioned.all()).toEqual([...accounts(), { id: 3, name: 'Blake', active: true }])
+      expect(versioned.history().at(-1)?.changes.map(change => change.type)).toEqual(['update', 'add'])
+
+      versioned.undo()
+      expect(versioned.pluck('id').all()).toEqual([2, 3])
+      expect(versioned.rollback(3)).toBe(3)
+    })
+
+    it('should keep where() lookups in step with changes', () => {
+      const versioned = collect(accounts()).versioned({ key: 'id' })
+      versioned.index(['active'])
+      expect(versioned.where('active', true).count()).toBe(1)
+
+      versioned.update({ id: 2, name: 'Avery', active: true })
+      expect(versioned.where('active', true).count()).toBe(2)
+      versioned.undo()
+      expect(versioned.where('active', true).count()).toBe(1)
+    })
   })
 
   describe('lazy()', () => {
@@ -4371,6 +5662,235 @@ describe('Collection Performance Features', () => {
         expect(item.id).toBe(index)
       })
     })
+
+    it('should keep items mapped to undefined', async () => {
+      const items = [{ id: 1, nickname: 'JJ' }, { id: 2 }, { id: 3, nickname: 'Bo' }] as Array<{ id: number, nickname?: string }>
+      const nicknames = await collect(items).lazy().map(item => item.nickname).toArray()
+
+      expect(nicknames).toEqual(['JJ', undefined, 'Bo'])
+      expect(await collect([1, 2, 3]).lazy().map(() => undefined).take(2).count()).toBe(2)
+    })
+
+    it('should narrow and read dot paths like the eager methods', async () => {
+      const orders = collect([
+        { id: 1, status: 'paid', note: 'gift', customer: { city: 'Oslo', spent: 30 } },
+        { id: 2, status: 'open', note: null, customer: { city: 'Rome', spent: 50 } },
+        { id: 3, status: 'paid', note: null, customer: { city: 'Oslo', spent: 20 } },
+      ] as Array<{ id: number, status: 'paid' | 'open', note: string | null, customer: { city: string, spent: number } }>).lazy()
+
+      const paid: Array<{ status: 'paid' }> = await orders.where('status', 'paid').toArray()
+      const notes: string[] = (await orders.whereNotNull('note').toArray()).map(order => order.note)
+
+      expect(paid).toHaveLength(2)
+      expect(notes).toEqual(['gift'])
+      expect(await orders.where('customer.city', 'Oslo').pluck('id').toArray()).toEqual([1, 3])
+      expect(await orders.pluck('customer.city').toArray()).toEqual(['Oslo', 'Rome', 'Oslo'])
+      expect(await orders.sum('customer.spent')).toBe(100)
+      expect(await orders.avg('customer.spent')).toBe(100 / 3)
+      expect((await orders.min('customer.spent'))?.id).toBe(3)
+      expect((await orders.max('customer.spent'))?.id).toBe(2)
+    })
+
+    it('should stop pulling from the source once take() is satisfied', async () => {
+      let pulled = 0
+      let closed = false
+      const lazy = createLazyOperations(function* () {
+        try {
+          for (let i = 1; i <= 1000; i++) {
+            pulled++
+            yield i
+          }
+        }
+        finally {
+          closed = true
+        }
+      })
+
+      expect(await lazy.filter(n => n % 2 === 0).take(3).toArray()).toEqual([2, 4, 6])
+      expect(pulled).toBe(6)
+      expect(closed).toBe(true)
+      expect(await lazy.take(0).toArray()).toEqual([])
+    })
+
+    it('should close the source when first() finds an item', async () => {
+      let closed = false
+      async function* source() {
+        try {
+          yield* [1, 2, 3]
+        }
+        finally {
+          closed = true
+        }
+      }
+
+      expect(await createLazyOperations(source).first()).toBe(1)
+      expect(closed).toBe(true)
+    })
+
+    it('should re-run the pipeline for every terminal operation', async () => {
+      const lazy = collect([1, 2, 3, 4]).lazy().map(n => n * 10).skip(1)
+
+      expect(await lazy.toArray()).toEqual([20, 30, 40])
+      expect(await lazy.count()).toBe(3)
+      expect(await lazy.first()).toBe(20)
+      expect(await lazy.reduce((sum, n) => sum + n, 0)).toBe(90)
+    })
+
+    it('should read iterables, async iterables and factories', async () => {
+      async function* numbers() {
+        yield* [1, 2, 3]
+      }
+
+      expect(await createLazyOperations(new Set([1, 2, 2, 3])).toArray()).toEqual([1, 2, 3])
+      expect(await createLazyOperations(numbers).count()).toBe(3)
+      expect(await createLazyOperations(numbers).count()).toBe(3)
+
+      // A generator object can only be consumed once
+      const once = createLazyOperations(numbers())
+      expect(await once.count()).toBe(3)
+      expect(await once.count()).toBe(0)
+    })
+
+    it('should be async iterable', async () => {
+      const seen: number[] = []
+      for await (const n of collect([1, 2, 3]).lazy().map(n => n + 1))
+        seen.push(n)
+      expect(seen).toEqual([2, 3, 4])
+    })
+
+    it('should replay cached items without re-running the pipeline', async () => {
+      const computeSpy = mock()
+      const cached = collect([1, 2, 3]).lazy().map((n) => {
+        computeSpy()
+        return n * 2
+      }).cache()
+
+      expect(await cached.toArray()).toEqual([2, 4, 6])
+      expect(await cached.filter(n => n > 2).toArray()).toEqual([4, 6])
+      expect(computeSpy).toHaveBeenCalledTimes(3)
+    })
+
+    it('should await async callbacks', async () => {
+      const lazy = collect([1, 2, 3, 4]).lazy()
+
+      expect(await lazy.map(async n => n * 2).filter(async n => n > 2).toArray()).toEqual([4, 6, 8])
+      expect(await lazy.reduce(async (sum, n) => sum + n, 0)).toBe(10)
+      expect(await lazy.flatMap(async n => [n, n]).count()).toBe(8)
+
+      const seen: number[] = []
+      await lazy.forEach(async (n) => {
+        await Promise.resolve()
+        seen.push(n)
+      })
+      expect(seen).toEqual([1, 2, 3, 4])
+    })
+
+    it('should map and drop missing values with filterMap()', async () => {
+      const lazy = collect(['1', 'x', '3', '']).lazy()
+
+      expect(await lazy.filterMap(text => text ? Number(text) || null : undefined).toArray()).toEqual([1, 3])
+    })
+
+    it('should take and skip while or until a condition holds', async () => {
+      const lazy = collect([1, 2, 3, 4, 1, 2]).lazy()
+
+      expect(await lazy.takeWhile(n => n < 3).toArray()).toEqual([1, 2])
+      expect(await lazy.takeUntil(3).toArray()).toEqual([1, 2])
+      expect(await lazy.skipWhile(async n => n < 3).toArray()).toEqual([3, 4, 1, 2])
+      expect(await lazy.skipUntil(4).toArray()).toEqual([4, 1, 2])
+      expect(await lazy.reject(n => n % 2 === 0).toArray()).toEqual([1, 3, 1])
+    })
+
+    it('should stop pulling once takeWhile() fails', async () => {
+      let pulled = 0
+      const lazy = createLazyOperations(function* () {
+        for (let i = 1; i <= 1000; i++) {
+          pulled++
+          yield i
+        }
+      })
+
+      expect(await lazy.takeWhile(n => n < 3).toArray()).toEqual([1, 2])
+      expect(pulled).toBe(3)
+    })
+
+    it('should zip and concat other sources', async () => {
+      async function* letters() {
+        yield* ['a', 'b']
+      }
+      const lazy = collect([1, 2, 3]).lazy()
+
+      expect(await lazy.zip(letters()).toArray()).toEqual([[1, 'a'], [2, 'b'], [3, undefined]])
+      expect(await lazy.zip(collect([10, 20, 30, 40]).lazy()).toArray()).toEqual([[1, 10], [2, 20], [3, 30]])
+      expect(await lazy.concat([4], new Set([5])).toArray()).toEqual([1, 2, 3, 4, 5])
+      expect(await lazy.concat(letters()).toArray()).toEqual([1, 2, 3, 'a', 'b'])
+    })
+
+    it('should emit running totals with scan()', async () => {
+      expect(await collect([1, 2, 3]).lazy().scan((total, n) => total + n, 0).toArray()).toEqual([1, 3, 6])
+    })
+
+    it('should query objects like an eager collection', async () => {
+      const orders = collect([
+        { id: 1, region: 'north', total: 40, note: null },
+        { id: 2, region: 'south', total: 10, note: 'gift' },
+        { id: 3, region: 'north', total: 25, note: null },
+      ]).lazy()
+
+      expect(await orders.where('region', 'north').pluck('id').toArray()).toEqual([1, 3])
+      expect(await orders.whereIn('id', [2, 3]).count()).toBe(2)
+      expect(await orders.whereNotNull('note').pluck('id').toArray()).toEqual([2])
+      expect(await orders.sum('total')).toBe(75)
+      expect(await orders.avg('total')).toBe(25)
+      expect((await orders.min('total'))?.id).toBe(2)
+      expect((await orders.max('total'))?.id).toBe(1)
+      expect(await orders.countBy('region')).toEqual(new Map([['north', 2], ['south', 1]]))
+      expect(await orders.contains('region', 'south')).toBe(true)
+      expect(await orders.implode('id', ',')).toBe('1,2,3')
+      expect(await orders.filter(order => order.total > 100).isEmpty()).toBe(true)
+    })
+
+    it('should sort, reverse and dedupe by buffering', async () => {
+      const people = collect([
+        { name: 'Cy', age: 40 },
+        { name: 'Al', age: 30 },
+        { name: 'Bo', age: 40 },
+      ]).lazy()
+
+      expect(await people.sortBy('age').pluck('name').toArray()).toEqual(['Al', 'Cy', 'Bo'])
+      expect(await people.sortByDesc('name').pluck('name').toArray()).toEqual(['Cy', 'Bo', 'Al'])
+      expect(await people.reverse().pluck('name').toArray()).toEqual(['Bo', 'Al', 'Cy'])
+      expect(await people.unique('age').pluck('name').toArray()).toEqual(['Cy', 'Al'])
+      expect(await collect([3, 1, 2]).lazy().sort().toArray()).toEqual([1, 2, 3])
+    })
+
+    it('should throw once a buffering operation passes maxItems', async () => {
+      const lazy = collect([5, 4, 3, 2, 1]).lazy()
+
+      await expect(lazy.sort(undefined, { maxItems: 4 }).toArray()).rejects.toThrow('sort() would hold more than 4 items in memory')
+      await expect(lazy.reverse({ maxItems: 2 }).toArray()).rejects.toThrow(RangeError)
+      expect(await lazy.unique(undefined, { maxItems: 5 }).count()).toBe(5)
+      expect(await lazy.reverse({ maxItems: 5 }).first()).toBe(1)
+    })
+
+    it('should group and partition items', async () => {
+      const lazy = collect([
+        { team: 'red', score: 3 },
+        { team: 'blue', score: 5 },
+        { team: 'red', score: 8 },
+      ]).lazy()
+
+      const byTeam = await lazy.groupBy('team')
+      expect(byTeam.get('red')?.pluck('score').toArray()).toEqual([3, 8])
+
+      const byResult = await lazy.groupBy(async row => row.score > 4 ? 'win' : 'loss')
+      expect(byResult.get('win')?.count()).toBe(2)
+
+      const [high, low] = await lazy.partition(async row => row.score > 4)
+      expect(high.count()).toBe(2)
+      expect(low.first()?.team).toBe('red')
+      await expect(lazy.groupBy('team', { maxItems: 2 })).rejects.toThrow(RangeError)
+    })
   })
 
   describe('Performance Characteristics', () => {
@@ -4689,6 +6209,108 @@ describe('Advanced Transformations', () => {
       expect(numberResult.toArray()).toEqual([2, 6, 10])
     })
   })
+
+  describe('window()', () => {
+    const sales = [
+      { region: 'north', day: 2, total: 20 },
+      { region: 'south', day: 1, total: 5 },
+      { region: 'north', day: 1, total: 10 },
+      { region: 'north', day: 3, total: 20 },
+      { region: 'south', day: 2, total: 15 },
+      { region: 'north', day: 4, total: 50 },
+    ]
+
+    it('should add ranking columns within partitions and keep item order', () => {
+      const result = collect(sales).window(
+        { partitionBy: 'region', orderBy: 'total', direction: 'desc' },
+        { position: 'row_number', rank: 'rank', dense: 'dense_rank' },
+      )
+
+      expect(result.map(row => [row.region, row.total, row.position, row.rank, row.dense]).toArray()).toEqual([
+        ['north', 20, 2, 2, 2],
+        ['south', 5, 2, 2, 2],
+        ['north', 10, 4, 4, 3],
+        ['north', 20, 3, 2, 2],
+        ['south', 15, 1, 1, 1],
+        ['north', 50, 1, 1, 1],
+      ])
+    })
+
+    it('should compute running totals and period-over-period deltas', () => {
+      const result = collect(sales)
+        .window({ partitionBy: 'region', orderBy: 'day' }, {
+          running: ['sum', 'total'],
+          average: ['avg', 'total'],
+          previous: ['lag', 'total', 1, 0],
+          next: ['lead', 'total'],
+        })
+        .where('region', 'north')
+        .sortBy('day')
+
+      expect(result.pluck('running').toArray()).toEqual([10, 30, 50, 100])
+      expect(result.pluck('average').toArray()).toEqual([10, 15, 50 / 3, 25])
+      expect(result.map(row => row.total - row.previous).toArray()).toEqual([10, 10, 0, 30])
+      expect(result.pluck('next').toArray()).toEqual([20, 20, 50, undefined])
+    })
+
+    it('should support rolling frames written as SQL or bounds', () => {
+      const days = collect([1, 2, 3, 4, 5].map(day => ({ day, value: day * 10 })))
+      const sql = days.window({ orderBy: 'day', frame: 'ROWS BETWEEN 2 PRECEDING AND CURRENT ROW' }, { rolling: ['sum', 'value'] })
+      const bounds = days.window({ orderBy: 'day', frame: { preceding: 1, following: 1 } }, {
+        low: ['min', 'value'],
+        high: ['max', 'value'],
+        first: ['first_value', 'value'],
+        last: ['last_value', 'value'],
+      })
+
+      expect(sql.pluck('rolling').toArray()).toEqual([10, 30, 60, 90, 120])
+      expect(bounds.map(row => [row.low, row.high, row.first, row.last]).toArray()).toEqual([
+        [10, 20, 10, 20],
+        [10, 30, 10, 30],
+        [20, 40, 20, 40],
+        [30, 50, 30, 50],
+        [40, 50, 40, 50],
+      ])
+    })
+
+    it('should include peers in the default frame but not in row frames', () => {
+      const days = collect([{ day: 1, value: 5 }, { day: 2, value: 1 }, { day: 2, value: 3 }, { day: 3, value: 4 }])
+      const peers = days.window({ orderBy: 'day' }, { running: ['sum', 'value'], low: ['min', 'value'] })
+      const rows = days.window({ orderBy: 'day', frame: { preceding: 'unbounded', following: 0 } }, { running: ['sum', 'value'] })
+
+      expect(peers.map(row => [row.running, row.low]).toArray()).toEqual([[5, 5], [9, 1], [9, 1], [13, 1]])
+      expect(rows.pluck('running').toArray()).toEqual([5, 6, 9, 13])
+    })
+
+    it('should track rolling extremes past null values', () => {
+      const values = [3, null, 1, 4, 1, 5, 9, 2, 6]
+      const result = collect(values.map((value, day) => ({ day, value }))).window(
+        { orderBy: 'day', frame: { preceding: 2, following: 0 } },
+        { low: ['min', 'value'], high: ['max', 'value'] },
+      )
+
+      expect(result.pluck('low').toArray()).toEqual([3, 3, 1, 1, 1, 1, 1, 2, 2])
+      expect(result.pluck('high').toArray()).toEqual([3, 3, 3, 4, 4, 5, 9, 9, 9])
+    })
+
+    it('should use the whole partition without orderBy', () => {
+      const result = collect(sales).window({ partitionBy: 'region' }, { regionTotal: ['sum', 'total'], rank: 'rank' })
+
+      expect(result.pluck('regionTotal').toArray()).toEqual([100, 20, 100, 100, 20, 100])
+      expect(result.pluck('rank').unique().toArray()).toEqual([1])
+    })
+
+    it('should split rows into ntile buckets', () => {
+      const result = collect([1, 2, 3, 4, 5, 6, 7].map(n => ({ n }))).window({ orderBy: 'n' }, { quartile: ['ntile', 4] })
+      expect(result.pluck('quartile').toArray()).toEqual([1, 1, 2, 2, 3, 3, 4])
+    })
+
+    it('should reject invalid frames', () => {
+      expect(() => collect(sales).window({ frame: 'ROWS 3 PRECEDING' }, { total: ['sum', 'total'] })).toThrow(
+        'Invalid window frame: ROWS 3 PRECEDING',
+      )
+    })
+  })
 })
 
 describe('String Operations', () => {
@@ -6072,39 +7694,180 @@ describe('Specialized Data Types', () => {
       // German format - matches actual implementation output
       expect(deResult.first()?.formatted).toMatch(/\d{1,2}\.\d{1,2}\.\d{4}/)
 
-      // French format - using actual implementation format
-      expect(frResult.first()?.formatted).toContain('/')
+      // French format - using actual implementation format
+      expect(frResult.first()?.formatted).toContain('/')
+
+      // Japanese format - checking for any formatted output
+      expect(jaResult.first()?.formatted).toBeTruthy()
+    })
+  })
+})
+
+describe('Database-like Operations', () => {
+  describe('query()', () => {
+    const users = [
+      { id: 1, name: 'John', age: 30, active: true },
+      { id: 2, name: 'Jane', age: 25, active: true },
+      { id: 3, name: 'Bob', age: 35, active: false },
+    ]
+
+    it('should handle SQL-like queries', () => {
+      const collection = collect(users)
+      // Using item.property syntax since that's available in the filter context
+      const result = collection.query('where item.age > 25 && item.active === true')
+
+      expect(result.count()).toBe(1)
+      expect(result.first()?.name).toBe('John')
+    })
+
+    it('should support parameterized queries', () => {
+      const collection = collect(users)
+      // Using item.property syntax and correct parameter replacement
+      const result = collection.query('where item.age > ? && item.active === ?', [25, true])
+
+      expect(result.count()).toBe(1)
+      expect(result.first()?.name).toBe('John')
+    })
+
+    describe('SELECT statements', () => {
+      const orders = [
+        { customer: 'Ann', status: 'paid', total: 80 },
+        { customer: 'Ann', status: 'shipped', total: 50 },
+        { customer: 'Ben', status: 'paid', total: 60 },
+        { customer: 'Cid', status: 'open', total: 500 },
+        { customer: 'Dee', status: 'paid', total: null },
+      ]
+
+      it('should group, aggregate, filter groups, order and limit', () => {
+        const result = collect(orders).query<{ customer: string, revenue: number, orders: number }>(
+          'SELECT customer, SUM(total) AS revenue, COUNT(*) AS orders FROM self WHERE status IN (?, ?) GROUP BY customer HAVING revenue > 50 ORDER BY revenue DESC LIMIT 10',
+          ['paid', 'shipped'],
+        )
+
+        expect(result.toArray()).toEqual([
+          { customer: 'Ann', revenue: 130, orders: 2 },
+          { customer: 'Ben', revenue: 60, orders: 1 },
+        ])
+      })
+
+      it('should return original items for SELECT *', () => {
+        const items = collect(orders)
+        const result = items.query('SELECT * FROM self WHERE total > 70')
+
+        expect(result.toArray()).toEqual([orders[0], orders[3]])
+        expect(result.first()).toBe(orders[0])
+      })
+
+      it('should respect parentheses and operator precedence', () => {
+        const result = collect(orders).query('where (status = \'open\' or total < 70) and customer != \'Ben\'')
+
+        expect(result.pluck('customer').toArray()).toEqual(['Ann', 'Cid'])
+      })
+
+      it('should support LIKE, BETWEEN and IS NULL', () => {
+        const items = collect(orders)
+
+        expect(items.query('where customer like \'a%\'').count()).toBe(2)
+        expect(items.query('where customer not like \'_e_\'').pluck('customer').toArray()).toEqual(['Ann', 'Ann', 'Cid'])
+        expect(items.query('where total between 50 and 80').count()).toBe(3)
+        expect(items.query('where total is null').pluck('customer').toArray()).toEqual(['Dee'])
+        expect(items.query('where total is not null').count()).toBe(4)
+      })
+
+      it('should never match NULL with comparison operators', () => {
+        const items = collect(orders)
+
+        expect(items.query('where total = null').count()).toBe(0)
+        expect(items.query('where not (total > 100)').count()).toBe(3)
+      })
+
+      it('should project expressions and name unaliased columns', () => {
+        const result = collect(orders).query<Record<string, unknown>>('SELECT customer, total * 2 AS doubled, UPPER(status) FROM self WHERE total IS NOT NULL LIMIT 1')
+
+        expect(result.first()).toEqual({ customer: 'Ann', doubled: 160, 'UPPER(status)': 'PAID' })
+      })
+
+      it('should support DISTINCT and positional ORDER BY', () => {
+        const result = collect(orders).query('SELECT DISTINCT status FROM self ORDER BY 1')
+
+        expect(result.pluck('status').toArray()).toEqual(['open', 'paid', 'shipped'])
+      })
+
+      it('should order by several keys with NULLS FIRST', () => {
+        const result = collect(orders).query('SELECT customer FROM self ORDER BY total DESC NULLS FIRST, customer')
+
+        expect(result.pluck('customer').toArray()).toEqual(['Dee', 'Cid', 'Ann', 'Ben', 'Ann'])
+      })
+
+      it('should apply OFFSET with LIMIT', () => {
+        const items = collect(orders)
+
+        expect(items.query('SELECT customer FROM self ORDER BY customer LIMIT 2 OFFSET 1').pluck('customer').toArray()).toEqual(['Ann', 'Ben'])
+        expect(items.query('SELECT customer FROM self ORDER BY customer LIMIT ?, ?', [3, 1]).pluck('customer').toArray()).toEqual(['Cid'])
+      })
+
+      it('should aggregate the whole collection without GROUP BY', () => {
+        const result = collect(orders).query<Record<string, unknown>>('SELECT COUNT(*) AS n, COUNT(total) AS priced, AVG(total) AS average, MAX(customer) AS last FROM self')
+
+        expect(result.toArray()).toEqual([{ n: 5, priced: 4, average: 172.5, last: 'Dee' }])
+        expect(collect(orders).query<Record<string, unknown>>('SELECT SUM(total) AS sum FROM self WHERE total > 1000').toArray()).toEqual([{ sum: null }])
+      })
+
+      it('should read nested properties through dotted paths', () => {
+        const result = collect([{ user: { city: 'Oslo' } }, { user: { city: 'Rome' } }])
+          .query('select * from people p where p.user.city = ?', ['Rome'])
+
+        expect(result.toArray()).toEqual([{ user: { city: 'Rome' } }])
+      })
+
+      it('should compare mixed numbers and strings the same way in WHERE and ORDER BY', () => {
+        const items = collect<{ v: number | string }>([{ v: 30 }, { v: '30' }, { v: 5 }, { v: '100' }])
 
-      // Japanese format - checking for any formatted output
-      expect(jaResult.first()?.formatted).toBeTruthy()
+        expect(items.query('where v > \'10\'').pluck('v').toArray()).toEqual([30, '30', '100'])
+        expect(items.query('where v > 10').pluck('v').toArray()).toEqual([30, '30', '100'])
+        expect(items.query('where v = \'30\'').pluck('v').toArray()).toEqual([30, '30'])
+        expect(items.query('select * from self order by v').pluck('v').toArray()).toEqual([5, 30, '30', '100'])
+      })
     })
-  })
-})
 
-describe('Database-like Operations', () => {
-  describe('query()', () => {
-    const users = [
-      { id: 1, name: 'John', age: 30, active: true },
-      { id: 2, name: 'Jane', age: 25, active: true },
-      { id: 3, name: 'Bob', age: 35, active: false },
-    ]
+    describe('query errors', () => {
+      it('should report the line and column of syntax errors', () => {
+        const collection = collect(users)
 
-    it('should handle SQL-like queries', () => {
-      const collection = collect(users)
-      // Using item.property syntax since that's available in the filter context
-      const result = collection.query('where item.age > 25 && item.active === true')
+        try {
+          collection.query('SELECT name,\n  FROM self')
+          expect.unreachable()
+        }
+        catch (error) {
+          expect(error).toBeInstanceOf(QuerySyntaxError)
+          expect((error as QuerySyntaxError).line).toBe(2)
+          expect((error as QuerySyntaxError).column).toBe(3)
+          expect((error as Error).message).toBe('Unexpected \'FROM\' at line 2, column 3')
+        }
+      })
 
-      expect(result.count()).toBe(1)
-      expect(result.first()?.name).toBe('John')
-    })
+      it('should reject unterminated strings and unknown functions', () => {
+        const collection = collect(users)
 
-    it('should support parameterized queries', () => {
-      const collection = collect(users)
-      // Using item.property syntax and correct parameter replacement
-      const result = collection.query('where item.age > ? && item.active === ?', [25, true])
+        expect(() => collection.query('where name = \'John')).toThrow('Unterminated string literal at line 1, column 14')
+        expect(() => collection.query('select frob(name) from self')).toThrow('Unknown function \'frob\'')
+      })
 
-      expect(result.count()).toBe(1)
-      expect(result.first()?.name).toBe('John')
+      it('should reject double-quoted names that are not columns', () => {
+        const collection = collect(users)
+
+        expect(() => collection.query('where name = "John"')).toThrow('Unknown column "John"; write strings in single quotes at line 1, column 14')
+        expect(collection.query('select "name" as n from self where self."age" > 0 order by "n"').count()).toBe(collection.count())
+        expect(collect<{ name: string }>([]).query('where name = "John"').count()).toBe(0)
+      })
+
+      it('should reject aggregates in WHERE', () => {
+        expect(() => collect(users).query('where sum(age) > 10')).toThrow('Aggregate functions are not allowed in WHERE')
+      })
+
+      it('should reject missing parameters', () => {
+        expect(() => collect(users).query('where age > ? and id = ?', [1])).toThrow(RangeError)
+      })
     })
   })
 
@@ -6212,6 +7975,232 @@ describe('Database-like Operations', () => {
       }))
       expect(unmatched?.name).toBeUndefined()
     })
+
+    it('should fan out one-to-many matches', () => {
+      const lines = collect([
+        { orderId: 1, sku: 'A' },
+        { orderId: 1, sku: 'B' },
+      ])
+      const result = collect([{ orderId: 1 }, { orderId: 2 }]).leftJoin(lines, 'orderId', 'orderId')
+
+      expect(result.toArray()).toEqual([
+        { orderId: 1, sku: 'A' },
+        { orderId: 1, sku: 'B' },
+        { orderId: 2 },
+      ])
+    })
+  })
+
+  describe('innerJoin()', () => {
+    const stock = [
+      { sku: 'A', warehouse: 'north', qty: 5 },
+      { sku: 'A', warehouse: 'south', qty: 2 },
+      { sku: 'B', warehouse: 'north', qty: 0 },
+    ]
+    const prices = [
+      { sku: 'A', region: 'north', price: 10 },
+      { sku: 'B', region: 'north', price: 20 },
+      { sku: 'C', region: 'north', price: 30 },
+    ]
+
+    it('should keep only matching rows', () => {
+      const result = collect(stock).innerJoin(collect(prices), 'sku', 'sku')
+
+      expect(result.count()).toBe(3)
+      expect(result.pluck('price').toArray()).toEqual([10, 10, 20])
+    })
+
+    it('should match on several key columns', () => {
+      const result = collect(stock).innerJoin(collect(prices), ['sku', 'warehouse'], ['sku', 'region'])
+
+      expect(result.toArray()).toEqual([
+        { sku: 'A', warehouse: 'north', qty: 5, region: 'north', price: 10 },
+        { sku: 'B', warehouse: 'north', qty: 0, region: 'north', price: 20 },
+      ])
+    })
+
+    it('should resolve collisions with a merge function', () => {
+      const left = collect([{ id: 1, name: 'left' }])
+      const right = collect([{ id: 1, name: 'right' }])
+      const result = left.innerJoin(right, 'id', 'id', (a, b) => ({ id: a.id, names: [a.name, b.name] }))
+
+      expect(result.toArray()).toEqual([{ id: 1, names: ['left', 'right'] }])
+    })
+
+    it('should never match null or undefined keys', () => {
+      const left = collect([{ id: null as number | null }, { id: 1 }])
+      const right = collect([{ id: null as number | null, label: 'null' }, { id: 1, label: 'one' }])
+
+      expect(left.innerJoin(right, 'id', 'id').pluck('label').toArray()).toEqual(['one'])
+    })
+
+    it('should reject key lists of different lengths', () => {
+      expect(() => collect(stock).innerJoin(collect(prices), ['sku', 'warehouse'], ['sku'])).toThrow(
+        'Join keys must list the same number of columns on both sides',
+      )
+    })
+  })
+
+  describe('rightJoin()', () => {
+    it('should keep every row of the other collection', () => {
+      const orders = collect([{ id: 1, userId: 1 }, { id: 2, userId: 1 }])
+      const users = collect([{ userId: 1, name: 'John' }, { userId: 2, name: 'Jane' }])
+      const result = orders.rightJoin(users, 'userId', 'userId')
+
+      expect(result.toArray()).toEqual([
+        { id: 1, userId: 1, name: 'John' },
+        { id: 2, userId: 1, name: 'John' },
+        { userId: 2, name: 'Jane' },
+      ])
+    })
+
+    it('should pass undefined as the left row to the merge function', () => {
+      const result = collect<{ id: number }>([]).rightJoin(collect([{ id: 1 }]), 'id', 'id', (left, right) => [left, right])
+
+      expect(result.toArray()).toEqual([[undefined, { id: 1 }]])
+    })
+  })
+
+  describe('fullOuterJoin()', () => {
+    it('should keep unmatched rows from both sides', () => {
+      const left = collect([{ id: 1, a: 'x' }, { id: 2, a: 'y' }])
+      const right = collect([{ id: 2, b: 'z' }, { id: 3, b: 'w' }])
+      const result = left.fullOuterJoin(right, 'id', 'id')
+
+      expect(result.toArray()).toEqual([
+        { id: 1, a: 'x' },
+        { id: 2, a: 'y', b: 'z' },
+        { id: 3, b: 'w' },
+      ])
+    })
+  })
+
+  describe('semiJoin() and antiJoin()', () => {
+    const users = [{ id: 1 }, { id: 2 }, { id: 3 }]
+    const orders = [{ userId: 1 }, { userId: 1 }, { userId: 3 }]
+
+    it('should keep items with a match once', () => {
+      const result = collect(users).semiJoin(collect(orders), 'id', 'userId')
+      expect(result.toArray()).toEqual([{ id: 1 }, { id: 3 }])
+    })
+
+    it('should keep items without a match', () => {
+      const result = collect(users).antiJoin(collect(orders), 'id', 'userId')
+      expect(result.toArray()).toEqual([{ id: 2 }])
+    })
+  })
+
+  describe('index()', () => {
+    const users = [
+      { id: 1, role: 'admin', team: 'a' },
+      { id: 2, role: 'user', team: 'b' },
+      { id: 3, role: 'guest', team: 'a' },
+      { id: 4, role: 'user', team: 'a' },
+      { id: 5, role: 'admin', team: 'b' },
+    ]
+
+    function indexedKeys(collection: unknown): PropertyKey[] | undefined {
+      return (collection as any).__indexes?.keys
+    }
+
+    it('should answer lookups the same way as a scan', () => {
+      const plain = collect(users)
+      const indexed = collect(users).index(['id', 'role'])
+
+      expect(indexed.where('role', 'user').toArray()).toEqual(plain.where('role', 'user').toArray())
+      expect(indexed.whereIn('role', ['user', 'admin']).toArray()).toEqual(plain.whereIn('role', ['user', 'admin']).toArray())
+      expect(indexed.firstWhere('role', 'admin')).toBe(users[0] as any)
+      expect(indexed.firstWhere('role', 'owner')).toBeUndefined()
+      expect(indexed.contains('id', 4)).toBe(true)
+      expect(indexed.contains('id', 9)).toBe(false)
+      expect(indexed.keyBy('role')).toEqual(plain.keyBy('role'))
+    })
+
+    it('should keep the index hidden from enumeration', () => {
+      const indexed = collect(users).index(['role'])
+      expect(Object.keys(indexed)).not.toContain('__indexes')
+      expect(indexedKeys(indexed)).toEqual(['role'])
+    })
+
+    it('should merge keys across calls', () => {
+      const indexed = collect(users).index(['role']).index(['team', 'role'])
+      expect(indexedKeys(indexed)).toEqual(['role', 'team'])
+    })
+
+    it('should carry the index through operations that keep items unchanged', () => {
+      const indexed = collect(users).index(['role'])
+      const derived = indexed.sortBy('id', 'desc').take(4)
+
+      expect(indexedKeys(derived)).toEqual(['role'])
+      expect(derived.where('role', 'user').pluck('id').toArray()).toEqual([4, 2])
+      expect(indexedKeys(indexed.where('team', 'a').skip(1))).toEqual(['role'])
+      expect(indexedKeys(indexed.whereNotNull('team').whereNull('id'))).toEqual(['role'])
+      expect(indexedKeys(indexed.whereLike('role', 'u%').whereRegex('team', /a/))).toEqual(['role'])
+      expect(indexedKeys(indexed.map(user => user.id))).toBeUndefined()
+    })
+
+    it('should read dotted keys as paths when indexed', () => {
+      const people = collect<Record<string, any>>([
+        { name: 'Ada', address: { city: 'London' } },
+        { name: 'Alan', address: { city: 'Wilmslow' } },
+        { name: 'Grace', address: { city: 'London' } },
+      ])
+      const indexed = collect([...people.items]).index(['address.city'])
+
+      expect(indexed.where('address.city', 'London').pluck('name').toArray()).toEqual(['Ada', 'Grace'])
+      expect(indexed.where('address.city', 'London').toArray()).toEqual(people.where('address.city', 'London').toArray())
+    })
+
+    it('should carry built lookups without reading the keys again', () => {
+      let reads = 0
+      const items = [3, 1, 2, 1].map((k, id) => ({
+        id,
+        get k() {
+          reads++
+          return k
+        },
+      }))
+      const sorted = collect(items).index(['k']).sortBy('k')
+
+      reads = 0
+      const ones = sorted.where('k', 1).pluck('id').toArray()
+      const threes = sorted.filter(item => item.id !== 1).where('k', 3).pluck('id').toArray()
+
+      expect(reads).toBe(0)
+      expect(ones).toEqual([1, 3])
+      expect(threes).toEqual([0])
+    })
+
+    it('should rebuild lookups after pop() and shift()', () => {
+      const indexed = collect([...users]).index(['role'])
+      indexed.shift()
+      indexed.pop()
+
+      expect(indexed.where('role', 'user').pluck('id').toArray()).toEqual([2, 4])
+      expect(indexed.contains('role', 'admin')).toBe(false)
+    })
+
+    it('should use the other side\'s index in leftJoin()', () => {
+      const orders = collect([
+        { orderId: 10, userId: 3 },
+        { orderId: 11, userId: 9 },
+      ])
+      const result = orders.leftJoin(collect(users).index(['id']), 'userId', 'id')
+
+      expect(result.toArray()).toEqual([
+        { orderId: 10, userId: 3, id: 3, role: 'guest', team: 'a' },
+        { orderId: 11, userId: 9 },
+      ] as any)
+    })
+
+    it('should keep the indexes built by optimize()', () => {
+      const large = Array.from({ length: 1500 }, (_, i) => ({ id: i, bucket: i % 10 }))
+      const optimized = collect(large).optimize()
+
+      expect(indexedKeys(optimized)).toEqual(['id', 'bucket'])
+      expect(optimized.where('bucket', 3).count()).toBe(150)
+      expect(optimized.firstWhere('id', 1499)).toBe(large[1499] as any)
+    })
   })
 })
 
@@ -6226,10 +8215,10 @@ describe('Export Operations', () => {
       const sql = collection.toSQL('users')
 
       expect(sql).toBe(
-        'INSERT INTO users (id, name, age)\n'
+        'INSERT INTO "users" ("id", "name", "age")\n'
         + 'VALUES\n'
-        + '(1, "John", 30),\n'
-        + '(2, "Jane", 25);',
+        + '(1, \'John\', 30),\n'
+        + '(2, \'Jane\', 25);',
       )
     })
 
@@ -6246,13 +8235,169 @@ describe('Export Operations', () => {
       const collection = collect(data)
       const sql = collection.toSQL('complex_table')
 
-      // Updated to match actual implementation which doesn't wrap object in quotes
       expect(sql).toBe(
-        'INSERT INTO complex_table (id, json, date, nullValue, bool)\n'
+        'INSERT INTO "complex_table" ("id", "json", "date", "nullValue", "bool")\n'
         + 'VALUES\n'
-        + '(1, {"key":"value"}, "2024-01-01T00:00:00.000Z", null, true);',
+        + '(1, \'{"key":"value"}\', \'2024-01-01T00:00:00.000Z\', NULL, TRUE);',
+      )
+    })
+
+    it('should escape literals and quote identifiers for each dialect', () => {
+      const collection = collect([{ 'user name': 'O\'Brien \\ co', 'ok': true, 'at': new Date('2024-01-01T10:30:00Z') }])
+
+      expect(collection.toSQL('app.users', { dialect: 'postgres' }).split('\n')[2])
+        .toBe('(\'O\'\'Brien \\ co\', TRUE, \'2024-01-01T10:30:00.000Z\');')
+      expect(collection.toSQL('app.users', { dialect: 'mysql' })).toBe(
+        'INSERT INTO `app`.`users` (`user name`, `ok`, `at`)\nVALUES\n(\'O\'\'Brien \\\\ co\', TRUE, \'2024-01-01 10:30:00.000\');',
+      )
+      expect(collection.toSQL('users', { dialect: 'sqlite' }).split('\n')[2])
+        .toBe('(\'O\'\'Brien \\ co\', 1, \'2024-01-01T10:30:00.000Z\');')
+      expect(collection.toSQL('users', { dialect: 'mssql' })).toBe(
+        'INSERT INTO [users] ([user name], [ok], [at])\nVALUES\n(N\'O\'\'Brien \\ co\', 1, N\'2024-01-01 10:30:00.000\');',
       )
     })
+
+    it('should take columns from every item and write missing values as NULL', () => {
+      const sql = collect<Record<string, unknown>>([{ id: 1 }, { id: 2, email: 'a@b.c' }]).toSQL('users')
+      expect(sql).toBe('INSERT INTO "users" ("id", "email")\nVALUES\n(1, NULL),\n(2, \'a@b.c\');')
+    })
+
+    it('should quote every value in a column of mixed types', () => {
+      const sql = collect<Record<string, unknown>>([{ code: 1 }, { code: 'a\'b' }, { code: true }, { code: null }]).toSQL('t', { createTable: true, dialect: 'mysql' })
+      expect(sql).toContain('`code` VARCHAR(255)')
+      expect(sql).toContain('VALUES\n(\'1\'),\n(\'a\'\'b\'),\n(\'true\'),\n(NULL);')
+    })
+
+    it('should split rows into batches', () => {
+      const rows = Array.from({ length: 5 }, (_, i) => ({ id: i + 1 }))
+      const statements = collect(rows).toSQL('t', { batchSize: 2 }).split(';\n')
+
+      expect(statements).toHaveLength(3)
+      expect(statements[2]).toBe('INSERT INTO "t" ("id")\nVALUES\n(5);')
+      expect(collect(Array.from({ length: 1001 }, (_, i) => ({ id: i }))).toSQL('t', { dialect: 'mssql' }).match(/INSERT/g)).toHaveLength(2)
+      expect(() => collect(rows).toSQL('t', { batchSize: 0 })).toThrow('SQL batch size must be a positive integer')
+      expect(() => collect(rows).toSQL('t', { dialect: 'mssql', batchSize: 2000 })).toThrow('SQL Server allows at most 1000 rows per statement')
+    })
+
+    it('should write upserts for each dialect', () => {
+      const collection = collect([{ id: 1, name: 'John', age: 30 }])
+      const onConflict = { keys: ['id' as const] }
+
+      expect(collection.toSQL('users', { onConflict })).toBe(
+        'INSERT INTO "users" ("id", "name", "age")\nVALUES\n(1, \'John\', 30)\n'
+        + 'ON CONFLICT ("id") DO UPDATE SET "name" = excluded."name", "age" = excluded."age";',
+      )
+      expect(collection.toSQL('users', { dialect: 'sqlite', onConflict: { keys: ['id'], update: [] } }))
+        .toEndWith('ON CONFLICT ("id") DO NOTHING;')
+      expect(collection.toSQL('users', { dialect: 'mysql', onConflict: { keys: ['id'], update: ['name'] } }))
+        .toEndWith('ON DUPLICATE KEY UPDATE `name` = VALUES(`name`);')
+      expect(collection.toSQL('users', { dialect: 'mssql', onConflict })).toBe(
+        'MERGE INTO [users] AS target\n'
+        + 'USING (VALUES\n(1, N\'John\', 30)\n) AS source ([id], [name], [age])\n'
+        + 'ON target.[id] = source.[id]\n'
+        + 'WHEN MATCHED THEN UPDATE SET [name] = source.[name], [age] = source.[age]\n'
+        + 'WHEN NOT MATCHED THEN INSERT ([id], [name], [age]) VALUES (source.[id], source.[name], source.[age]);',
+      )
+      expect(() => collection.toSQL('users', { onConflict: { keys: ['email' as any] } })).toThrow('Conflict key "email" is not a column')
+    })
+
+    it('should create a table with inferred column types', () => {
+      const collection = collect([
+        { id: 1, name: 'John', score: 9.5, active: true, joined: new Date('2024-01-01'), meta: { a: 1 }, views: 3000000000, note: null },
+        { id: 2, name: 'Jane', score: 7, active: false, joined: new Date('2024-02-01'), meta: [1], views: 1, note: 'hi' },
+      ])
+
+      const postgres = collection.toSQL('users', { createTable: true, onConflict: { keys: ['id'] } })
+      expect(postgres.split(';\n')[0]).toBe([
+        'CREATE TABLE IF NOT EXISTS "users" (',
+        '  "id" INTEGER NOT NULL,',
+        '  "name" TEXT NOT NULL,',
+        '  "score" DOUBLE PRECISION NOT NULL,',
+        '  "active" BOOLEAN NOT NULL,',
+        '  "joined" TIMESTAMPTZ NOT NULL,',
+        '  "meta" JSONB NOT NULL,',
+        '  "views" BIGINT NOT NULL,',
+        '  "note" TEXT,',
+        '  PRIMARY KEY ("id")',
+        ')',
+      ].join('\n'))
+
+      const mysql = collection.toSQL('users', { dialect: 'mysql', createTable: true })
+      expect(mysql).toContain('`name` VARCHAR(255) NOT NULL')
+      expect(mysql).toContain('`joined` DATETIME(3) NOT NULL')
+      expect(collection.toSQL('users', { dialect: 'sqlite', createTable: true })).toContain('"active" BOOLEAN NOT NULL')
+      expect(collection.toSQL('users', { dialect: 'mssql', createTable: true }))
+        .toStartWith('IF OBJECT_ID(N\'users\', N\'U\') IS NULL\nCREATE TABLE [users] (\n  [id] INT NOT NULL,\n  [name] NVARCHAR(255) NOT NULL,')
+    })
+  })
+
+  describe('SQLite', () => {
+    const users = [
+      { id: 1, name: 'John', active: true, joined: new Date('2024-01-01T00:00:00Z'), tags: ['admin'], score: 9.5 },
+      { id: 2, name: 'Jane', active: false, joined: new Date('2024-02-01T00:00:00Z'), tags: [], score: null },
+    ]
+
+    it('should create a table with inferred types and round-trip rows', () => {
+      const db = new Database(':memory:')
+
+      expect(collect(users).toSQLite(db, 'users')).toBe(2)
+      expect(db.query('SELECT sql FROM sqlite_master WHERE name = \'users\'').get()).toEqual({
+        sql: 'CREATE TABLE "users" (\n  "id" INTEGER NOT NULL,\n  "name" TEXT NOT NULL,\n  "active" BOOLEAN NOT NULL,\n  "joined" DATETIME NOT NULL,\n  "tags" JSON NOT NULL,\n  "score" REAL\n)',
+      })
+      expect(fromSQLite(db, 'SELECT * FROM users ORDER BY id').toArray()).toEqual(users)
+    })
+
+    it('should append to existing tables or replace them', () => {
+      const db = new Database(':memory:')
+      collect(users).toSQLite(db, 'users')
+      collect([{ id: 3, name: 'Bob', active: true, joined: new Date(), tags: [], score: 1 }]).toSQLite(db, 'users')
+      expect(fromSQLite(db, 'SELECT id FROM users').pluck('id').toArray()).toEqual([1, 2, 3])
+
+      collect([{ id: 9, label: 'fresh' }]).toSQLite(db, 'users', { mode: 'replace' })
+      expect(fromSQLite(db, 'SELECT * FROM users').toArray()).toEqual([{ id: 9, label: 'fresh' }])
+
+      expect(collect<{ id: number }>([]).toSQLite(db, 'users', { mode: 'replace' })).toBe(0)
+      expect(fromSQLite(db, 'SELECT * FROM users').toArray()).toEqual([])
+      expect(fromSQLite(db, 'SELECT name FROM pragma_table_info(\'users\')').pluck('name').toArray()).toEqual(['id', 'label'])
+      expect(collect<{ id: number }>([]).toSQLite(db, 'missing', { mode: 'replace' })).toBe(0)
+    })
+
+    it('should upsert rows on conflict', () => {
+      const db = new Database(':memory:')
+      collect(users).toSQLite(db, 'users', { onConflict: { keys: ['id'] } })
+      collect([{ ...users[0], name: 'Johnny' }]).toSQLite(db, 'users', { onConflict: { keys: ['id'], update: ['name'] } })
+      collect([{ ...users[1], name: 'Ignored' }]).toSQLite(db, 'users', { onConflict: { keys: ['id'], update: [] } })
+
+      expect(fromSQLite<{ name: string }>(db, 'SELECT name FROM users ORDER BY id').pluck('name').toArray()).toEqual(['Johnny', 'Jane'])
+    })
+
+    it('should roll back when a row fails', () => {
+      const db = new Database(':memory:')
+      collect(users).toSQLite(db, 'users', { onConflict: { keys: ['id'] } })
+
+      expect(() => collect([{ id: 5, name: 'New' }, { id: 6, name: null }]).toSQLite(db, 'users')).toThrow()
+      expect(fromSQLite(db, 'SELECT count(*) AS total FROM users').first()).toEqual({ total: 2 })
+    })
+
+    it('should bind positional and named parameters', () => {
+      const db = new Database(':memory:')
+      collect(users).toSQLite(db, 'users')
+
+      expect(fromSQLite(db, 'SELECT name FROM users WHERE id = ?', [2]).toArray()).toEqual([{ name: 'Jane' }])
+      expect(fromSQLite(db, 'SELECT name FROM users WHERE active = $active', { $active: 1 }).toArray()).toEqual([{ name: 'John' }])
+    })
+
+    it('should stream rows through a lazy cursor', async () => {
+      const db = new Database(':memory:')
+      collect(Array.from({ length: 50 }, (_, i) => ({ id: i + 1, even: i % 2 === 1 }))).toSQLite(db, 'numbers')
+
+      const evens = await readSQLite<{ id: number, even: boolean }>(db, 'SELECT * FROM numbers WHERE id > ?', [40])
+        .filter(row => row.even)
+        .map(row => row.id)
+        .toArray()
+
+      expect(evens).toEqual([42, 44, 46, 48, 50])
+    })
   })
 
   describe('toGraphQL()', () => {
@@ -6725,105 +8870,262 @@ describe('Performance Monitoring', () => {
 
 describe('Development Tools', () => {
   describe('playground()', () => {
-    it('should initialize playground', () => {
-      const consoleSpy = spyOn(console, 'log')
+    async function play<T>(collection: CollectionOperations<T>, lines: string[], options: { pageSize?: number } = {}) {
+      const input = new PassThrough()
+      const output = new PassThrough()
+      let written = ''
+      output.on('data', (chunk) => {
+        written += chunk
+      })
+      input.end(`${lines.join('\n')}\n`)
+      const result = await collection.playground({ input, output, ...options })
+      return { result, written }
+    }
 
-      const collection = collect([1, 2, 3])
-      collection.playground()
+    const orders = [
+      { id: 1, status: 'active', total: 30 },
+      { id: 2, status: 'closed', total: 10 },
+      { id: 3, status: 'active', total: 20 },
+    ]
 
-      expect(consoleSpy).toHaveBeenCalledWith(
-        'Collection Playground:',
-        expect.objectContaining({
-          items: [1, 2, 3],
-          length: 3,
-          operations: expect.any(Array),
-        }),
-      )
+    it('should apply typed chains and export the pipeline', async () => {
+      const { result, written } = await play(collect(orders), [
+        '.where(\'status\', \'active\').sortBy(\'total\')',
+        '.pluck(\'id\')',
+        ':undo',
+      ])
+
+      expect(result.collection.all()).toEqual([orders[2], orders[0]])
+      expect(result.steps).toEqual(['.where(\'status\', \'active\').sortBy(\'total\')'])
+      expect(result.code).toBe([
+        'import { collect } from \'ts-collect\'',
+        '',
+        'const result = collect(items)',
+        '  .where(\'status\', \'active\').sortBy(\'total\')',
+      ].join('\n'))
+      expect(result.history).toEqual(['.where(\'status\', \'active\').sortBy(\'total\')', '.pluck(\'id\')', ':undo'])
+      expect(written).toContain('Rows 1–2 of 2 · page 1/1')
+    })
+
+    it('should print values and errors without changing the pipeline', async () => {
+      const { result, written } = await play(collect(orders), ['.sum(\'total\')', '.nope()', 'where()', ':quit', '.take(1)'])
+
+      expect(result.steps).toEqual([])
+      expect(written).toMatch(/(^|> )60$/m)
+      expect(written).toContain('Error: collection.nope is not a function')
+      expect(written).toContain('Unknown command where()')
+    })
+
+    it('should page through results', async () => {
+      const { written } = await play(collect([1, 2, 3, 4, 5]), ['', ':page 3', ':page 9', ':prev'], { pageSize: 2 })
+
+      expect(written).toContain('Rows 3–4 of 5 · page 2/3')
+      expect(written).toContain('Rows 5–5 of 5 · page 3/3')
+      expect(written).toContain('Pages run from 1 to 3')
+      expect(written.match(/page 2\/3/g)).toHaveLength(2)
+    })
+
+    it('should render aligned tables', () => {
+      expect(renderTable([{ name: 'Laptop', price: 999 }, { name: 'Mouse', price: 49.5, tags: ['usb'] }])).toBe([
+        '# │ name   │ price │ tags',
+        '──┼────────┼───────┼────────',
+        '0 │ Laptop │   999 │',
+        '1 │ Mouse  │  49.5 │ ["usb"]',
+        'Rows 1–2 of 2 · page 1/1',
+      ].join('\n'))
+      expect(renderTable(['a long value'], { maxColumnWidth: 6 }).split('\n')[2]).toBe('0 │ a lon…')
+      expect(renderTable([])).toBe('(no items)')
+    })
+  })
+
+  describe('dump()', () => {
+    const printed = (run: () => void) => {
+      const consoleSpy = spyOn(console, 'log').mockImplementation(() => {})
+      try {
+        run()
+        return consoleSpy.mock.calls.map(call => call.join(' ')).join('\n')
+      }
+      finally {
+        consoleSpy.mockRestore()
+      }
+    }
 
-      mock.restore()
-    })
-  })
-
-  // describe('explain()', () => {
-  //   it('should explain operation pipeline', () => {
-  //     // Need to track each operation explicitly
-  //     const collection = collect([1, 2, 3, 4, 5])
-  //     collection.__operations = []
-
-  //     // Use defineProperty to track operations
-  //     const addOperation = (name: string) => {
-  //       collection.__operations.push(name)
-  //       return collection
-  //     }
-
-  //     collection
-  //       .tap(() => addOperation('map'))
-  //       .map(x => x * 2)
-  //       .tap(() => addOperation('filter'))
-  //       .filter(x => x > 5)
-  //       .tap(() => addOperation('sort'))
-  //       .sort((a, b) => b - a)
-
-  //     const result = collection.explain()
-
-  //     expect(result).toBe(
-  //       '1. map\n'
-  //       + '2. filter\n'
-  //       + '3. sort',
-  //     )
-  //   })
-
-  //   it('should track complex operation chains', () => {
-  //     const collection = collect([1, 2, 3])
-  //     collection.__operations = []
-
-  //     const addOperation = (name: string) => {
-  //       collection.__operations.push(name)
-  //       return collection
-  //     }
-
-  //     collection
-  //       .tap(() => addOperation('map'))
-  //       .map(x => x * 2)
-  //       .tap(() => addOperation('filter'))
-  //       .filter(x => x > 2)
-  //       .tap(() => addOperation('chunk'))
-  //       .chunk(2)
-  //       .tap(() => addOperation('flatMap'))
-  //       .flatMap(x => x)
-  //       .tap(() => addOperation('sort'))
-  //       .sort()
-
-  //     const result = collection.explain()
-
-  //     expect(result).toBe(
-  //       '1. map\n'
-  //       + '2. filter\n'
-  //       + '3. chunk\n'
-  //       + '4. flatMap\n'
-  //       + '5. sort',
-  //     )
-  //   })
-
-  //   it('should handle empty pipelines', () => {
-  //     const collection = collect([1, 2, 3])
-  //     collection.__operations = []
-  //     const result = collection.explain()
-  //     expect(result).toBe('')
-  //   })
-
-  //   it('should handle single operation', () => {
-  //     const collection = collect([1, 2, 3])
-  //     collection.__operations = []
-
-  //     collection
-  //       .tap(() => collection.__operations.push('map'))
-  //       .map(x => x * 2)
-
-  //     const result = collection.explain()
-  //     expect(result).toBe('1. map')
-  //   })
-  // })
+    const products = [
+      { id: 1, name: 'Laptop', price: 999, note: null },
+      { id: 2, name: 'Mouse', price: 49.5, note: 'wireless' },
+    ]
+
+    it('should print flat objects as a table with column types and null counts', () => {
+      expect(printed(() => collect(products).dump({ colors: false }))).toBe([
+        'Collection(2)',
+        '  │     id │ name   │  price │ note',
+        '  │ number │ string │ number │ string, 1 null',
+        '──┼────────┼────────┼────────┼───────────────',
+        '0 │      1 │ Laptop │    999 │ null',
+        '1 │      2 │ Mouse  │   49.5 │ wireless',
+      ].join('\n'))
+    })
+
+    it('should limit rows, columns and cell widths', () => {
+      const output = printed(() => collect(products).dump({ colors: false, maxRows: 1, width: 20, maxColumnWidth: 4 }))
+      expect(output).toBe([
+        'Collection(2)',
+        '  │   id │ name',
+        '  │ num… │ str…',
+        '──┼──────┼─────',
+        '0 │    1 │ Lap…',
+        '… 1 more rows',
+        '… 2 more columns: price, note',
+      ].join('\n'))
+    })
+
+    it('should print nested data as a tree', () => {
+      const output = printed(() => collect<unknown>([{ id: 1, tags: ['a'], address: { geo: { lat: 1 } } }, 'text']).dump({ colors: false, depth: 2 }))
+      expect(output).toBe([
+        'Collection(2)',
+        '├─ 0: {3}',
+        '│  ├─ id: 1',
+        '│  ├─ tags: Array(1) …',
+        '│  └─ address: {1} …',
+        '└─ 1: "text"',
+      ].join('\n'))
+    })
+
+    it('should mark circular references', () => {
+      const node: Record<string, unknown> = { name: 'root' }
+      node.self = node
+      expect(printed(() => collect([node]).dump({ colors: false }))).toContain('└─ self: [Circular]')
+    })
+
+    it('should use the options given to configure()', () => {
+      const collection = collect(products)
+      collection.configure({ dump: { colors: false, maxRows: 1 } })
+      const output = printed(() => collection.dump())
+      expect(output).toContain('… 1 more rows')
+      expect(output).not.toContain('\u001B[')
+      expect(printed(() => collection.dump({ colors: true }))).toContain('\u001B[1mCollection(2)\u001B[0m')
+    })
+
+    it('should keep the configuration on derived collections', () => {
+      const collection = collect([...products, ...products])
+      collection.configure({ dump: { colors: false, maxRows: 1 } })
+
+      expect(printed(() => collection.sortBy('price').where('name', 'Laptop').dump())).toContain('… 1 more rows')
+      expect(Object.keys(collection)).not.toContain('__config')
+    })
+
+    it('should print before exiting in dd()', () => {
+      const exitSpy = spyOn(process, 'exit').mockImplementation((() => {}) as any)
+      const output = printed(() => collect([1, 2]).dd({ colors: false }))
+      expect(output).toBe('Collection(2)\n├─ 0: 1\n└─ 1: 2')
+      expect(exitSpy).toHaveBeenCalledWith(1)
+      exitSpy.mockRestore()
+    })
+
+    it('should print the heap in debug() and return the collection', () => {
+      const collection = collect([])
+      let returned: unknown
+      const output = printed(() => {
+        returned = collection.debug({ colors: false })
+      })
+      expect(output).toMatch(/^Collection\(0\) \[\]\nHeap used: [\d.]+ MB$/)
+      expect(returned).toBe(collection)
+    })
+  })
+
+  describe('dumpDiff()', () => {
+    const before = [
+      { id: 1, name: 'Laptop', price: 999 },
+      { id: 2, name: 'Mouse', price: 49 },
+    ]
+
+    it('should show changes side by side by key', () => {
+      const consoleSpy = spyOn(console, 'log').mockImplementation(() => {})
+      collect(before).dumpDiff([{ id: 1, name: 'Laptop', price: 899 }, { id: 3, name: 'Pad', price: 5 }], { key: 'id', colors: false, width: 60 })
+      expect(consoleSpy.mock.calls[0][0]).toBe([
+        'Collection(2) → Collection(2): 1 changed, 1 added, 1 removed',
+        '  # │ before                    │ after',
+        '~ 1 │ price: 999                │ price: 899',
+        '+ 3 │                           │ {"id":3,"name":"Pad","pr…',
+        '- 2 │ {"id":2,"name":"Mouse","… │',
+      ].join('\n'))
+      consoleSpy.mockRestore()
+    })
+
+    it('should pair items by position without a key', () => {
+      const consoleSpy = spyOn(console, 'log').mockImplementation(() => {})
+      collect([1, 2, 3]).dumpDiff(collect([1, 5]), { colors: false })
+      collect(before).dumpDiff(before.map(item => ({ ...item })), { colors: false })
+      expect(consoleSpy.mock.calls[0][0]).toContain('Collection(3) → Collection(2): 1 changed, 0 added, 1 removed')
+      expect(consoleSpy.mock.calls[0][0]).toMatch(/~ 1 │ 2 +│ 5\n- 2 │ 3/)
+      expect(consoleSpy.mock.calls[1][0]).toBe('Collection(2) → Collection(2): no changes')
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe('explain()', () => {
+    const pipeline = () => collect([5, 3, 8, 1, 9, 2])
+      .trace()
+      .filter(n => n > 2)
+      .sortBy([{ key: n => n, direction: 'desc' }])
+      .take(2)
+
+    it('should record each chained operation with its row counts', () => {
+      const steps = JSON.parse(pipeline().explain('json')).steps
+      expect(steps.map((step: any) => [step.operation, step.inputCount, step.outputCount])).toEqual([
+        ['filter', 6, 4],
+        ['sortBy', 4, 4],
+        ['take', 4, 2],
+      ])
+      expect(steps[0].arguments).toMatch(/n\)? => n > 2$/)
+      expect(steps[1].arguments).toBe('[{"direction":"desc"}]')
+      expect(steps[2].arguments).toBe('2')
+      for (const step of steps) {
+        expect(step.durationMs).toBeGreaterThanOrEqual(0)
+        expect(step.memoryBytes).toBeGreaterThanOrEqual(0)
+      }
+    })
+
+    it('should render an indented plan with the last step first', () => {
+      const lines = pipeline().explain().split('\n')
+      expect(lines).toHaveLength(4)
+      expect(lines[0]).toMatch(/^take\(2\) {2}4 → 2 rows, [\d.]+ ms \(\d+%\), \d+(\.\d)? [KM]?B$/)
+      expect(lines[1]).toStartWith('  sortBy(')
+      expect(lines[2]).toMatch(/^ {4}filter\(.*n > 2\) {2}6 → 4 rows/)
+      expect(lines[3]).toBe('      source  6 rows')
+    })
+
+    it('should render a Mermaid flowchart', () => {
+      const chart = pipeline().explain('mermaid').split('\n')
+      expect(chart[0]).toBe('flowchart TD')
+      expect(chart[1]).toBe('  step0["source<br/>6 rows"]')
+      expect(chart).toContain('  step2 --> step3')
+      expect(chart.find(line => line.startsWith('  step2['))).toContain('sortBy([{#quot;direction#quot;:#quot;desc#quot;}])')
+      expect(chart.some(line => /^ {2}class step\d slowest$/.test(line))).toBe(true)
+    })
+
+    it('should keep branches apart and leave internal calls out', () => {
+      const traced = collect([1, 2, 3, 4]).trace()
+      const evens = traced.filter(n => n % 2 === 0)
+      const doubled = traced.map(n => n * 2).unique()
+      expect(JSON.parse(evens.explain('json')).steps.map((step: any) => step.operation)).toEqual(['filter'])
+      expect(JSON.parse(doubled.explain('json')).steps.map((step: any) => step.operation)).toEqual(['map', 'unique'])
+      expect(evens.all()).toEqual([2, 4])
+      expect(traced.sum()).toBe(10)
+    })
+
+    it('should trace async operations', async () => {
+      const mapped = await collect([1, 2, 3]).trace().mapAsync(async n => n * 10)
+      expect(mapped.all()).toEqual([10, 20, 30])
+      expect(JSON.parse(mapped.explain('json')).steps[0]).toMatchObject({ operation: 'mapAsync', inputCount: 3, outputCount: 3 })
+    })
+
+    it('should show only the source for untraced collections', () => {
+      expect(collect([1, 2, 3]).map(n => n * 2).explain()).toBe('source  3 rows')
+      expect(JSON.parse(collect([]).explain('json'))).toEqual({ sourceCount: 0, totalMs: 0, steps: [] })
+      expect(() => collect([1]).explain('yaml' as any)).toThrow('Unknown explain format yaml')
+    })
+  })
 
   describe('benchmark()', () => {
     it('should benchmark operations', async () => {
@@ -6924,6 +9226,75 @@ describe('Development Tools', () => {
       const mapTime = result.timing.map
       expect(sortTime).toBeGreaterThan(mapTime)
     })
+
+    it('should run a pipeline on every size', async () => {
+      const seen: number[] = []
+      const report = await collect([3, 1, 2]).benchmark((numbers) => {
+        seen.push(numbers.count())
+        return numbers.sort().sum()
+      }, { sizes: [10, 100], runs: 3, warmup: 1 })
+
+      expect(seen).toEqual([10, 10, 10, 10, 100, 100, 100, 100])
+      expect(report.measurements.map(m => [m.size, m.runs])).toEqual([[10, 3], [100, 3]])
+      for (const m of report.measurements) {
+        expect(m.minMs).toBeLessThanOrEqual(m.medianMs)
+        expect(m.medianMs).toBeLessThanOrEqual(m.p95Ms)
+        expect(m.p95Ms).toBeLessThanOrEqual(m.maxMs)
+        expect(m.heapBytes).toBeGreaterThanOrEqual(0)
+      }
+    })
+
+    it('should build inputs with a generator and await async pipelines', async () => {
+      const sizes: number[] = []
+      let last: number[] = []
+      await collect<number>([]).benchmark(async (numbers) => {
+        last = numbers.all()
+        await Promise.resolve()
+      }, {
+        sizes: [4],
+        runs: 1,
+        warmup: 0,
+        generator: (size) => {
+          sizes.push(size)
+          return Array.from({ length: size }, (_, i) => i + 1)
+        },
+      })
+
+      expect(sizes).toEqual([4])
+      expect(last).toEqual([1, 2, 3, 4])
+    })
+
+    it('should need a generator or items to scale', async () => {
+      await expect(collect([]).benchmark(c => c.count(), { sizes: [10] })).rejects.toThrow('benchmark() needs a generator or a collection with items to scale')
+      await expect(collect([1]).benchmark(c => c.count(), { runs: 0 })).rejects.toThrow(RangeError)
+    })
+
+    it('should fit growth classes', () => {
+      const sizes = [1e3, 1e4, 1e5]
+      expect(fitComplexity(sizes.map(n => [n, n / 1e4]))).toEqual({ complexity: 'O(n)', exponent: expect.closeTo(1, 5) })
+      expect(fitComplexity(sizes.map(n => [n, n * Math.log2(n) / 1e5])).complexity).toBe('O(n log n)')
+      expect(fitComplexity(sizes.map(n => [n, n ** 2 / 1e7]))).toEqual({ complexity: 'O(n²)', exponent: expect.closeTo(2, 5) })
+      expect(fitComplexity(sizes.map(n => [n, 0.5])).complexity).toBe('O(1)')
+      expect(fitComplexity([[1e3, 1]])).toEqual({ complexity: undefined, exponent: undefined })
+    })
+
+    it('should save as JSON and compare against a baseline', async () => {
+      const report = await collect([1, 2, 3]).benchmark(c => c.sum(), { sizes: [10, 20], runs: 1, warmup: 0 })
+      const saved = JSON.parse(JSON.stringify(report))
+      expect(Object.keys(saved)).toEqual(['measurements', 'complexity', 'exponent'])
+      expect(saved.measurements).toEqual(report.measurements)
+
+      const baseline = {
+        measurements: [{ ...report.measurements[0], medianMs: report.measurements[0].medianMs * 2, p95Ms: 0 }],
+        complexity: 'O(n²)' as const,
+        exponent: 2,
+      }
+      const lines = report.compare(baseline).split('\n')
+      expect(lines[0]).toBe('| Size | Median | Baseline | Change | p95 | Baseline p95 | Change |')
+      expect(lines[2]).toMatch(/^\| 10 \| [\d.]+ ms \| [\d.]+ ms \| -50\.0% \| [\d.]+ ms \| 0\.000 ms \| – \|$/)
+      expect(lines[3]).toMatch(/^\| 20 \| [\d.]+ ms \| – \| – \| [\d.]+ ms \| – \| – \|$/)
+      expect(lines.at(-1)).toBe(`Complexity: ${report.complexity ?? 'unknown'} (baseline O(n²))`)
+    })
   })
 })
 
@@ -7250,6 +9621,46 @@ describe('Parallel Processing', () => {
         [7, 8],
       ])
     })
+    describe('worker threads', () => {
+      const workerModule = new URL('./fixtures/parallel-worker.ts', import.meta.url)
+
+      it('should run chunks through the worker module and merge them in order', async () => {
+        const squares = await collect([1, 2, 3, 4, 5, 6, 7]).parallel<number>(workerModule, { chunks: 3, maxConcurrency: 2 })
+
+        expect(squares.toArray()).toEqual([1, 4, 9, 16, 25, 36, 49])
+      })
+
+      it('should call a named export with the chunk index', async () => {
+        const info = await collect(['a', 'b', 'c', 'd']).parallel(workerModule, { chunks: 2, exportName: 'chunkInfo' })
+
+        expect(info.toArray()).toEqual([
+          { index: 0, size: 2, typed: false },
+          { index: 1, size: 2, typed: false },
+        ])
+      })
+
+      it('should send numbers as transferable typed arrays', async () => {
+        const doubled = await collect([1.5, 2, 3, 4]).parallel<number>(workerModule, { chunks: 2, exportName: 'double', transfer: true })
+        const info = await collect([1, 2]).parallel<{ typed: boolean }>(workerModule, { exportName: 'chunkInfo', transfer: true })
+
+        expect(doubled.toArray()).toEqual([3, 4, 6, 8])
+        expect(info.first()?.typed).toBe(true)
+      })
+
+      it('should reject with the index of the failing chunk', async () => {
+        const error = await collect([1, 2, 3, 4]).parallel(workerModule, { chunks: 2, exportName: 'failOnSecondChunk' }).catch(err => err)
+
+        expect(error).toBeInstanceOf(ParallelChunkError)
+        expect(error.chunkIndex).toBe(1)
+        expect(error.message).toBe('Chunk 1 failed: cannot handle 3')
+        expect(error.cause.name).toBe('RangeError')
+      })
+
+      it('should report a missing export and handle empty collections', async () => {
+        await expect(collect([1]).parallel(workerModule, { exportName: 'missing' })).rejects.toThrow('does not export a function named missing')
+        expect((await collect<number>([]).parallel(workerModule)).count()).toBe(0)
+      })
+    })
   })
 
   describe('prefetch()', () => {
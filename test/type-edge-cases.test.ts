@@ -290,14 +290,14 @@ describe('type-driven collection edge cases', () => {
       expect(left.leftJoin(right, 'id', 'id').toArray()).toEqual([{ id: 1, value: 10 }])
     })
 
-    it('uses the last duplicate right row in a left join', () => {
+    it('fans out duplicate right rows in a left join', () => {
       const left = collect([{ id: 1, value: 10 }])
       const right = collect([
         { id: 1, label: 'first' },
         { id: 1, label: 'last' },
       ])
 
-      expect(left.leftJoin(right, 'id', 'id').first()?.label).toBe('last')
+      expect(left.leftJoin(right, 'id', 'id').pluck('label').toArray()).toEqual(['first', 'last'])
     })
   })
 
@@ -1,4 +1,4 @@
-import type { CollectionItem, CollectionOperations } from '../src'
+import type { CollectionItem, CollectionOperations, GroupedCollection } from '../src'
 import { collect } from '../src'
 
 type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2)
@@ -168,7 +168,7 @@ const pivoted = groupedItems.pivot('group', 'id')
 const mappedDictionary = groupedItems.mapWithKeys(item => [item.group, item.id] as const)
 type _KeyByPreservesKeyAndValueTypes = Expect<Equal<typeof keyed, Map<'a' | 'b', GroupedItem>>>
 type _CountByPreservesKeyTypes = Expect<Equal<typeof counted, Map<'a' | 'b', number>>>
-type _GroupByPreservesKeyTypes = Expect<Equal<typeof grouped, Map<'a' | 'b', CollectionOperations<GroupedItem>>>>
+type _GroupByPreservesKeyTypes = Expect<Equal<typeof grouped, GroupedCollection<GroupedItem, 'a' | 'b', { group: 'a' | 'b' }>>>
 type _PivotPreservesBothSelectedTypes = Expect<Equal<typeof pivoted, Map<'a' | 'b', 1 | 2>>>
 type _MapWithKeysAcceptsReadonlyTuples = Expect<Equal<typeof mappedDictionary, Map<'a' | 'b', 1 | 2>>>
 
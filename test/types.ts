@@ -1,5 +1,6 @@
-import type { CollectionItem, CollectionOperations } from '../src/types'
+import type { BenchmarkReport, CollectionItem, CollectionOperations, DotPath, PathValue } from '../src/types'
 import { collect } from '../src/collect'
+import { registerMacro } from '../src/macros'
 
 type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2)
   ? (<T>() => T extends B ? 1 : 2) extends (<T>() => T extends A ? 1 : 2) ? true : false
@@ -141,6 +142,35 @@ type _CrossJoinUsesRightSideCollisions = Expect<Equal<CollectionItem<typeof cros
 type _LeftJoinIncludesMatchedAndUnmatchedValues = Expect<Equal<CollectionItem<typeof leftJoined>['value'], number | string>>
 type _LeftJoinMakesRightOnlyPropertiesOptional = Expect<Equal<CollectionItem<typeof leftJoined>['label'], string | undefined>>
 
+interface LeftOnlyRow { id: number, value: number, note: string }
+const leftOnlyRows = collect<LeftOnlyRow>([])
+const innerJoined = leftRows.innerJoin(rightRows, ['id', 'value'], ['id', 'label'])
+const rightJoined = leftOnlyRows.rightJoin(rightRows, 'id', 'id')
+const outerJoined = leftOnlyRows.fullOuterJoin(rightRows, 'id', 'id')
+const mergedJoin = leftRows.leftJoin(rightRows, 'id', 'id', (left, right) => ({ id: left.id, label: right?.label ?? null }))
+const semiJoined = leftRows.semiJoin(rightRows, 'id', 'id')
+type _InnerJoinUsesRightSideCollisions = Expect<Equal<CollectionItem<typeof innerJoined>['value'], string>>
+type _RightJoinKeepsRightValues = Expect<Equal<CollectionItem<typeof rightJoined>['value'], string>>
+type _RightJoinMakesLeftOnlyPropertiesOptional = Expect<Equal<CollectionItem<typeof rightJoined>['note'], string | undefined>>
+type _FullOuterJoinIncludesBothSidesValues = Expect<Equal<CollectionItem<typeof outerJoined>['value'], number | string>>
+type _FullOuterJoinMakesOneSidedPropertiesOptional = Expect<Equal<CollectionItem<typeof outerJoined>['note' | 'label'], string | undefined>>
+type _JoinMergeFunctionSetsTheItemType = Expect<Equal<CollectionItem<typeof mergedJoin>, { id: number, label: string | null }>>
+type _SemiJoinKeepsTheItemType = Expect<Equal<CollectionItem<typeof semiJoined>, LeftRow>>
+
+interface OrderRow { region: 'north' | 'south', status: string, total: number }
+const orderRows = collect<OrderRow>([])
+const aggregated = orderRows.groupBy('region').agg({ revenue: ['sum', 'total'], orders: 'count', largest: ['max', 'total'], label: group => group.count().toString() })
+const multiLevel = orderRows.groupBy(['region', 'status'])
+type _AggregatedRowsAreTyped = Expect<Equal<CollectionItem<typeof aggregated>, { region: 'north' | 'south', revenue: number, orders: number, largest: number | undefined, label: string }>>
+type _MultiLevelKeysAreTuples = Expect<Equal<Parameters<typeof multiLevel.get>[0], ['north' | 'south', string]>>
+
+const windowed = orderRows.window({ partitionBy: 'region', orderBy: 'total' }, { rank: 'rank', previous: ['lag', 'total'], delta: ['lag', 'total', 1, null], running: ['sum', 'total'], best: ['max', 'total'] })
+type _WindowRanksAreNumbers = Expect<Equal<CollectionItem<typeof windowed>['rank'], number>>
+type _WindowLagMayBeMissing = Expect<Equal<CollectionItem<typeof windowed>['previous'], number | undefined>>
+type _WindowLagUsesTheDefault = Expect<Equal<CollectionItem<typeof windowed>['delta'], number | null>>
+type _WindowAggregatesAreTyped = Expect<Equal<CollectionItem<typeof windowed>['running' | 'region'], number | 'north' | 'south'>>
+type _WindowMinMaxMayBeMissing = Expect<Equal<CollectionItem<typeof windowed>['best'], number | undefined>>
+
 interface Scored { id: number, score: string }
 const searched = collect<Scored>([]).search('query', ['id'])
 type _SearchReplacesExistingScores = Expect<Equal<CollectionItem<typeof searched>['score'], number>>
@@ -149,3 +179,42 @@ collect([[1, 'a'], [2, 'b']] as const).eachSpread((id, label) => {
   type _SpreadFirstArgument = Expect<Equal<typeof id, 1 | 2>>
   type _SpreadSecondArgument = Expect<Equal<typeof label, 'a' | 'b'>>
 })
+
+interface Customer { id: number, address: { city: string, zip?: string }, orders: Array<{ sku: string, price: number }> }
+const customers = collect<Customer>([])
+type _DotPathsReachNestedFields = Expect<Equal<Extract<DotPath<Customer>, `address.${string}`>, 'address.city' | 'address.zip'>>
+type _PathValueReadsNestedFields = Expect<Equal<PathValue<Customer, 'address.city'>, string>>
+type _WildcardPathValuesAreArrays = Expect<Equal<PathValue<Customer, 'orders.*.price'>, number[]>>
+const cities = customers.pluck('address.city')
+const parisCustomers = customers.where('address.city', 'Paris')
+const customersByCity = customers.keyBy('address.city')
+type _PluckFollowsPaths = Expect<Equal<CollectionItem<typeof cities>, string>>
+type _WherePathsKeepTheItemType = Expect<Equal<CollectionItem<typeof parisCustomers>, Customer>>
+const pickedCustomers = customers.only('id', 'address.city')
+const omittedCustomers = customers.except('address.zip')
+type _OnlyNestsPickedPaths = Expect<Equal<CollectionItem<typeof pickedCustomers>, { id: number, address: { city: string } }>>
+type _ExceptDropsNestedPaths = Expect<Equal<CollectionItem<typeof omittedCustomers>['address'], { city: string }>>
+type _KeyByPathsKeyTheMap = Expect<Equal<typeof customersByCity, Map<string, Customer>>>
+
+const pipelineReport = collect([3, 1, 2]).benchmark(numbers => numbers.sort().all(), { sizes: [10, 100] })
+const quickReport = collect([3, 1, 2]).benchmark()
+type _PipelineBenchmarksReturnAReport = Expect<Equal<Awaited<typeof pipelineReport>, BenchmarkReport>>
+type _BareBenchmarksKeepTheirShape = Expect<Equal<keyof Awaited<typeof quickReport>, 'timing' | 'memory' | 'complexity'>>
+
+declare module '../src/index' {
+  interface CollectionMacros<T> {
+    everyOther: () => CollectionOperations<T>
+    joinedWith: (separator: string) => string
+  }
+}
+
+registerMacro('everyOther', function () {
+  return this.filter((_, index) => index % 2 === 0)
+})
+registerMacro('joinedWith', function (separator) {
+  type _DeclaredMacroArgumentsAreTyped = Expect<Equal<typeof separator, string>>
+  return this.join(separator)
+})
+const everyOther = collect(['a', 'b', 'c']).map(letter => letter.toUpperCase()).everyOther()
+type _DeclaredMacrosAreTyped = Expect<Equal<CollectionItem<typeof everyOther>, string>>
+type _DeclaredMacroResultsAreTyped = Expect<Equal<ReturnType<CollectionOperations<number>['joinedWith']>, string>>